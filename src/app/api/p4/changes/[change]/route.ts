@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { executeP4Command, parseP4DescribeOutput, setChangeSpecDescription } from "../../../../../lib/serverUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+type RouteContext = {
+    params: Promise<{ change: string }>;
+};
+
+/**
+ * Get the full description and affected files of a changelist with 'p4 describe -s'
+ * With '?shelved=1' the shelved files are listed instead ('p4 describe -S')
+ */
+export const GET = withP4Session(async function GET(req: Request, { params }: RouteContext) {
+    try {
+        const { change } = await params;
+        const shelved = new URL(req.url).searchParams.get("shelved") === "1";
+
+        if (!/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Invalid changelist number: ${change}` }, { status: 400 });
+        }
+
+        console.log("[DEBUG] GET /api/p4/changes called for:", change);
+
+        const output = executeP4Command(["-ztag", "describe", "-s", ...(shelved ? ["-S"] : []), change]);
+        const details = parseP4DescribeOutput(output);
+
+        if (!details) {
+            return NextResponse.json({ error: `Changelist ${change} not found`, details: output.trim() }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            change: details,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error describing changelist:", error);
+        return NextResponse.json({ error: "Failed to describe changelist", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Update the description of a pending changelist
+ */
+export const PUT = withP4Session(async function PUT(req: Request, { params }: RouteContext) {
+    try {
+        const { change } = await params;
+        const { description } = await req.json();
+
+        if (!/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Invalid changelist number: ${change}` }, { status: 400 });
+        }
+
+        if (!description || typeof description !== "string" || description.trim() === "") {
+            return NextResponse.json({ error: "A changelist description is required" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] PUT /api/p4/changes called for:", change);
+
+        const spec = executeP4Command(["change", "-o", change]);
+        const newSpec = setChangeSpecDescription(spec, description.trim());
+        const output = executeP4Command(["change", "-i"], newSpec);
+
+        return NextResponse.json({
+            success: true,
+            change,
+            message: output.trim() || `Changelist ${change} updated`,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error updating changelist:", error);
+        return NextResponse.json({ error: "Failed to update changelist", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Delete an empty pending changelist
+ */
+export const DELETE = withP4Session(async function DELETE(req: Request, { params }: RouteContext) {
+    try {
+        const { change } = await params;
+
+        if (!/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Invalid changelist number: ${change}` }, { status: 400 });
+        }
+
+        console.log("[DEBUG] DELETE /api/p4/changes called for:", change);
+
+        try {
+            const output = executeP4Command(["change", "-d", change]);
+
+            return NextResponse.json({
+                success: true,
+                change,
+                message: output.trim() || `Changelist ${change} deleted`,
+            });
+        } catch (cmdError: any) {
+            const errorMsg = cmdError.message || "";
+
+            // Handle known error cases
+            if (errorMsg.includes("open file(s)")) {
+                return NextResponse.json({ error: `Changelist ${change} still has open files. Move or revert them first.` }, { status: 400 });
+            } else if (errorMsg.includes("shelved files")) {
+                return NextResponse.json({ error: `Changelist ${change} has shelved files. Delete the shelf first.` }, { status: 400 });
+            }
+
+            throw cmdError;
+        }
+    } catch (error) {
+        console.error("[DEBUG] Error deleting changelist:", error);
+        return NextResponse.json({ error: "Failed to delete changelist", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { executeP4Command } from "../../../../../../lib/serverUtils";
+import { withP4Session } from "../../../../../../lib/p4Session";
+
+type RouteContext = {
+    params: Promise<{ change: string }>;
+};
+
+/**
+ * Get the depot paths from 'p4 shelve' output
+ * Shelved files are listed as 'edit //depot/file.txt#3', deleted ones as '//depot/file.txt - deleted'
+ */
+function parseShelvedFiles(output: string): string[] {
+    return output
+        .split("\n")
+        .map((line) => line.trim().match(/^(?:[\w/]+ )?(\/\/.+?)(?:#\d+|#none)?(?: - .*)?$/))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .map((match) => match[1]);
+}
+
+/**
+ * Shelve the opened files of a pending changelist
+ * - without files: shelves every file of the changelist
+ * - with files: shelves only those files, leaving the rest of the shelf as it is
+ * - replace: 'p4 shelve -r', the shelf ends up with exactly the files opened in the changelist
+ */
+export const POST = withP4Session(async function POST(req: Request, { params }: RouteContext) {
+    try {
+        const { change } = await params;
+        const { files = [], replace = false } = await req.json();
+
+        if (!/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Invalid changelist number: ${change}` }, { status: 400 });
+        }
+
+        if (!Array.isArray(files)) {
+            return NextResponse.json({ error: "Files must be a list" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/changes/shelve called for:", change, "files:", files.length || "all");
+
+        // '-f' updates files that are already shelved instead of failing
+        const output = executeP4Command(["shelve", replace ? "-r" : "-f", "-c", change, ...files.map(String)]);
+        console.log("[DEBUG] P4 shelve output:", output);
+
+        const shelved = parseShelvedFiles(output);
+
+        return NextResponse.json({
+            success: true,
+            change,
+            shelved,
+            message: `Shelved ${shelved.length} file(s) in changelist ${change}`,
+            output,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error shelving files:", error);
+        return NextResponse.json({ error: "Failed to shelve files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Delete the shelf of a pending changelist with 'p4 shelve -d'
+ * Files can be passed as 'file' query parameters to delete only those files from the shelf
+ */
+export const DELETE = withP4Session(async function DELETE(req: Request, { params }: RouteContext) {
+    try {
+        const { change } = await params;
+        const files = new URL(req.url).searchParams.getAll("file");
+
+        if (!/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Invalid changelist number: ${change}` }, { status: 400 });
+        }
+
+        console.log("[DEBUG] DELETE /api/p4/changes/shelve called for:", change, "files:", files.length || "all");
+
+        const output = executeP4Command(["shelve", "-d", "-c", change, ...files]);
+        console.log("[DEBUG] P4 shelve -d output:", output);
+
+        return NextResponse.json({
+            success: true,
+            change,
+            deleted: parseShelvedFiles(output),
+            message: `Deleted the shelved files of changelist ${change}`,
+            output,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error deleting shelved files:", error);
+        return NextResponse.json({ error: "Failed to delete shelved files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server";
+import { P4SubmitFile } from "../../../../../../types/p4";
+import { executeP4Command, setChangeSpecDescription } from "../../../../../../lib/serverUtils";
+import { parseP4ZtagOutput } from "../../../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../../../lib/p4Session";
+
+type RouteContext = {
+    params: Promise<{ change: string }>;
+};
+
+// Actions that create a new file in the depot, so there is no have revision to be out of date
+const NEW_FILE_ACTIONS = ["add", "branch", "move/add", "import"];
+
+/**
+ * Get the files of a pending changelist along with anything that would block their submission
+ */
+function getSubmitFiles(change: string): P4SubmitFile[] {
+    let output = "";
+    try {
+        output = executeP4Command(["-ztag", "fstat", "-Ro", "-e", change, "//..."]);
+    } catch (error: any) {
+        // An empty changelist makes fstat fail with 'no such file(s)'
+        if (error.message && error.message.includes("no such file(s)")) {
+            return [];
+        }
+        throw error;
+    }
+
+    return parseP4ZtagOutput(output)
+        .filter((record) => record.depotFile)
+        .map((record) => {
+            const file: P4SubmitFile = {
+                depotFile: record.depotFile,
+                action: record.action || "",
+                haveRev: record.haveRev,
+                headRev: record.headRev,
+            };
+
+            if (record.unresolved !== undefined) {
+                file.problem = "Needs resolve";
+            } else if (!NEW_FILE_ACTIONS.includes(file.action) && record.headRev && parseInt(record.haveRev || "0", 10) < parseInt(record.headRev, 10)) {
+                file.problem = `Out of date (have #${record.haveRev || "none"}, head #${record.headRev})`;
+            }
+
+            return file;
+        });
+}
+
+/**
+ * Check a pending changelist before submitting it
+ */
+export const GET = withP4Session(async function GET(req: Request, { params }: RouteContext) {
+    try {
+        const { change } = await params;
+
+        if (!/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Only numbered changelists can be submitted: ${change}` }, { status: 400 });
+        }
+
+        console.log("[DEBUG] GET /api/p4/changes/submit called for:", change);
+
+        const files = getSubmitFiles(change);
+
+        return NextResponse.json({
+            success: true,
+            change,
+            files,
+            canSubmit: files.length > 0 && files.every((file) => !file.problem),
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error checking changelist for submit:", error);
+        return NextResponse.json({ error: "Failed to check changelist", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Submit a pending changelist with 'p4 submit -c'
+ * Files of the changelist not listed in 'files' are moved to the default changelist first,
+ * and moved back when the submit fails
+ */
+export const POST = withP4Session(async function POST(req: Request, { params }: RouteContext) {
+    try {
+        const { change } = await params;
+        const { description, files } = await req.json();
+
+        if (!/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Only numbered changelists can be submitted: ${change}` }, { status: 400 });
+        }
+
+        if (!description || typeof description !== "string" || description.trim() === "") {
+            return NextResponse.json({ error: "A changelist description is required" }, { status: 400 });
+        }
+
+        if (!files || !Array.isArray(files) || files.length === 0) {
+            return NextResponse.json({ error: "No files selected for submit" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/changes/submit called for:", change);
+
+        // Validate the files that will be submitted
+        const changeFiles = getSubmitFiles(change);
+        const submitFiles = changeFiles.filter((file) => files.includes(file.depotFile));
+        const blockedFiles = submitFiles.filter((file) => file.problem);
+
+        if (submitFiles.length === 0) {
+            return NextResponse.json({ error: "None of the selected files are in this changelist" }, { status: 400 });
+        }
+
+        if (blockedFiles.length > 0) {
+            return NextResponse.json(
+                {
+                    error: `${blockedFiles.length} file(s) can't be submitted until they are synced and resolved`,
+                    files: blockedFiles,
+                },
+                { status: 409 },
+            );
+        }
+
+        // Leave unselected files behind in the default changelist
+        const leftBehind = changeFiles.filter((file) => !files.includes(file.depotFile));
+        if (leftBehind.length > 0) {
+            executeP4Command(["reopen", "-c", "default", ...leftBehind.map((file) => file.depotFile)]);
+        }
+
+        try {
+            // Save the edited description
+            const spec = executeP4Command(["change", "-o", change]);
+            executeP4Command(["change", "-i"], setChangeSpecDescription(spec, description.trim()));
+
+            const output = executeP4Command(["submit", "-c", change]);
+            console.log("[DEBUG] P4 submit output:", output);
+
+            // The change is renumbered on submit if newer changes exist
+            const renamedMatch = output.match(/renamed change (\d+) and submitted/);
+            const submittedMatch = output.match(/Change (\d+) submitted/);
+            const submittedChange = renamedMatch ? renamedMatch[1] : submittedMatch ? submittedMatch[1] : change;
+
+            return NextResponse.json({
+                success: true,
+                change: submittedChange,
+                message: `Submitted change ${submittedChange}`,
+                output,
+            });
+        } catch (submitError: any) {
+            // The changelist is still pending, put the unselected files back so it isn't left split
+            let details = submitError.message;
+            if (leftBehind.length > 0) {
+                try {
+                    executeP4Command(["reopen", "-c", change, ...leftBehind.map((file) => file.depotFile)]);
+                } catch (reopenError: any) {
+                    console.error("[DEBUG] Error moving files back to the changelist:", reopenError);
+                    details += `\n${leftBehind.length} unselected file(s) could not be moved back from the default changelist: ${reopenError.message}`;
+                }
+            }
+
+            // Report the exact p4 error, e.g. files that need resolve after a concurrent submit
+            return NextResponse.json({ error: "Submit failed", details }, { status: 409 });
+        }
+    } catch (error) {
+        console.error("[DEBUG] Error submitting changelist:", error);
+        return NextResponse.json({ error: "Failed to submit changelist", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
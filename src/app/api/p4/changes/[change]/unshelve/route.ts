@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { createP4Changelist, executeP4Command } from "../../../../../../lib/serverUtils";
+import { withP4Session } from "../../../../../../lib/p4Session";
+
+type RouteContext = {
+    params: Promise<{ change: string }>;
+};
+
+/**
+ * Unshelve the files of a shelved changelist, which may belong to another user, into a pending
+ * changelist of the current workspace with 'p4 unshelve -s'
+ * The target is 'default', an existing pending changelist, or 'new' to create one with the given description
+ */
+export const POST = withP4Session(async function POST(req: Request, { params }: RouteContext) {
+    try {
+        const { change } = await params;
+        const { targetChange = "default", description, files = [] } = await req.json();
+
+        if (!/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Invalid changelist number: ${change}` }, { status: 400 });
+        }
+
+        if (targetChange !== "default" && targetChange !== "new" && !/^\d+$/.test(targetChange)) {
+            return NextResponse.json({ error: `Invalid target changelist: ${targetChange}` }, { status: 400 });
+        }
+
+        if (targetChange === "new" && (!description || !description.trim())) {
+            return NextResponse.json({ error: "A description is required for a new changelist" }, { status: 400 });
+        }
+
+        if (!Array.isArray(files)) {
+            return NextResponse.json({ error: "Files must be a list" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/changes/unshelve called for:", change, "into:", targetChange);
+
+        const target = targetChange === "new" ? createP4Changelist(description.trim()) : targetChange;
+        const changeArgs = target === "default" ? [] : ["-c", String(target)];
+
+        const output = executeP4Command(["unshelve", "-s", change, ...changeArgs, ...files.map(String)]);
+        console.log("[DEBUG] P4 unshelve output:", output);
+
+        // Lines look like '//depot/file.txt#3 - unshelved, opened for edit'
+        const unshelved = output
+            .split("\n")
+            .map((line) => line.match(/^(\/\/.+?)#(?:\d+|none) - unshelved/))
+            .filter((match): match is RegExpMatchArray => !!match)
+            .map((match) => match[1]);
+
+        // Files already opened in the workspace get a resolve scheduled instead of being overwritten
+        const needsResolve = /must resolve/.test(output);
+
+        return NextResponse.json({
+            success: true,
+            change: target,
+            unshelved,
+            message: `Unshelved ${unshelved.length} file(s) from changelist ${change}${needsResolve ? ", some files must be resolved" : ""}`,
+            output,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error unshelving files:", error);
+        return NextResponse.json({ error: "Failed to unshelve files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
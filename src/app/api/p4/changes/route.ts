@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { createP4Changelist, executeP4Command, getP4ClientName, parseP4ChangesOutput } from "../../../../lib/serverUtils";
+import { withP4Session } from "../../../../lib/p4Session";
+
+/**
+ * List the pending changelists of the current workspace
+ */
+export const GET = withP4Session(async function GET() {
+    try {
+        console.log("[DEBUG] GET /api/p4/changes called");
+
+        const client = getP4ClientName();
+        const output = executeP4Command(["-ztag", "changes", "-l", "-s", "pending", "-c", client]);
+
+        const changes = parseP4ChangesOutput(output);
+        console.log("[DEBUG] Parsed pending changelists:", changes.length);
+
+        return NextResponse.json({
+            success: true,
+            client,
+            changes,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error listing changelists:", error);
+        return NextResponse.json({ error: "Failed to list pending changelists", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Create a new, empty pending changelist with the given description
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { description } = await req.json();
+
+        if (!description || typeof description !== "string" || description.trim() === "") {
+            return NextResponse.json({ error: "A changelist description is required" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/changes called");
+
+        const change = createP4Changelist(description.trim());
+
+        return NextResponse.json({
+            success: true,
+            change,
+            message: `Changelist ${change} created`,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error creating changelist:", error);
+        return NextResponse.json({ error: "Failed to create changelist", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
@@ -1,9 +1,11 @@
 import { NextResponse } from "next/server";
-import { execSync } from "child_process";
 import { promises as fs } from "fs";
 import path from "path";
 import os from "os";
 import { P4Service } from "@/lib/p4Service";
+import { executeP4Command } from "@/lib/serverUtils";
+import { parseP4InfoOutput } from "@/lib/ztagUtils";
+import { getCurrentP4Session, withP4Session } from "@/lib/p4Session";
 
 /**
  * Detects the P4 client root using command line commands
@@ -11,13 +13,11 @@ import { P4Service } from "@/lib/p4Service";
 function detectClientRoot(): string | null {
     try {
         // Try to get client root using p4 info
-        const output = execSync("p4 info", { encoding: "utf8" });
-        const clientRootMatch = output.match(/Client root: (.*?)(?:\r?\n|$)/);
+        const { clientRoot } = parseP4InfoOutput(executeP4Command(["-ztag", "info"]));
 
-        if (clientRootMatch && clientRootMatch[1]) {
-            const detectedRoot = clientRootMatch[1].trim();
-            console.log(`Detected client root from p4 info: ${detectedRoot}`);
-            return detectedRoot;
+        if (clientRoot) {
+            console.log(`Detected client root from p4 info: ${clientRoot}`);
+            return clientRoot;
         }
 
         return null;
@@ -33,7 +33,7 @@ function detectClientRoot(): string | null {
 async function findClientRootByP4Config(): Promise<string | null> {
     try {
         // Try P4CONFIG first
-        const output = execSync("p4 set P4CONFIG", { encoding: "utf8" });
+        const output = executeP4Command(["set", "P4CONFIG"]);
         const p4configMatch = output.match(/P4CONFIG=(.*?)(?:\s|$)/);
 
         if (p4configMatch && p4configMatch[1]) {
@@ -80,8 +80,23 @@ async function findClientRootByP4Config(): Promise<string | null> {
 /**
  * API route to get the current Perforce client root
  */
-export async function GET() {
+export const GET = withP4Session(async function GET() {
     try {
+        // A session knows its own workspace, the detection below is for the server's own environment
+        const session = getCurrentP4Session();
+        if (session) {
+            const clientRoot = session.clientRoot || detectClientRoot() || "";
+
+            return NextResponse.json({
+                success: true,
+                clientRoot,
+                clientRootDetected: !!clientRoot,
+                clientName: session.settings.client || "",
+                user: session.settings.user,
+                port: session.settings.port,
+            });
+        }
+
         const p4Service = P4Service.getInstance();
 
         // Get connection status from P4 service
@@ -171,4 +186,4 @@ export async function GET() {
             { status: 500 },
         );
     }
-}
+});
@@ -1,85 +1,107 @@
 import { NextResponse } from "next/server";
-import { execSync } from "child_process";
-import fs from "fs";
-import os from "os";
-import path from "path";
+import { cookies } from "next/headers";
+import { getP4Failure, runP4 } from "../../../../lib/p4Runner";
+import { getCurrentP4Session, P4_SESSION_COOKIE, P4_SESSION_HEADER, removeP4Session, saveP4Session, withP4Session } from "../../../../lib/p4Session";
+import { getP4LoginTicket } from "../../../../lib/serverUtils";
+import { parseP4InfoOutput } from "../../../../lib/ztagUtils";
+import { P4ConnectionSettings } from "../../../../types/p4";
 
 /**
- * Create a temporary P4CONFIG file for authentication
+ * Get the connection of the current session
  */
-function createP4ConfigFile(config: { port: string; user: string; password: string; client?: string }) {
-    try {
-        // Create temp directory for p4 config if it doesn't exist
-        const tmpDir = path.join(os.tmpdir(), "perforce-friend");
-        if (!fs.existsSync(tmpDir)) {
-            fs.mkdirSync(tmpDir, { recursive: true });
-        }
+export const GET = withP4Session(async function GET() {
+    const session = getCurrentP4Session();
 
-        // Create or overwrite p4 config file
-        const configPath = path.join(tmpDir, "p4config");
-        let configContent = `P4PORT=${config.port}\nP4USER=${config.user}\nP4PASSWD=${config.password}`;
-
-        if (config.client) {
-            configContent += `\nP4CLIENT=${config.client}`;
-        }
-
-        fs.writeFileSync(configPath, configContent);
-
-        return configPath;
-    } catch (error) {
-        console.error("Error creating P4CONFIG file:", error);
-        throw new Error("Failed to create P4CONFIG file");
+    if (!session) {
+        return NextResponse.json({ connected: false });
     }
-}
 
-export async function POST(req: Request) {
+    return NextResponse.json({
+        connected: true,
+        sessionId: session.id,
+        ...session.settings,
+        clientRoot: session.clientRoot,
+        loginRequired: session.loginRequired,
+    });
+});
+
+/**
+ * Log in, test the connection and save it as the session's connection
+ * Only the ticket from the login is kept, without a password the server's own tickets are used
+ */
+export const POST = withP4Session(async function POST(req: Request) {
     try {
         const body = await req.json();
-        const { port, user, password, client } = body;
+        const { port, user, password, client, charset, clientRoot: clientRootOverride } = body;
 
         // Validate required fields
-        if (!port || !user || !password) {
+        if (!port || !user) {
             return NextResponse.json({ error: "Missing required Perforce connection parameters" }, { status: 400 });
         }
 
-        // Create temporary P4CONFIG file
-        const configPath = createP4ConfigFile({ port, user, password, client });
-
-        try {
-            // Test connection with 'p4 info'
-            const command = "p4 info";
-            const output = execSync(command, {
-                env: { ...process.env, P4CONFIG: configPath },
-                encoding: "utf8",
-            });
-
-            // Extract client root if available
-            let clientRoot = "";
-            const clientRootMatch = output.match(/Client root:\s+(.+)/);
-            if (clientRootMatch && clientRootMatch[1]) {
-                clientRoot = clientRootMatch[1].trim();
-            }
-
-            // Prepare success response
-            const response = NextResponse.json({
-                success: true,
-                message: "Successfully connected to Perforce server",
-                clientRoot,
-            });
+        const settings: P4ConnectionSettings = {
+            port: String(port),
+            user: String(user),
+            client: client ? String(client) : undefined,
+            charset: charset ? String(charset) : undefined,
+        };
 
-            return response;
-        } catch (execError: any) {
-            // Clean up temp file on error
+        let ticket: string | undefined;
+        if (password) {
             try {
-                fs.unlinkSync(configPath);
-            } catch (e) {
-                console.error("Error removing temporary P4CONFIG file:", e);
+                ticket = getP4LoginTicket(settings, String(password));
+            } catch (loginError) {
+                const message = loginError instanceof Error ? loginError.message : "Unknown error";
+                return NextResponse.json({ error: `Perforce login failed: ${message}` }, { status: /password invalid/i.test(message) ? 401 : 500 });
             }
+        }
 
-            return NextResponse.json({ error: `Perforce connection failed: ${execError.message}` }, { status: 500 });
+        // Test connection with 'p4 info'
+        const result = runP4(["-ztag", "info"], { connection: settings, env: ticket ? { P4PASSWD: ticket } : undefined });
+        const failure = getP4Failure(result);
+        if (failure) {
+            return NextResponse.json({ error: `Perforce connection failed: ${failure}` }, { status: 500 });
         }
+
+        const info = parseP4InfoOutput(result.stdout);
+        // A profile can override the root, e.g. when the workspace is reached through a mapped drive
+        const clientRoot = clientRootOverride ? String(clientRootOverride) : info.clientRoot || "";
+
+        // A tab reconnecting keeps its session, other requests start a new one so they don't change another tab's connection
+        const session = saveP4Session(settings, clientRoot, ticket, req.headers.get(P4_SESSION_HEADER));
+
+        const response = NextResponse.json({
+            success: true,
+            message: "Successfully connected to Perforce server",
+            sessionId: session.id,
+            clientRoot,
+            client: settings.client || info.clientName || "",
+        });
+
+        response.cookies.set(P4_SESSION_COOKIE, session.id, { httpOnly: true, sameSite: "lax", path: "/" });
+
+        return response;
     } catch (error) {
         console.error("Error in Perforce connection API:", error);
         return NextResponse.json({ error: "Failed to connect to Perforce server" }, { status: 500 });
     }
-}
+});
+
+/**
+ * Disconnect the current session
+ */
+export const DELETE = withP4Session(async function DELETE() {
+    const session = getCurrentP4Session();
+    const response = NextResponse.json({ success: true });
+
+    if (session) {
+        removeP4Session(session.id);
+
+        // Only clear the cookie when it points at this session, not at another tab's
+        if ((await cookies()).get(P4_SESSION_COOKIE)?.value === session.id) {
+            response.cookies.delete(P4_SESSION_COOKIE);
+        }
+    }
+
+    return response;
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { executeP4Command } from "../../../../../lib/serverUtils";
+import { parseP4AnnotateOutput, parseP4ZtagOutput } from "../../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+/**
+ * Annotate a depot file with 'p4 annotate -u -c -I', giving the change, user and date
+ * that last touched each line, following integrations back to their source
+ */
+export const GET = withP4Session(async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const file = searchParams.get("file");
+
+        if (!file) {
+            return NextResponse.json({ error: "No file path provided" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] GET /api/p4/files/annotate called for:", file);
+
+        // Only text files can be annotated
+        const fileInfo = parseP4ZtagOutput(executeP4Command(["-ztag", "fstat", "-T", "headType,headRev", file]))[0] || {};
+        if (fileInfo.headType && /binary|apple|resource/.test(fileInfo.headType)) {
+            return NextResponse.json({ error: `Binary files can't be annotated (${fileInfo.headType})` }, { status: 400 });
+        }
+
+        const output = executeP4Command(["-ztag", "annotate", "-q", "-u", "-c", "-I", file]);
+
+        return NextResponse.json({
+            success: true,
+            file,
+            type: fileInfo.headType,
+            lines: parseP4AnnotateOutput(output),
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in annotate API route:", error);
+        return NextResponse.json({ error: "Failed to annotate file", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
@@ -1,46 +1,131 @@
 import { NextResponse } from "next/server";
+import { getP4Failure, runP4Async } from "../../../../../lib/p4Runner";
+import { withP4Session } from "../../../../../lib/p4Session";
+import { P4_JOB_HEADER, P4JobHandle, startP4Job } from "../../../../../lib/p4Jobs";
 
-export async function POST(req: Request) {
+// Number of files passed to a single 'p4 edit', keeps command lines short
+const BATCH_SIZE = 50;
+
+type CheckoutResult = {
+    depotFile: string;
+    success: boolean;
+    message: string;
+};
+
+/**
+ * Turn known p4 edit messages into friendlier ones
+ */
+function getFriendlyMessage(depotFile: string, message: string): string {
+    if (message.includes("not on client")) {
+        return `File "${depotFile}" is not mapped in your workspace`;
+    } else if (message.includes("currently opened for edit") || message.includes("already open for edit")) {
+        return `File "${depotFile}" is already open for edit`;
+    }
+    return message;
+}
+
+/**
+ * Run 'p4 -s edit' on a batch of files and get a result per file
+ * With -s every output line is tagged (info:, warning:, error:) so failures can be matched to their file
+ */
+async function checkoutBatch(depotFiles: string[], change: string | undefined, signal: AbortSignal): Promise<CheckoutResult[]> {
+    const result = await runP4Async(["-s", "edit", ...(change ? ["-c", change] : []), ...depotFiles], { signal });
+
+    // p4 -s exits non-zero when any file failed, the tagged output is still on stdout
+    const output = result.stdout;
+    const commandError = getP4Failure(result) || "";
+    console.log("[DEBUG] P4 edit output:", output);
+
+    const lines = output
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => /^(info|warning|error)\d*:/.test(line));
+
+    return depotFiles.map((depotFile) => {
+        // The path is followed by its revision or the message, so '//depot/foo.c' doesn't match '//depot/foo.cpp'
+        const line = lines.find((l) => {
+            const message = l.replace(/^\w+:\s*/, "");
+            return message.startsWith(`${depotFile}#`) || message.startsWith(`${depotFile} - `);
+        });
+        if (!line) {
+            return {
+                depotFile,
+                success: !commandError,
+                message: commandError ? commandError : `File "${depotFile}" checked out for edit`,
+            };
+        }
+
+        const message = line.replace(/^\w+:\s*/, "");
+        const success = line.startsWith("info") && !message.includes("can't") && !message.includes("currently opened");
+        return {
+            depotFile,
+            success,
+            message: success ? `File "${depotFile}" checked out for edit` : getFriendlyMessage(depotFile, message),
+        };
+    });
+}
+
+/**
+ * Check out files for edit
+ * Accepts a single 'depotFile' or a list of 'files', plus an optional target changelist,
+ * and runs 'p4 edit' in batches returning a result per file
+ * Several files are checked out as a job, files not reached when it is cancelled are reported as such
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    // A job that fails is finished here, so it doesn't stay running in the jobs tray
+    let job: P4JobHandle | null = null;
     try {
-        const { depotFile } = await req.json();
+        const { depotFile, files, change } = await req.json();
+        const depotFiles: string[] = Array.isArray(files) ? files.filter(Boolean) : depotFile ? [depotFile] : [];
 
-        if (!depotFile) {
+        if (depotFiles.length === 0) {
             return NextResponse.json({ error: "No depot file path provided" }, { status: 400 });
         }
 
-        console.log("[DEBUG] POST /api/p4/files/checkout called for:", depotFile);
+        if (change && change !== "default" && !/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Invalid target changelist: ${change}` }, { status: 400 });
+        }
 
-        try {
-            // Import here to avoid issues with server-side rendering
-            const { execSync } = require("child_process");
+        console.log("[DEBUG] POST /api/p4/files/checkout called for", depotFiles.length, "files");
 
-            // Execute 'p4 edit' command to check out file for edit
-            const output = execSync(`p4 edit "${depotFile}"`, { encoding: "utf8" });
-            console.log("[DEBUG] P4 edit output:", output);
+        // Single files are quick, only bulk checkouts are listed as jobs
+        job = depotFiles.length > 1 ? startP4Job("checkout", `${depotFiles.length} file(s)`, req.signal) : null;
+        const signal = job ? job.signal : req.signal;
 
-            return NextResponse.json({
-                success: true,
-                message: `File "${depotFile}" checked out for edit`,
-                output,
-            });
-        } catch (cmdError: any) {
-            console.error("[DEBUG] P4 edit command error:", cmdError);
+        const results: CheckoutResult[] = [];
+        for (let i = 0; i < depotFiles.length; i += BATCH_SIZE) {
+            const batch = depotFiles.slice(i, i + BATCH_SIZE);
+            if (signal.aborted) {
+                results.push(...batch.map((file) => ({ depotFile: file, success: false, message: `Checkout of "${file}" was cancelled` })));
+                continue;
+            }
 
-            // Parse the error message
-            const errorMsg = cmdError.message || "";
+            results.push(...(await checkoutBatch(batch, change, signal)));
+            job?.setProgress(`${results.length} of ${depotFiles.length} file(s) checked out`);
+        }
 
-            // Handle known error cases
-            if (errorMsg.includes("not on client")) {
-                return NextResponse.json({ error: `File "${depotFile}" is not mapped in your workspace` }, { status: 400 });
-            } else if (errorMsg.includes("already open for edit")) {
-                return NextResponse.json({ error: `File "${depotFile}" is already open for edit` }, { status: 400 });
-            }
+        const failed = results.filter((result) => !result.success);
+        job?.finish(`Checked out ${results.length - failed.length} of ${results.length} file(s)`, failed.length > 0);
 
-            // Otherwise, it's an unexpected error
-            throw new Error(`P4 edit command failed: ${cmdError.message}`);
+        // Keep the single file response shape: a 400 with the reason when it failed
+        if (depotFiles.length === 1 && failed.length === 1) {
+            return NextResponse.json({ error: failed[0].message, results }, { status: 400 });
         }
+
+        return NextResponse.json(
+            {
+                success: failed.length === 0,
+                results,
+                message:
+                    depotFiles.length === 1
+                        ? results[0].message
+                        : `Checked out ${results.length - failed.length} of ${results.length} file(s)${failed.length > 0 ? `, ${failed.length} failed` : ""}`,
+            },
+            { headers: job ? { [P4_JOB_HEADER]: job.id } : undefined },
+        );
     } catch (error) {
         console.error("[DEBUG] Error in checkout API route:", error);
+        job?.finish(error instanceof Error ? error.message : "Failed to checkout files", true);
         return NextResponse.json({ error: "Failed to checkout file", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
     }
-}
+});
@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import fs from "fs";
+import { P4FileDiff } from "../../../../../types/p4";
+import { executeP4Command } from "../../../../../lib/serverUtils";
+import { parseP4WhereOutput, parseP4ZtagOutput } from "../../../../../lib/ztagUtils";
+import { applyRcsDiff } from "../../../../../lib/diffUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+// Files larger than this are not sent to the browser for diffing
+const MAX_DIFF_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Check if a Perforce file type indicates a binary file
+ */
+function isBinaryFile(type: string): boolean {
+    return /binary|apple|resource/.test(type);
+}
+
+/**
+ * Get both versions of a shelved file: the depot revision it was shelved from and the shelved content
+ */
+function getShelvedFileDiff(depotFile: string, shelvedChange: string, rev?: string): P4FileDiff {
+    // 'fstat -Rs -e' describes the file as shelved in the change
+    const fileInfo = parseP4ZtagOutput(executeP4Command(["-ztag", "fstat", "-Rs", "-e", shelvedChange, depotFile]))[0] || {};
+    const type = fileInfo.type || fileInfo.headType || "text";
+    const action = fileInfo.action || "";
+    const hasBase = !!rev && rev !== "none" && rev !== "0" && !action.includes("add") && action !== "branch";
+
+    const result: P4FileDiff = {
+        depotFile,
+        localFile: "",
+        type,
+        haveRev: hasBase ? rev : undefined,
+        isBinary: isBinaryFile(type),
+        isTooLarge: !!fileInfo.fileSize && parseInt(fileInfo.fileSize, 10) > MAX_DIFF_SIZE,
+        baseContent: "",
+        localContent: "",
+    };
+
+    if (result.isBinary || result.isTooLarge) {
+        return result;
+    }
+
+    if (hasBase) {
+        result.baseContent = executeP4Command(["print", "-q", `${depotFile}#${rev}`]);
+    }
+
+    // '@=change' prints the shelved revision, deleted files have no content
+    if (!action.includes("delete")) {
+        result.localContent = executeP4Command(["print", "-q", `${depotFile}@=${shelvedChange}`]);
+    }
+
+    result.isBinary = result.baseContent.includes("\0") || result.localContent.includes("\0");
+
+    return result;
+}
+
+/**
+ * Get the local path of a file from 'p4 where', for files the server doesn't know yet (e.g. to be added)
+ */
+function getLocalPath(depotFile: string): string {
+    const [mapping] = Object.values(parseP4WhereOutput(executeP4Command(["-ztag", "where", depotFile])));
+    return mapping?.path || "";
+}
+
+/**
+ * Get both versions of a file for the diff viewer
+ * The base is the have revision printed with 'p4 print', and the local version is that revision with the changes
+ * 'p4 diff -f' finds applied, which works for opened files as well as writable files that are not opened.
+ * Only files without a have revision (to be added) are read from disk, at the path Perforce maps them to.
+ * With a shelvedChange the shelved version is compared against the revision it was shelved from.
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { depotFile, shelvedChange, rev } = await req.json();
+
+        if (!depotFile) {
+            return NextResponse.json({ error: "No depot file path provided" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/files/diff called for:", depotFile, shelvedChange ? `shelved in ${shelvedChange}` : "");
+
+        if (shelvedChange) {
+            if (!/^\d+$/.test(String(shelvedChange))) {
+                return NextResponse.json({ error: `Invalid changelist number: ${shelvedChange}` }, { status: 400 });
+            }
+
+            return NextResponse.json({
+                success: true,
+                diff: getShelvedFileDiff(depotFile, String(shelvedChange), rev),
+            });
+        }
+
+        // Get the file's workspace state; files that only exist locally are not known to the server
+        let fileInfo: Record<string, string> = {};
+        try {
+            const output = executeP4Command(["-ztag", "fstat", "-Ol", depotFile]);
+            fileInfo = parseP4ZtagOutput(output)[0] || {};
+        } catch (fstatError: any) {
+            if (!fstatError.message || !fstatError.message.includes("no such file(s)")) {
+                throw fstatError;
+            }
+        }
+
+        // The local path always comes from the server's mapping, never from the request
+        const localPath = fileInfo.clientFile || getLocalPath(depotFile);
+        if (!localPath) {
+            return NextResponse.json({ error: "File is not in the client view", details: depotFile }, { status: 404 });
+        }
+
+        const type = fileInfo.type || fileInfo.headType || "text";
+        const haveRev = fileInfo.haveRev;
+        const hasBase = !!haveRev && haveRev !== "0" && fileInfo.action !== "add";
+        const hasLocal = fileInfo.action !== "delete" && fs.existsSync(localPath);
+
+        const result: P4FileDiff = {
+            depotFile,
+            localFile: localPath,
+            type,
+            haveRev,
+            isBinary: isBinaryFile(type),
+            isTooLarge: (hasLocal && fs.statSync(localPath).size > MAX_DIFF_SIZE) || (hasBase && !!fileInfo.fileSize && parseInt(fileInfo.fileSize, 10) > MAX_DIFF_SIZE),
+            baseContent: "",
+            localContent: "",
+        };
+
+        if (result.isBinary || result.isTooLarge) {
+            return NextResponse.json({ success: true, diff: result });
+        }
+
+        // Print the have revision of the depot file
+        if (hasBase) {
+            result.baseContent = executeP4Command(["print", "-q", `${depotFile}#${haveRev}`]);
+        }
+
+        if (hasLocal && hasBase) {
+            // '-f' diffs the file whether or not it's opened, '-dn' gives the changes in RCS format
+            result.localContent = applyRcsDiff(result.baseContent, executeP4Command(["diff", "-f", "-dn", `${depotFile}#${haveRev}`]));
+        } else if (hasLocal) {
+            result.localContent = fs.readFileSync(localPath, { encoding: "utf8" });
+        }
+
+        result.isBinary = result.baseContent.includes("\0") || result.localContent.includes("\0");
+
+        return NextResponse.json({
+            success: true,
+            diff: result,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in diff API route:", error);
+        return NextResponse.json({ error: "Failed to get file diff", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
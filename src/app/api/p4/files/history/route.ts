@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { executeP4Command } from "../../../../../lib/serverUtils";
+import { parseP4FilelogOutput } from "../../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+// Default number of revisions returned
+const DEFAULT_MAX_REVISIONS = 100;
+
+/**
+ * Get the revision history of a file with 'p4 filelog -l'
+ */
+export const GET = withP4Session(async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const file = searchParams.get("file");
+        const maxRevisions = parseInt(searchParams.get("max") || "", 10) || DEFAULT_MAX_REVISIONS;
+
+        if (!file) {
+            return NextResponse.json({ error: "No file path provided" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] GET /api/p4/files/history called for:", file);
+
+        const output = executeP4Command(["-ztag", "filelog", "-l", "-m", String(maxRevisions), file]);
+        const revisions = parseP4FilelogOutput(output);
+
+        return NextResponse.json({
+            success: true,
+            file,
+            revisions,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in history API route:", error);
+        return NextResponse.json({ error: "Failed to get file history", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getP4ClientRoot } from "../../../../../../lib/serverUtils";
+import { withP4Session } from "../../../../../../lib/p4Session";
+import { getWorkspaceIdentity, RECONCILE_CACHE_STRATEGY, sanitizePathForP4Command } from "../../../../../../lib/reconcileUtils";
+import { getReconcileCacheFolders, invalidateReconcileCache } from "../../../../../../lib/reconcileCache";
+import { getWorkspaceIndexFolders, invalidateWorkspaceIndex } from "../../../../../../lib/workspaceIndex";
+
+/**
+ * Inspect the cached scan results of the session's workspace
+ * Lists the folders kept by the active cache strategy (see RECONCILE_CACHE_STRATEGY) with when they were scanned,
+ * along with the server and workspace they belong to
+ */
+export const GET = withP4Session(async function GET(req: Request) {
+    try {
+        const clientRoot = getP4ClientRoot(new URL(req.url).searchParams.get("clientRoot"));
+        if (!clientRoot) {
+            return NextResponse.json({ success: false, error: "No Perforce client root specified or found" }, { status: 400 });
+        }
+
+        const folders = RECONCILE_CACHE_STRATEGY === "index" ? getWorkspaceIndexFolders(clientRoot) : getReconcileCacheFolders(clientRoot);
+        return NextResponse.json({ success: true, strategy: RECONCILE_CACHE_STRATEGY, ...getWorkspaceIdentity(clientRoot), folders });
+    } catch (error) {
+        console.error("[DEBUG] Error reading the scan cache:", error);
+        return NextResponse.json({ error: "Failed to read the scan cache", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Invalidate cached scan results, of the folder given by the folder parameter or of the whole workspace
+ * The folder is reconciled again on the next refresh, other cached folders are still used
+ */
+export const DELETE = withP4Session(async function DELETE(req: Request) {
+    try {
+        const url = new URL(req.url);
+        const clientRoot = getP4ClientRoot(url.searchParams.get("clientRoot"));
+        if (!clientRoot) {
+            return NextResponse.json({ success: false, error: "No Perforce client root specified or found" }, { status: 400 });
+        }
+
+        const folderParam = url.searchParams.get("folder");
+        const folder = folderParam ? sanitizePathForP4Command(folderParam) : undefined;
+        console.log("[DEBUG] Invalidating scan cache of:", folder || clientRoot);
+
+        // Both are cleared, so switching strategies doesn't bring back results invalidated under the other
+        invalidateReconcileCache(clientRoot, folder);
+        invalidateWorkspaceIndex(clientRoot, folder);
+
+        const folders = RECONCILE_CACHE_STRATEGY === "index" ? getWorkspaceIndexFolders(clientRoot) : getReconcileCacheFolders(clientRoot);
+        return NextResponse.json({ success: true, strategy: RECONCILE_CACHE_STRATEGY, ...getWorkspaceIdentity(clientRoot), folders });
+    } catch (error) {
+        console.error("[DEBUG] Error invalidating the scan cache:", error);
+        return NextResponse.json({ error: "Failed to invalidate the scan cache", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
@@ -1,5 +1,12 @@
 import { NextResponse } from "next/server";
 import { P4ModifiedFile } from "../../../../../types/p4";
+import { getP4ClientRoot } from "../../../../../lib/serverUtils";
+import { formatP4Command, getP4Failure, runP4 } from "../../../../../lib/p4Runner";
+import { parseP4ReconcileOutput, parseP4WhereOutput } from "../../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
+import { isCompleteReconcile, RECONCILE_CACHE_STRATEGY, RECONCILE_TIMEOUT_MS, sanitizePathForP4Command, toModifiedFile, toPathKey } from "../../../../../lib/reconcileUtils";
+import { getCachedReconcileResults, saveReconcileResults, saveScanResults } from "../../../../../lib/reconcileCache";
+import { scanWithWorkspaceIndex, updateWorkspaceIndex } from "../../../../../lib/workspaceIndex";
 
 // Set to true to use mock data instead of executing p4 command
 const USE_MOCK_DATA = false;
@@ -29,9 +36,6 @@ const mockModifiedFiles: P4ModifiedFile[] = [
     },
 ];
 
-// Cache expiration time in milliseconds (60 minutes)
-const CACHE_EXPIRY_MS = 60 * 60 * 1000;
-
 // Import event emitter for command logging
 const { EventEmitter } = require("events");
 const p4CommandEmitter = new EventEmitter();
@@ -59,220 +63,7 @@ function logDetailedP4Command(command: string, details: any = {}) {
     };
 }
 
-/**
- * Parse the output of 'p4 reconcile -n' command into structured data
- * This command lists all files that have been modified locally but not checked out
- */
-function parseP4ReconcileOutput(output: string, maxFiles: number = 0): P4ModifiedFile[] {
-    if (!output || output.trim() === "") {
-        return [];
-    }
-
-    console.log("[DEBUG] Raw p4 reconcile output length:", output.length);
-
-    const lines = output.trim().split("\n");
-    console.log("[DEBUG] Number of lines to process:", lines.length);
-
-    const files: P4ModifiedFile[] = [];
-
-    // Process only up to maxFiles if specified
-    const linesToProcess = maxFiles > 0 ? lines.slice(0, maxFiles) : lines;
-
-    for (const line of linesToProcess) {
-        // Trim any carriage returns or whitespace
-        const cleanLine = line.trim();
-
-        // Example output formats from reconcile:
-        // - reconcile edit //depot/path/file.ext#1
-        // - reconcile add //depot/path/newfile.txt
-        // - reconcile delete //depot/path/oldfile.txt#3
-        // - //depot/path/file.ext#1 - opened for delete
-        try {
-            // Try different patterns for reconcile output
-            let action = "";
-            let depotFile = "";
-
-            // Pattern 1: "reconcile action //depot/path/file.ext#rev"
-            const reconcileMatch = cleanLine.match(/^(?:\w+\s+)?reconcile\s+(\w+)\s+(.+?)(?:#\d+)?$/i);
-
-            // Pattern 2: "//depot/path/file.ext#rev - opened for action"
-            const openedMatch = cleanLine.match(/^(.+?)(?:#\d+)?\s+-\s+opened\s+for\s+(\w+)$/i);
-
-            if (reconcileMatch) {
-                action = reconcileMatch[1].toLowerCase();
-                depotFile = reconcileMatch[2];
-            } else if (openedMatch) {
-                depotFile = openedMatch[1];
-                action = openedMatch[2].toLowerCase();
-            } else {
-                continue; // Skip lines that don't match either pattern
-            }
-
-            // Skip if we couldn't extract what we need
-            if (!depotFile || !action) continue;
-
-            files.push({
-                depotFile,
-                clientFile: "", // Will be populated by p4 where
-                localFile: "", // Will be populated by p4 where
-                status: action,
-                type: "text", // Default type, will be populated later if possible
-            });
-        } catch (error) {
-            console.error("[DEBUG] Error parsing reconcile line:", error);
-        }
-    }
-
-    console.log("[DEBUG] Total reconciled files parsed:", files.length);
-    return files;
-}
-
-/**
- * Generate a cache key based on the client root and inclusion folders
- */
-function getCacheKey(clientRoot: string, inclusionFolders: string[] = []): string {
-    // Normalize client root path for consistent keys
-    const normalizedRoot = clientRoot.replace(/\\/g, "/").toLowerCase();
-
-    // Include folders in the cache key for different folder combinations
-    const foldersKey = inclusionFolders.length > 0 ? "_" + inclusionFolders.map((f) => f.replace(/[\/\\]/g, "_")).join("_") : "";
-
-    return `p4reconcile_${normalizedRoot.replace(/[\/\\:]/g, "_")}${foldersKey}`;
-}
-
-/**
- * Get cached reconcile results if available and not expired
- */
-function getCachedReconcileResults(
-    fs: any,
-    path: any,
-    os: any,
-    clientRoot: string,
-    inclusionFolders: string[] = [],
-): {
-    output: string | null;
-    cacheFile: string;
-    whereCacheFile: string;
-    metadata: any;
-} {
-    try {
-        // Create temp directory for cache if it doesn't exist
-        const tempDir = path.join(os.tmpdir(), "perforce-friend-cache");
-        if (!fs.existsSync(tempDir)) {
-            fs.mkdirSync(tempDir, { recursive: true });
-        }
-
-        // Generate cache file name based on client root
-        const cacheKey = getCacheKey(clientRoot, inclusionFolders);
-        const cacheFile = path.join(tempDir, `${cacheKey}.txt`);
-        const whereCacheFile = path.join(tempDir, `${cacheKey}_where.txt`);
-        const metadataFile = path.join(tempDir, `${cacheKey}_metadata.json`);
-
-        let metadata: any = {};
-        let creationTime = 0;
-
-        // Check if we have cached metadata and if it's still valid
-        if (fs.existsSync(metadataFile)) {
-            try {
-                const metadataContent = fs.readFileSync(metadataFile, { encoding: "utf8" });
-                metadata = JSON.parse(metadataContent);
-                if (metadata.timestamp) {
-                    creationTime = new Date(metadata.timestamp).getTime();
-                }
-            } catch (e) {
-                console.error("[DEBUG] Error reading cache metadata:", e);
-            }
-        }
-
-        // Check if cache exists and is not expired
-        if (fs.existsSync(cacheFile) && Date.now() - creationTime < CACHE_EXPIRY_MS) {
-            console.log("[DEBUG] Using cached reconcile results from:", cacheFile);
-            console.log("[DEBUG] Cache age:", (Date.now() - creationTime) / (60 * 1000), "minutes");
-            const output = fs.readFileSync(cacheFile, { encoding: "utf8" });
-            return { output, cacheFile, whereCacheFile, metadata };
-        }
-
-        return { output: null, cacheFile, whereCacheFile, metadata };
-    } catch (error) {
-        console.error("[DEBUG] Error accessing cache:", error);
-        return { output: null, cacheFile: "", whereCacheFile: "", metadata: {} };
-    }
-}
-
-/**
- * Saves reconcile results to cache, appending if data exists for other folders
- */
-function saveReconcileResultsToCache(fs: any, path: any, tempFile: string, cacheFile: string, clientRoot: string, inclusionFolders: string[] = [], isAppend: boolean = false): void {
-    try {
-        const tempDir = path.dirname(cacheFile);
-        const metadataFile = path.join(tempDir, `${getCacheKey(clientRoot, inclusionFolders)}_metadata.json`);
-
-        // Read existing metadata if available
-        let metadata: any = {
-            timestamp: new Date().toISOString(),
-            clientRoot,
-            inclusionFolders,
-            processedFolders: inclusionFolders,
-        };
-
-        if (isAppend && fs.existsSync(metadataFile)) {
-            try {
-                const existingMetadata = JSON.parse(fs.readFileSync(metadataFile, { encoding: "utf8" }));
-                // Keep the original timestamp - don't reset the 60-min cache time
-                if (existingMetadata.timestamp) {
-                    metadata.timestamp = existingMetadata.timestamp;
-                }
-
-                // Track which folders we've processed
-                if (existingMetadata.processedFolders) {
-                    const existingFolders = existingMetadata.processedFolders;
-                    // Use Array.from to avoid Set iteration issues
-                    metadata.processedFolders = Array.from(new Set([...existingFolders, ...inclusionFolders]));
-                }
-            } catch (e) {
-                console.error("[DEBUG] Error reading existing metadata:", e);
-            }
-        }
-
-        if (isAppend && fs.existsSync(cacheFile)) {
-            // Append to existing cache file instead of overwriting
-            const newContent = fs.readFileSync(tempFile, { encoding: "utf8" });
-            fs.appendFileSync(cacheFile, newContent);
-            console.log("[DEBUG] Appended reconcile results to cache:", cacheFile);
-        } else {
-            // Create or overwrite the cache file
-            fs.copyFileSync(tempFile, cacheFile);
-            console.log("[DEBUG] Saved reconcile results to cache:", cacheFile);
-        }
-
-        // Save updated metadata
-        fs.writeFileSync(metadataFile, JSON.stringify(metadata), { encoding: "utf8" });
-    } catch (error) {
-        console.error("[DEBUG] Error saving to cache:", error);
-    }
-}
-
-// Function to sanitize paths for use in p4 commands
-function sanitizePathForP4Command(folderPath: string): string {
-    // First ensure there are no query parameters
-    const queryParamIndex = folderPath.indexOf("?");
-    if (queryParamIndex > 0) {
-        folderPath = folderPath.substring(0, queryParamIndex);
-    }
-
-    // Remove any trailing slashes
-    folderPath = folderPath.replace(/[\/\\]$/, "");
-
-    // Ensure Windows paths use backslashes consistently
-    // This is important for Perforce which prefers native path separators
-    if (folderPath.includes(":\\")) {
-        folderPath = folderPath.replace(/\//g, "\\");
-    }
-
-    return folderPath;
-}
-
-export async function GET(req: Request) {
+export const GET = withP4Session(async function GET(req: Request) {
     try {
         console.log("[DEBUG] GET /api/p4/files/modified called");
 
@@ -281,7 +72,7 @@ export async function GET(req: Request) {
 
         // Extract the clientRoot if provided as a search parameter
         const url = new URL(req.url);
-        let clientRoot = url.searchParams.get("clientRoot") || "";
+        const requestedClientRoot = url.searchParams.get("clientRoot");
 
         // Check if we should skip scanning and just return empty results
         const skipScan = url.searchParams.get("skipScan") === "true";
@@ -339,18 +130,14 @@ export async function GET(req: Request) {
             console.log("[DEBUG] Preparing to get modified files");
 
             // Import here to avoid issues with server-side rendering
-            const { execSync, spawn } = require("child_process");
-            const { promisify } = require("util");
             const fs = require("fs");
             const os = require("os");
             const path = require("path");
 
             // Check if p4 is available
-            try {
-                const p4Version = execSync("p4 -V", { encoding: "utf8", maxBuffer: 1024 * 1024 });
-                console.log("[DEBUG] P4 version:", p4Version);
-            } catch (verError) {
-                console.error("[DEBUG] P4 command not available:", verError);
+            const version = runP4(["-V"]);
+            if (version.error) {
+                console.error("[DEBUG] P4 command not available:", version.error);
                 return NextResponse.json(
                     {
                         success: false,
@@ -360,23 +147,10 @@ export async function GET(req: Request) {
                     { status: 500 },
                 );
             }
+            console.log("[DEBUG] P4 version:", version.stdout);
 
-            // Check Perforce client info to get the clientRoot if not provided
-            if (!clientRoot) {
-                try {
-                    const clientInfo = execSync("p4 info", { encoding: "utf8", maxBuffer: 1024 * 1024 });
-                    console.log("[DEBUG] P4 client info received");
-
-                    // Try to extract client root from p4 info
-                    const rootMatch = clientInfo.match(/Client root:\s+(.+)/i);
-                    if (rootMatch && rootMatch[1]) {
-                        clientRoot = rootMatch[1].trim();
-                        console.log("[DEBUG] Extracted client root:", clientRoot);
-                    }
-                } catch (infoError) {
-                    console.error("[DEBUG] Error getting p4 info:", infoError);
-                }
-            }
+            // The requested root, the session's or the one from 'p4 info', like the other modified files routes
+            const clientRoot = getP4ClientRoot(requestedClientRoot);
 
             if (!clientRoot) {
                 return NextResponse.json(
@@ -389,377 +163,194 @@ export async function GET(req: Request) {
                 );
             }
 
-            // Create a temporary output file for the reconcile command
-            const tempDir = os.tmpdir();
-            const tempFile = path.join(tempDir, `p4reconcile_${Date.now()}.txt`);
-
-            console.log("[DEBUG] Using temporary file for output:", tempFile);
-
-            // Check for cached results if not forcing refresh
-            let output = null;
-            let fromCache = false;
-            let cacheFile = "";
-            let whereCacheFile = "";
-            let metadata = {};
-
-            if (!forceRefresh) {
-                const cachedResults = getCachedReconcileResults(fs, path, os, clientRoot, inclusionFolders);
-                output = cachedResults.output;
-                cacheFile = cachedResults.cacheFile;
-                whereCacheFile = cachedResults.whereCacheFile;
-                metadata = cachedResults.metadata;
-                fromCache = !!output;
+            // Cached results of folders scanned before are reused by any combination of inclusion folders, only folders
+            // without fresh results are scanned: with the index strategy just their files changed since the last scan
+            // are checked, with the output strategy they're reconciled (see RECONCILE_CACHE_STRATEGY)
+            const scanFolders = inclusionFolders.length > 0 ? inclusionFolders.map(sanitizePathForP4Command) : [clientRoot];
+            const cached = forceRefresh ? null : getCachedReconcileResults(clientRoot, scanFolders);
+            const missingFolders = cached ? cached.missingFolders : scanFolders;
+            // Folders that don't exist aren't indexed
+            const indexFolders = missingFolders.filter((folder) => fs.existsSync(folder));
+            const useIndex = RECONCILE_CACHE_STRATEGY === "index" && indexFolders.length > 0;
+
+            const incremental = useIndex && !forceRefresh ? await scanWithWorkspaceIndex(clientRoot, indexFolders, req.signal) : null;
+            if (incremental) {
+                saveScanResults(clientRoot, indexFolders, incremental.files);
             }
 
-            // If no cache or forcing refresh, run the reconcile command
-            if (!output) {
-                try {
-                    // If no specific inclusion folders, run on the entire client root
-                    if (inclusionFolders.length === 0) {
-                        // Build reconcile command with redirection to file
-                        // Use -m flag for timestamp comparison to optimize performance
-                        const reconcileCmd = `cd "${clientRoot}" && p4 reconcile -m -n ... > "${tempFile}"`;
-
-                        // Log the command for debugging
-                        const fullCommand = `p4 reconcile -m -n ... (from: ${clientRoot})`;
-                        const logEntry = logDetailedP4Command(fullCommand, {
+            const foldersToScan = incremental ? [] : missingFolders;
+            const fromCache = !!cached && missingFolders.length === 0;
+            const reconciledFiles: P4ModifiedFile[] = [...(cached?.files || []), ...(incremental?.files || [])];
+            // Files of the folders reconciled now, which are indexed afterwards
+            const scannedFiles: P4ModifiedFile[] = [];
+            let hasFailures = false;
+
+            try {
+                console.log("[DEBUG] Running reconcile on folders:", foldersToScan);
+
+                for (const folder of foldersToScan) {
+                    // The whole workspace is reconciled from the client root so '...' covers it,
+                    // with -m to compare timestamps first for performance
+                    const isWorkspace = toPathKey(folder) === toPathKey(clientRoot);
+                    const reconcileArgs = isWorkspace ? ["-ztag", "reconcile", "-m", "-n", "..."] : ["-ztag", "reconcile", "-n", path.join(folder, "...")];
+                    const logCommand = isWorkspace ? `${formatP4Command(reconcileArgs)} (from: ${clientRoot})` : formatP4Command(reconcileArgs);
+
+                    // Skip if folder doesn't exist
+                    if (!isWorkspace && !fs.existsSync(folder)) {
+                        console.log("[DEBUG] Folder doesn't exist, skipping:", folder);
+                        const skipLog = logDetailedP4Command(`${logCommand} - SKIPPED`, {
                             type: "reconcile",
-                            clientRoot,
-                            tempFile,
+                            folder,
+                            status: "skipped",
+                            reason: "Folder does not exist",
+                        });
+                        commandLogs.push(skipLog);
+                        continue;
+                    }
+
+                    try {
+                        const startLog = logDetailedP4Command(logCommand, {
+                            type: "reconcile",
+                            folder,
                             startTime: new Date().toISOString(),
                         });
-                        commandLogs.push(logEntry);
+                        commandLogs.push(startLog);
 
-                        console.log("[DEBUG] Executing command:", reconcileCmd);
+                        console.log("[DEBUG] Executing command:", logCommand);
 
-                        const startTime = Date.now();
+                        const result = runP4(reconcileArgs, { cwd: isWorkspace ? clientRoot : undefined, timeoutMs: RECONCILE_TIMEOUT_MS });
 
-                        // Use execSync with a large buffer size and shell option
-                        execSync(reconcileCmd, {
-                            encoding: "utf8",
-                            shell: true,
-                            maxBuffer: 100 * 1024 * 1024, // 100MB buffer
-                        });
+                        // Keep partial output of a failed run, only fail when there is none
+                        const failure = getP4Failure(result);
+                        if (failure && !result.stdout.trim()) {
+                            throw new Error(failure);
+                        }
 
-                        const endTime = Date.now();
-                        const executionTime = (endTime - startTime) / 1000; // in seconds
+                        const executionTime = result.durationMs / 1000; // in seconds
+                        const folderFiles = parseP4ReconcileOutput(result.stdout);
 
-                        // Log completion with timing information
-                        const completionLog = logDetailedP4Command(`${fullCommand} - COMPLETED`, {
+                        // Log completion with timing and result information
+                        const completionLog = logDetailedP4Command(`${logCommand} - COMPLETED`, {
                             type: "reconcile",
-                            clientRoot,
+                            folder,
                             executionTime: `${executionTime}s`,
+                            filesFound: folderFiles.length,
+                            outputSize: `${result.stdout.length} bytes`,
                             status: "success",
                         });
                         commandLogs.push(completionLog);
 
-                        // Read the output from the temporary file
-                        output = fs.readFileSync(tempFile, { encoding: "utf8" });
-
-                        // Save the results to cache for future use
-                        if (cacheFile) {
-                            saveReconcileResultsToCache(fs, path, tempFile, cacheFile, clientRoot, inclusionFolders, false);
-                        }
-                    } else {
-                        // Run reconcile on each inclusion folder separately
-                        console.log("[DEBUG] Running reconcile on specific folders:", inclusionFolders);
+                        reconciledFiles.push(...folderFiles);
+                        scannedFiles.push(...folderFiles);
 
-                        // Create or clear the cache file if it doesn't exist from a previous run
-                        if (cacheFile && (!fs.existsSync(cacheFile) || forceRefresh)) {
-                            fs.writeFileSync(cacheFile, "", { encoding: "utf8" });
+                        // Partial results would make the folder's other files look unchanged, they aren't indexed or cached
+                        const isComplete = isCompleteReconcile(result);
+                        hasFailures = hasFailures || !isComplete;
+                        if (isComplete) {
+                            saveReconcileResults(clientRoot, folder, folderFiles);
                         }
+                    } catch (folderError: any) {
+                        hasFailures = true;
 
-                        // Run reconcile for each folder individually
-                        let combinedOutput = "";
-
-                        for (const folderPath of inclusionFolders) {
-                            try {
-                                // Use the provided path directly - it should already be absolute from the client
-                                const reconcilePath = sanitizePathForP4Command(folderPath);
-
-                                console.log("[DEBUG] Processing folder:", reconcilePath);
-
-                                // Skip if folder doesn't exist
-                                if (!fs.existsSync(reconcilePath)) {
-                                    console.log("[DEBUG] Folder doesn't exist, skipping:", reconcilePath);
-                                    const skipLog = logDetailedP4Command(`p4 reconcile -n ${reconcilePath}\\... - SKIPPED`, {
-                                        type: "reconcile",
-                                        folder: reconcilePath,
-                                        status: "skipped",
-                                        reason: "Folder does not exist",
-                                    });
-                                    commandLogs.push(skipLog);
-                                    continue;
-                                }
-
-                                // Create a temporary file for this folder's output
-                                const folderTempFile = path.join(tempDir, `p4reconcile_${Date.now()}_${path.basename(reconcilePath)}.txt`);
-
-                                // Run p4 reconcile -n directly on this folder
-                                // Don't use quotes around the path and add ... for recursive scanning
-                                const folderCmd = `p4 reconcile -n ${reconcilePath}\\... > "${folderTempFile}"`;
-
-                                // Log the command for debugging
-                                const logCommand = `p4 reconcile -n ${reconcilePath}\\...`;
-                                const startLog = logDetailedP4Command(logCommand, {
-                                    type: "reconcile",
-                                    folder: reconcilePath,
-                                    tempFile: folderTempFile,
-                                    startTime: new Date().toISOString(),
-                                });
-                                commandLogs.push(startLog);
-
-                                console.log("[DEBUG] Executing command:", folderCmd);
-
-                                const startTime = Date.now();
-
-                                execSync(folderCmd, {
-                                    encoding: "utf8",
-                                    shell: true,
-                                    maxBuffer: 100 * 1024 * 1024, // 100MB buffer
-                                });
-
-                                const endTime = Date.now();
-                                const executionTime = (endTime - startTime) / 1000; // in seconds
-
-                                // Read this folder's output
-                                const folderOutput = fs.readFileSync(folderTempFile, { encoding: "utf8" });
-                                const numLines = folderOutput.split("\n").length;
-
-                                // Log completion with timing and result information
-                                const completionLog = logDetailedP4Command(`${logCommand} - COMPLETED`, {
-                                    type: "reconcile",
-                                    folder: reconcilePath,
-                                    executionTime: `${executionTime}s`,
-                                    linesOfOutput: numLines,
-                                    outputSize: `${folderOutput.length} bytes`,
-                                    status: "success",
-                                });
-                                commandLogs.push(completionLog);
-
-                                combinedOutput += folderOutput + "\n";
-
-                                // Append to the cache file
-                                if (cacheFile) {
-                                    if (fs.existsSync(cacheFile) && fs.statSync(cacheFile).size > 0) {
-                                        // Append to existing cache file
-                                        fs.appendFileSync(cacheFile, folderOutput);
-                                        console.log("[DEBUG] Appended results for folder to cache:", folderPath);
-                                    } else {
-                                        // First folder, create the cache file
-                                        fs.writeFileSync(cacheFile, folderOutput);
-                                        console.log("[DEBUG] Created cache file with results for folder:", folderPath);
-                                    }
-
-                                    // Update metadata to track which folders we've processed
-                                    const metadataFile = path.join(path.dirname(cacheFile), `${getCacheKey(clientRoot, inclusionFolders)}_metadata.json`);
-                                    let metadata = {
-                                        timestamp: new Date().toISOString(),
-                                        clientRoot,
-                                        inclusionFolders,
-                                        processedFolders: [folderPath],
-                                    };
-
-                                    if (fs.existsSync(metadataFile)) {
-                                        try {
-                                            const existingMetadata = JSON.parse(fs.readFileSync(metadataFile, { encoding: "utf8" }));
-                                            // Keep the original timestamp
-                                            if (existingMetadata.timestamp) {
-                                                metadata.timestamp = existingMetadata.timestamp;
-                                            }
-
-                                            // Track which folders we've processed
-                                            if (existingMetadata.processedFolders) {
-                                                const existingFolders = existingMetadata.processedFolders;
-                                                // Use Array.from to avoid Set iteration issues
-                                                metadata.processedFolders = Array.from(new Set([...existingFolders, folderPath]));
-                                            }
-                                        } catch (e) {
-                                            console.error("[DEBUG] Error reading existing metadata:", e);
-                                        }
-                                    }
-
-                                    // Save updated metadata
-                                    fs.writeFileSync(metadataFile, JSON.stringify(metadata), { encoding: "utf8" });
-                                }
-
-                                // Clean up temp file
-                                try {
-                                    fs.unlinkSync(folderTempFile);
-                                } catch (e) {
-                                    console.error("[DEBUG] Error removing temp file:", e);
-                                }
-                            } catch (folderError: any) {
-                                console.error("[DEBUG] Error processing folder:", folderPath, folderError);
-
-                                // Log error - use sanitized path
-                                const sanitizedPath = sanitizePathForP4Command(folderPath);
-                                const errorLog = logDetailedP4Command(`p4 reconcile -n ${sanitizedPath}\\... - FAILED`, {
-                                    type: "reconcile",
-                                    folder: folderPath,
-                                    status: "error",
-                                    error: folderError.message || "Unknown error",
-                                });
-                                commandLogs.push(errorLog);
-                            }
+                        // Without inclusion folders there is nothing else to show, report why the workspace failed
+                        if (isWorkspace) {
+                            throw folderError;
                         }
 
-                        output = combinedOutput;
+                        console.error("[DEBUG] Error processing folder:", folder, folderError);
+                        const errorLog = logDetailedP4Command(`${logCommand} - FAILED`, {
+                            type: "reconcile",
+                            folder,
+                            status: "error",
+                            error: folderError.message || "Unknown error",
+                        });
+                        commandLogs.push(errorLog);
                     }
-                } catch (cmdError: any) {
-                    console.error("[DEBUG] P4 command error:", cmdError);
-
-                    // Try to read any partial output that might have been written
-                    try {
-                        if (fs.existsSync(tempFile)) {
-                            const partialOutput = fs.readFileSync(tempFile, { encoding: "utf8" });
-                            if (partialOutput.trim()) {
-                                output = partialOutput;
-                                console.log("[DEBUG] Using partial output from failed command");
-                            }
-                        }
-                    } catch (readError) {
-                        console.error("[DEBUG] Error reading partial output:", readError);
+                }
+            } catch (cmdError: any) {
+                console.error("[DEBUG] P4 command error:", cmdError);
+
+                // Extract useful information from error message
+                const errorMsg = cmdError.message || "";
+                let userError = "Failed to execute Perforce command";
+                let details = "";
+
+                if (errorMsg.includes("not under client's root")) {
+                    userError = "Current directory is not in your Perforce workspace";
+                    // Try to extract the client root from error message
+                    const rootMatch = errorMsg.match(/client's root '([^']+)'/);
+                    if (rootMatch && rootMatch[1]) {
+                        details = `Your Perforce workspace is located at: ${rootMatch[1]}`;
                     }
+                } else if (errorMsg.includes("file(s) not in client view")) {
+                    userError = "No files in current directory are mapped in your Perforce workspace";
+                } else if (errorMsg.includes("not logged in")) {
+                    userError = "Not logged in to Perforce server";
+                } else if (errorMsg.includes("ENOBUFS")) {
+                    userError = "Output buffer exceeded";
+                    details = "Your workspace contains too many files. Try specifying a smaller maxFiles parameter.";
+                } else if (errorMsg.includes("ETIMEDOUT") || errorMsg.includes("timeout")) {
+                    userError = "Command timed out";
+                    details = "The p4 reconcile command took too long to complete. This could be due to a very large workspace or slow network connection.";
+                }
 
-                    // If we couldn't get any output, handle the error
-                    if (!output) {
-                        // Extract useful information from error message
-                        const errorMsg = cmdError.message || "";
-                        let userError = "Failed to execute Perforce command";
-                        let details = "";
-
-                        if (errorMsg.includes("not under client's root")) {
-                            userError = "Current directory is not in your Perforce workspace";
-                            // Try to extract the client root from error message
-                            const rootMatch = errorMsg.match(/client's root '([^']+)'/);
-                            if (rootMatch && rootMatch[1]) {
-                                details = `Your Perforce workspace is located at: ${rootMatch[1]}`;
-                            }
-                        } else if (errorMsg.includes("file(s) not in client view")) {
-                            userError = "No files in current directory are mapped in your Perforce workspace";
-                        } else if (errorMsg.includes("not logged in")) {
-                            userError = "Not logged in to Perforce server";
-                        } else if (errorMsg.includes("ENOBUFS")) {
-                            userError = "Output buffer exceeded";
-                            details = "Your workspace contains too many files. Try specifying a smaller maxFiles parameter.";
-                        } else if (errorMsg.includes("ETIMEDOUT") || errorMsg.includes("timeout")) {
-                            userError = "Command timed out";
-                            details = "The p4 reconcile command took too long to complete. This could be due to a very large workspace or slow network connection.";
-                        }
+                return NextResponse.json(
+                    {
+                        success: false,
+                        error: userError,
+                        details: details || errorMsg,
+                        files: [],
+                        commandLogs,
+                    },
+                    { status: 500 },
+                );
+            }
 
-                        return NextResponse.json(
-                            {
-                                success: false,
-                                error: userError,
-                                details: details || errorMsg,
-                                files: [],
-                                commandLogs,
-                            },
-                            { status: 500 },
-                        );
-                    }
+            // Index the complete scan so the next one is incremental
+            if (!incremental && !hasFailures && useIndex) {
+                try {
+                    await updateWorkspaceIndex(clientRoot, indexFolders, scannedFiles, req.signal);
+                } catch (indexError) {
+                    // The next scan is a full reconcile again
+                    console.error("[DEBUG] Error updating the workspace index:", indexError);
                 }
             }
 
-            // Process the output - limiting to maxFiles in the parser
-            const files = parseP4ReconcileOutput(output, maxFiles);
-            console.log(`[DEBUG] Parsed reconciled files (limited to ${maxFiles}):`);
+            // Limit the results to maxFiles
+            const files = maxFiles > 0 ? reconciledFiles.slice(0, maxFiles) : reconciledFiles;
+            console.log(`[DEBUG] Reconciled files (limited to ${maxFiles}):`, files.length);
 
-            // If we have some files, try to get their local paths
-            if (files.length > 0) {
+            // Reconcile reports local paths, only files without one (e.g. outside the client root) are looked up with 'p4 where'
+            const unmappedFiles = files.filter((file) => !file.localFile);
+            if (unmappedFiles.length > 0) {
                 try {
-                    // See if we have cached where results
-                    let whereOutput = null;
-
-                    if (fromCache && fs.existsSync(whereCacheFile)) {
-                        try {
-                            whereOutput = fs.readFileSync(whereCacheFile, { encoding: "utf8" });
-                            console.log("[DEBUG] Using cached 'where' results");
-                        } catch (e) {
-                            console.error("[DEBUG] Error reading cached 'where' results:", e);
-                        }
-                    }
+                    // Write depot paths to a temp file instead of using echo
+                    const depotPathsFile = path.join(os.tmpdir(), `p4where_${Date.now()}.txt`);
+                    fs.writeFileSync(depotPathsFile, unmappedFiles.map((file) => file.depotFile).join("\n"));
 
-                    // If no cached where results, run the where command
-                    if (!whereOutput) {
-                        // Write depot paths to a temp file instead of using echo
-                        const depotPathsFile = path.join(tempDir, `p4where_${Date.now()}.txt`);
-                        fs.writeFileSync(depotPathsFile, files.map((file) => file.depotFile).join("\n"));
-
-                        // Execute 'p4 where' with the file as input
-                        let whereCmd = "";
-                        if (clientRoot) {
-                            whereCmd = `cd "${clientRoot}" && p4 -ztag where < "${depotPathsFile}" > "${tempFile}"`;
-                        } else {
-                            whereCmd = `p4 -ztag where < "${depotPathsFile}" > "${tempFile}"`;
-                        }
+                    // Execute 'p4 where' with the file as its argument list, files that aren't mapped are reported on stderr
+                    const whereResult = runP4(["-x", depotPathsFile, "-ztag", "where"], { cwd: clientRoot || undefined });
 
-                        execSync(whereCmd, {
-                            encoding: "utf8",
-                            shell: true,
-                            maxBuffer: 100 * 1024 * 1024, // 100MB buffer
-                            // No timeout for this command either
-                        });
-
-                        // Read the output from the temporary file
-                        whereOutput = fs.readFileSync(tempFile, { encoding: "utf8" });
-
-                        // Save the where results to cache if we're using cache
-                        if (fromCache && whereCacheFile) {
-                            try {
-                                fs.copyFileSync(tempFile, whereCacheFile);
-                                console.log("[DEBUG] Saved 'where' results to cache");
-                            } catch (e) {
-                                console.error("[DEBUG] Error saving 'where' results to cache:", e);
-                            }
-                        }
-
-                        // Clean up temp files
-                        try {
-                            fs.unlinkSync(depotPathsFile);
-                        } catch (e) {
-                            console.error("[DEBUG] Error removing temporary depot paths file:", e);
-                        }
+                    // Clean up temp files
+                    try {
+                        fs.unlinkSync(depotPathsFile);
+                    } catch (e) {
+                        console.error("[DEBUG] Error removing temporary depot paths file:", e);
                     }
 
-                    // Parse where output and update file paths
-                    const pathMap: Record<string, { clientFile: string; localFile: string }> = {};
-
-                    // Parse the output based on p4 -ztag format
-                    const fileInfos = whereOutput.split("... depotFile").slice(1);
-
-                    for (const fileInfo of fileInfos) {
-                        const lines = fileInfo.trim().split("\n");
-                        let depotPath = "";
-                        let clientPath = "";
-                        let localPath = "";
-
-                        for (const line of lines) {
-                            if (line.startsWith("//")) {
-                                depotPath = line.trim().replace("...", "");
-                            } else if (line.startsWith("... clientFile")) {
-                                clientPath = line.replace("... clientFile ", "").trim();
-                            } else if (line.startsWith("... path")) {
-                                localPath = line.replace("... path ", "").trim();
-                            }
-                        }
-
-                        if (depotPath) {
-                            pathMap[depotPath] = {
-                                clientFile: clientPath.replace("...", ""),
-                                localFile: localPath.replace("...", "") || clientPath.replace("...", ""), // Fallback to client path if local not found
-                            };
-                        }
+                    const whereFailure = getP4Failure(whereResult);
+                    if (whereFailure && !whereResult.stdout.trim()) {
+                        throw new Error(whereFailure);
                     }
+                    const whereOutput = whereResult.stdout;
 
                     // Update files with client and local paths
-                    files.forEach((file) => {
-                        // find the depotFile in the pathMap by checking if the depotFile starts with the same string
-                        const matchingDepotFile = Object.keys(pathMap).find((key) => file.depotFile.startsWith(key));
-                        if (matchingDepotFile) {
-                            file.clientFile = file.depotFile.replace(matchingDepotFile, pathMap[matchingDepotFile].clientFile);
-                            file.localFile = file.depotFile.replace(matchingDepotFile, pathMap[matchingDepotFile].localFile).replace("/", "\\");
+                    const pathMap = parseP4WhereOutput(whereOutput);
+                    unmappedFiles.forEach((file) => {
+                        const mapping = pathMap[file.depotFile];
+                        if (mapping) {
+                            file.clientFile = mapping.clientFile;
+                            file.localFile = mapping.path;
                         }
                     });
                 } catch (whereError) {
@@ -767,30 +358,14 @@ export async function GET(req: Request) {
                 }
             }
 
-            // Clean up temp file
-            try {
-                if (fs.existsSync(tempFile)) {
-                    fs.unlinkSync(tempFile);
-                }
-            } catch (e) {
-                console.error("[DEBUG] Error removing temporary output file:", e);
-            }
-
             // Determine if we limited the results
-            const originalLineCount = output.split("\n").length;
-            const limitApplied = originalLineCount > files.length;
+            const limitApplied = files.length < reconciledFiles.length;
 
             // Add debug logging for file format
             console.log("[DEBUG] Sample file from API:", files.length > 0 ? JSON.stringify(files[0]) : "No files");
 
             // Transform files to match ModifiedFile format if needed
-            const transformedFiles = files.map((file) => ({
-                localPath: file.localFile, // Use localFile as localPath
-                localFile: file.localFile, // Keep original property
-                depotPath: file.depotFile,
-                status: file.status,
-                action: file.type || "reconcile", // Use type as action or default to 'reconcile'
-            }));
+            const transformedFiles = files.map(toModifiedFile);
 
             console.log("[DEBUG] Sample transformed file:", transformedFiles.length > 0 ? JSON.stringify(transformedFiles[0]) : "No files");
 
@@ -801,7 +376,9 @@ export async function GET(req: Request) {
                 limitApplied,
                 totalFiles: files.length,
                 fromCache,
-                cacheTime: fromCache ? new Date().toISOString() : null,
+                incremental: !!incremental,
+                // When the oldest of the cached results used was scanned
+                cacheTime: cached?.cachedAt ?? null,
                 commandLogs,
             });
         } catch (error) {
@@ -812,4 +389,4 @@ export async function GET(req: Request) {
         console.error("[DEBUG] Error in API route:", error);
         return NextResponse.json({ error: "Failed to fetch modified files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
     }
-}
+});
@@ -0,0 +1,294 @@
+import { NextResponse } from "next/server";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { P4ModifiedFile } from "../../../../../../types/p4";
+import { getP4ClientRoot } from "../../../../../../lib/serverUtils";
+import { formatP4Command, killP4Process, runP4, spawnP4 } from "../../../../../../lib/p4Runner";
+import { parseP4ReconcileOutput, parseP4WhereOutput } from "../../../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../../../lib/p4Session";
+import { P4_JOB_HEADER, startP4Job } from "../../../../../../lib/p4Jobs";
+import { isCompleteReconcile, RECONCILE_CACHE_STRATEGY, RECONCILE_TIMEOUT_MS, sanitizePathForP4Command, toModifiedFile, toPathKey } from "../../../../../../lib/reconcileUtils";
+import { getCachedReconcileResults, saveReconcileResults, saveScanResults } from "../../../../../../lib/reconcileCache";
+import { scanWithWorkspaceIndex, updateWorkspaceIndex } from "../../../../../../lib/workspaceIndex";
+
+type ReconcileRunResult = {
+    output: string;
+    stderr: string;
+    // null when the process was stopped by a signal
+    exitCode: number | null;
+    timedOut: boolean;
+    // Why the run was stopped before it finished
+    error?: string;
+};
+
+/**
+ * Run 'p4 reconcile -n' and report complete tagged records as they arrive
+ * Resolves with the whole output, and whether the run was stopped (see isCompleteReconcile)
+ */
+function runReconcile(args: string[], cwd: string | undefined, onRecords: (output: string) => void, signal: AbortSignal): Promise<ReconcileRunResult> {
+    return new Promise((resolve, reject) => {
+        // Scanning stops when the job is cancelled or takes too long
+        const child = spawnP4(args, { cwd, signal });
+        let output = "";
+        let stderr = "";
+        let buffered = "";
+        let timedOut = false;
+
+        const timeoutId = setTimeout(() => {
+            timedOut = true;
+            killP4Process(child);
+        }, RECONCILE_TIMEOUT_MS);
+
+        child.stdout.on("data", (data: Buffer) => {
+            const text = data.toString("utf8");
+            output += text;
+            buffered += text;
+
+            // Tagged records end with a blank line, the last piece may still be incomplete
+            const records = buffered.split(/\r?\n\r?\n/);
+            buffered = records.pop() || "";
+            if (records.length > 0) {
+                onRecords(records.join("\n\n"));
+            }
+        });
+        child.stderr.on("data", (data: Buffer) => {
+            stderr += data.toString("utf8");
+        });
+        child.on("error", (error) => {
+            clearTimeout(timeoutId);
+            reject(error);
+        });
+        child.on("close", (code, exitSignal) => {
+            clearTimeout(timeoutId);
+            if (buffered.trim()) onRecords(buffered);
+
+            let error: string | undefined;
+            if (timedOut) {
+                error = `Reconcile timed out after ${Math.round(RECONCILE_TIMEOUT_MS / 1000)}s`;
+            } else if (signal.aborted) {
+                error = "Reconcile was cancelled";
+            } else if (exitSignal) {
+                error = `Reconcile was stopped (${exitSignal})`;
+            }
+            resolve({ output, stderr, exitCode: exitSignal ? null : code, timedOut, error });
+        });
+    });
+}
+
+/**
+ * Look up local paths of files reconcile reported without one (e.g. outside the client root)
+ */
+function addLocalPaths(files: P4ModifiedFile[], cwd: string): void {
+    const unmappedFiles = files.filter((file) => !file.localFile);
+    if (unmappedFiles.length === 0) return;
+
+    const depotPathsFile = path.join(os.tmpdir(), `p4where_${Date.now()}.txt`);
+    try {
+        fs.writeFileSync(depotPathsFile, unmappedFiles.map((file) => file.depotFile).join("\n"));
+
+        const result = runP4(["-x", depotPathsFile, "-ztag", "where"], { cwd });
+        const pathMap = parseP4WhereOutput(result.stdout);
+        unmappedFiles.forEach((file) => {
+            const mapping = pathMap[file.depotFile];
+            if (mapping) {
+                file.clientFile = mapping.clientFile;
+                file.localFile = mapping.path;
+            }
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error mapping file paths:", error);
+    } finally {
+        try {
+            fs.unlinkSync(depotPathsFile);
+        } catch {
+            // Not created
+        }
+    }
+}
+
+/**
+ * Scan for modified files and stream the progress as Server-Sent Events
+ * The scan is registered as a reconcile job, which can be cancelled from the jobs tray
+ * Takes the same parameters as /api/p4/files/modified and sends:
+ * - start: { jobId, clientRoot, folders } before scanning
+ * - folder-start: { folder, index, total } when a folder's reconcile starts (folder is null for the whole workspace)
+ * - files: { folder, files, fileCount } for files found, fileCount is the running total
+ * - folder-done: { folder, index, total, fileCount, durationMs, skipped?, error? } when a folder's reconcile ends
+ * - done: { totalFiles, limitApplied, fromCache, cacheTime, incremental? } when the scan is complete
+ * Cached files of folders scanned before are sent at once, and only folders without fresh results are scanned
+ * (see reconcileCache): with the index cache strategy they're checked incrementally (see workspaceIndex), with the
+ * output strategy they're reconciled; forceRefresh reconciles every folder, rebuilding the index of indexed ones
+ * - error: { error, details } when the scan can't run
+ */
+export const GET = withP4Session(async function GET(req: Request) {
+    const url = new URL(req.url);
+    const clientRoot = getP4ClientRoot(url.searchParams.get("clientRoot"));
+    const inclusionFolders = (url.searchParams.get("inclusionFolders") || "")
+        .split(",")
+        .map((folder) => folder.trim().split("?")[0])
+        .filter((folder) => folder);
+    const maxFiles = parseInt(url.searchParams.get("maxFiles") || "1000", 10);
+    const forceRefresh = url.searchParams.get("forceRefresh") === "true";
+
+    console.log("[DEBUG] GET /api/p4/files/modified/stream called, folders:", inclusionFolders);
+
+    if (!clientRoot) {
+        return NextResponse.json({ success: false, error: "No Perforce client root specified or found" }, { status: 400 });
+    }
+
+    // Cancelled from the jobs tray, or when the browser disconnects
+    const job = startP4Job("reconcile", inclusionFolders.length > 0 ? inclusionFolders.join(", ") : clientRoot, req.signal);
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+        async start(controller) {
+            const send = (event: string, data: object) => {
+                if (job.signal.aborted) return;
+                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+            };
+
+            let fileCount = 0;
+            let limitApplied = false;
+
+            // Send files up to maxFiles, the rest are only counted
+            const sendFiles = (folder: string | null, files: P4ModifiedFile[]) => {
+                if (files.length === 0) return;
+
+                const remaining = maxFiles > 0 ? Math.max(0, maxFiles - fileCount) : files.length;
+                const shown = files.slice(0, remaining);
+                limitApplied = limitApplied || shown.length < files.length;
+
+                if (shown.length > 0) {
+                    addLocalPaths(shown, clientRoot);
+                    fileCount += shown.length;
+                    send("files", { folder, files: shown.map(toModifiedFile), fileCount });
+                    job.setProgress(`${fileCount} file(s) found`);
+                }
+            };
+
+            try {
+                send("start", { jobId: job.id, clientRoot, folders: inclusionFolders });
+
+                // Folders with cached results are sent at once, only the others are scanned
+                const scanFolders = inclusionFolders.length > 0 ? inclusionFolders.map(sanitizePathForP4Command) : [clientRoot];
+                const cached = forceRefresh ? null : getCachedReconcileResults(clientRoot, scanFolders);
+                if (cached) {
+                    sendFiles(null, cached.files);
+                }
+                if (cached && cached.missingFolders.length === 0) {
+                    send("done", { totalFiles: fileCount, limitApplied, fromCache: true, cacheTime: cached.cachedAt });
+                    job.finish(`Found ${fileCount} modified file(s) in the cached scan`);
+                    return;
+                }
+
+                // Folders that don't exist aren't indexed
+                const missingFolders = cached ? cached.missingFolders : scanFolders;
+                const indexFolders = missingFolders.filter((folder) => fs.existsSync(folder));
+                const useIndex = RECONCILE_CACHE_STRATEGY === "index" && indexFolders.length > 0;
+
+                const incremental = useIndex && !forceRefresh ? await scanWithWorkspaceIndex(clientRoot, indexFolders, job.signal, job.setProgress) : null;
+                if (incremental) {
+                    saveScanResults(clientRoot, indexFolders, incremental.files);
+                    sendFiles(null, incremental.files);
+                    send("done", { totalFiles: fileCount, limitApplied, fromCache: false, cacheTime: cached?.cachedAt ?? null, incremental: true });
+                    job.finish(`Found ${fileCount} modified file(s), ${incremental.checkedFiles} of ${incremental.indexedFiles} file(s) checked`);
+                    return;
+                }
+                if (job.signal.aborted) {
+                    job.finish("The scan was stopped");
+                    return;
+                }
+
+                // The whole workspace is scanned from its root, folders one at a time
+                const scans = missingFolders.map((folder) =>
+                    toPathKey(folder) === toPathKey(clientRoot)
+                        ? { folder: null, args: ["-ztag", "reconcile", "-m", "-n", "..."], cwd: clientRoot }
+                        : { folder, args: ["-ztag", "reconcile", "-n", path.join(folder, "...")], cwd: undefined },
+                );
+
+                const reconciledFiles: P4ModifiedFile[] = [];
+                let hasFailures = false;
+                for (let index = 0; index < scans.length; index++) {
+                    const { folder, args, cwd } = scans[index];
+                    const folderStart = Date.now();
+                    const folderFiles: P4ModifiedFile[] = [];
+
+                    if (folder && !fs.existsSync(folder)) {
+                        send("folder-done", { folder, index, total: scans.length, fileCount: 0, durationMs: 0, skipped: true, error: "Folder does not exist" });
+                        continue;
+                    }
+
+                    send("folder-start", { folder, index, total: scans.length });
+                    job.setProgress(`Scanning ${folder || "workspace"}${scans.length > 1 ? ` (${index + 1} of ${scans.length})` : ""}, ${fileCount} file(s) found`);
+                    console.log("[DEBUG] Executing command:", formatP4Command(args));
+
+                    const result = await runReconcile(
+                        args,
+                        cwd,
+                        (records) => {
+                            const files = parseP4ReconcileOutput(records);
+                            reconciledFiles.push(...files);
+                            folderFiles.push(...files);
+                            sendFiles(folder, files);
+                        },
+                        job.signal,
+                    );
+
+                    if (job.signal.aborted) {
+                        job.finish(`${fileCount} file(s) found before the scan was stopped`);
+                        return;
+                    }
+
+                    // Files found by a run that didn't finish are still listed, but the folder isn't indexed or cached,
+                    // the files it didn't get to would look unchanged
+                    const failure = isCompleteReconcile(result) ? undefined : result.error || result.stderr.trim() || `exit code ${result.exitCode}`;
+                    hasFailures = hasFailures || !!failure;
+
+                    // Cache each complete folder so the next load doesn't reconcile it again, a failed folder would look clean
+                    if (!failure) {
+                        saveReconcileResults(clientRoot, folder || clientRoot, folderFiles);
+                    }
+
+                    send("folder-done", { folder, index, total: scans.length, fileCount: folderFiles.length, durationMs: Date.now() - folderStart, error: failure });
+                }
+
+                // Index the complete scan so the next one is incremental
+                if (!hasFailures && useIndex) {
+                    job.setProgress(`Indexing files, ${fileCount} modified file(s) found`);
+                    try {
+                        await updateWorkspaceIndex(clientRoot, indexFolders, reconciledFiles, job.signal);
+                    } catch (indexError) {
+                        // The next scan is a full reconcile again
+                        console.error("[DEBUG] Error updating the workspace index:", indexError);
+                    }
+                }
+
+                send("done", { totalFiles: fileCount, limitApplied, fromCache: false, cacheTime: cached?.cachedAt ?? null });
+                job.finish(`Found ${fileCount} modified file(s)${hasFailures ? ", some folders failed" : ""}`, hasFailures);
+            } catch (error) {
+                console.error("[DEBUG] Error in modified files stream:", error);
+                job.finish(error instanceof Error ? error.message : "Failed to scan for modified files", true);
+                send("error", { error: "Failed to scan for modified files", details: error instanceof Error ? error.message : "Unknown error" });
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the browser disconnecting
+                }
+            }
+        },
+        cancel() {
+            job.cancel();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-store",
+            Connection: "keep-alive",
+            [P4_JOB_HEADER]: job.id,
+        },
+    });
+});
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import fs from "fs";
+import { getP4ClientRoot } from "../../../../../../lib/serverUtils";
+import { withP4Session } from "../../../../../../lib/p4Session";
+import { sanitizePathForP4Command, toModifiedFile } from "../../../../../../lib/reconcileUtils";
+import { watchWorkspace } from "../../../../../../lib/workspaceWatcher";
+import { addToReconcileCache } from "../../../../../../lib/reconcileCache";
+
+// Comment lines sent while nothing changes, so proxies and the browser keep the connection open
+const KEEP_ALIVE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Watch the workspace and stream files edited without being checked out as Server-Sent Events
+ * Takes clientRoot, inclusionFolders and excludedFolders (comma-separated) and sends:
+ * - ready: { clientRoot } once watching
+ * - files: { files } when saved files turn out to differ from their have revision
+ * - error: { error, details } when watching or checking files failed
+ * Watching stops when the browser closes the connection
+ */
+export const GET = withP4Session(async function GET(req: Request) {
+    const url = new URL(req.url);
+    const splitFolders = (param: string) =>
+        (url.searchParams.get(param) || "")
+            .split(",")
+            .map((folder) => folder.trim())
+            .filter((folder) => folder);
+
+    const clientRoot = getP4ClientRoot(url.searchParams.get("clientRoot"));
+    const inclusionFolders = splitFolders("inclusionFolders").map(sanitizePathForP4Command);
+    const excludedFolders = splitFolders("excludedFolders");
+
+    console.log("[DEBUG] GET /api/p4/files/modified/watch called, folders:", inclusionFolders, "excluded:", excludedFolders);
+
+    if (!clientRoot || !fs.existsSync(clientRoot)) {
+        return NextResponse.json({ success: false, error: "No Perforce client root specified or found" }, { status: 400 });
+    }
+
+    const abortController = new AbortController();
+    req.signal.addEventListener("abort", () => abortController.abort());
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+        start(controller) {
+            const write = (text: string) => {
+                if (abortController.signal.aborted) return;
+                try {
+                    controller.enqueue(encoder.encode(text));
+                } catch {
+                    // Closed by the browser
+                    abortController.abort();
+                }
+            };
+            const send = (event: string, data: object) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+            watchWorkspace({
+                clientRoot,
+                folders: inclusionFolders,
+                excludedFolders,
+                onFiles: (files) => {
+                    console.log("[DEBUG] Watcher found files edited without checkout:", files.length);
+                    // Refreshes served from the cache list them too
+                    addToReconcileCache(clientRoot, files);
+                    send("files", { files: files.map(toModifiedFile) });
+                },
+                onError: (error) => send("error", { error: "Failed to watch the workspace", details: error }),
+                signal: abortController.signal,
+            });
+
+            const keepAliveId = setInterval(() => write(": keep-alive\n\n"), KEEP_ALIVE_INTERVAL_MS);
+            abortController.signal.addEventListener("abort", () => {
+                clearInterval(keepAliveId);
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed
+                }
+            });
+
+            send("ready", { clientRoot });
+        },
+        cancel() {
+            abortController.abort();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-store",
+            Connection: "keep-alive",
+        },
+    });
+});
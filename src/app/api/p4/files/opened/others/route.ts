@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { P4FileOpenedByOthers } from "../../../../../../types/p4";
+import { getP4Failure, runP4 } from "../../../../../../lib/p4Runner";
+import { parseP4ZtagOutput } from "../../../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../../../lib/p4Session";
+
+// Number of files passed to a single 'p4 fstat', keeps command lines short
+const BATCH_SIZE = 50;
+
+/**
+ * Check if a Perforce file type has the exclusive open (+l) modifier, e.g. 'binary+l' or 'binary+Fl'
+ */
+function isExclusiveType(type: string): boolean {
+    const modifiers = type.split("+")[1] || "";
+    return modifiers.includes("l");
+}
+
+/**
+ * Run 'p4 fstat' on a batch of files, its records describe other workspaces' opens and locks
+ * Files unknown to the server make p4 exit non-zero, the records of the other files are still on stdout
+ */
+function fstatBatch(depotFiles: string[]): Record<string, string>[] {
+    const result = runP4(["-ztag", "fstat", ...depotFiles]);
+
+    const failure = getP4Failure(result);
+    if (failure && (result.error || !result.stdout)) {
+        throw new Error(failure);
+    }
+
+    return parseP4ZtagOutput(result.stdout);
+}
+
+/**
+ * Find who else has files open, and which of them are locked
+ * Other workspaces' opens are numbered fields: otherOpen0 (user@client), otherAction0, otherChange0, ...
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { files } = await req.json();
+
+        if (!files || !Array.isArray(files) || files.length === 0) {
+            return NextResponse.json({ error: "No files provided" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/files/opened/others called for", files.length, "files");
+
+        const result: Record<string, P4FileOpenedByOthers> = {};
+        for (let i = 0; i < files.length; i += BATCH_SIZE) {
+            for (const record of fstatBatch(files.slice(i, i + BATCH_SIZE))) {
+                if (!record.depotFile) continue;
+
+                const openCount = parseInt(record.otherOpen || "0", 10);
+                const openedBy = [];
+                for (let index = 0; index < openCount && record[`otherOpen${index}`]; index++) {
+                    const [user, client] = record[`otherOpen${index}`].split("@");
+                    openedBy.push({
+                        user,
+                        client: client || "",
+                        action: record[`otherAction${index}`] || "",
+                        change: record[`otherChange${index}`] || "default",
+                    });
+                }
+
+                const type = record.headType || "";
+                result[record.depotFile] = {
+                    depotFile: record.depotFile,
+                    type,
+                    isExclusive: isExclusiveType(type),
+                    openedBy,
+                    // 'otherLock' is only printed when another workspace holds the lock
+                    lockedBy: record.otherLock !== undefined ? record.otherLock0 || "another workspace" : undefined,
+                };
+            }
+        }
+
+        return NextResponse.json({
+            success: true,
+            files: result,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in opened by others API route:", error);
+        return NextResponse.json({ error: "Failed to find files opened by others", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
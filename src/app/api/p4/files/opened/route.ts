@@ -1,7 +1,13 @@
 import { NextResponse } from "next/server";
+import fs from "fs";
+import os from "os";
+import path from "path";
 import { P4CheckedOutFile } from "../../../../../types/p4";
 import { P4Service } from "../../../../../lib/p4Service";
 import { executeP4Command } from "../../../../../lib/serverUtils";
+import { formatP4Command, runP4 } from "../../../../../lib/p4Runner";
+import { parseP4OpenedOutput, parseP4WhereOutput, parseP4ZtagOutput } from "../../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
 
 // Set to true to use mock data instead of executing p4 command
 const USE_MOCK_DATA = false;
@@ -41,66 +47,71 @@ const mockCheckedOutFiles: P4CheckedOutFile[] = [
 ];
 
 /**
- * Parse the output of 'p4 opened' command into structured data
+ * Add the have and head revisions of opened files from 'p4 fstat -Ro'
+ * A head revision newer than the have revision means the file was changed in the depot since it was synced
  */
-function parseP4OpenedOutput(output: string): P4CheckedOutFile[] {
-    if (!output || output.trim() === "") {
-        return [];
+function addRevisionState(files: P4CheckedOutFile[]): P4CheckedOutFile[] {
+    if (files.length === 0) {
+        return files;
     }
 
-    console.log("[DEBUG] Raw p4 opened output:", output);
+    try {
+        const records = parseP4ZtagOutput(executeP4Command(["-ztag", "fstat", "-Ro", "-T", "depotFile,clientFile,haveRev,headRev,headAction,headChange", "//..."]));
+        const recordsByFile: Record<string, Record<string, string>> = {};
+        records.forEach((record) => {
+            recordsByFile[record.depotFile] = record;
+        });
+
+        return files.map((file) => {
+            const record = recordsByFile[file.depotFile];
+            if (!record) return file;
+
+            return {
+                ...file,
+                clientFile: file.clientFile || record.clientFile || "",
+                haveRev: record.haveRev,
+                headRev: record.headRev,
+                headAction: record.headAction,
+                headChange: record.headChange,
+            };
+        });
+    } catch (error) {
+        // The file list is still useful without revision state
+        console.error("[DEBUG] Error getting revision state of opened files:", error);
+        return files;
+    }
+}
 
-    const lines = output.trim().split("\n");
-    const files: P4CheckedOutFile[] = [];
+/**
+ * Look up the local paths 'p4 fstat' didn't give (e.g. when it failed) with 'p4 where'
+ * 'p4 opened' only reports client syntax paths, which can't be diffed or opened
+ */
+function addLocalPaths(files: P4CheckedOutFile[]): P4CheckedOutFile[] {
+    const unmappedFiles = files.filter((file) => !file.clientFile);
+    if (unmappedFiles.length === 0) {
+        return files;
+    }
 
-    for (const line of lines) {
-        // Trim any carriage returns or whitespace
-        const cleanLine = line.trim();
-        console.log("[DEBUG] Processing line:", cleanLine);
+    const depotPathsFile = path.join(os.tmpdir(), `p4where_${Date.now()}.txt`);
+    try {
+        fs.writeFileSync(depotPathsFile, unmappedFiles.map((file) => file.depotFile).join("\n"));
 
-        // Fix for actual Perforce output format
+        // p4 exits non-zero when some files aren't mapped, the others are still on stdout
+        const pathMap = parseP4WhereOutput(runP4(["-x", depotPathsFile, "-ztag", "where"]).stdout);
+        return files.map((file) => (file.clientFile || !pathMap[file.depotFile] ? file : { ...file, clientFile: pathMap[file.depotFile].path }));
+    } catch (error) {
+        console.error("[DEBUG] Error mapping opened file paths:", error);
+        return files;
+    } finally {
         try {
-            // Match parts of the line
-            const fileRevMatch = cleanLine.match(/^(.+?)#(\d+)/);
-            const actionMatch = cleanLine.match(/- (\w+)/);
-            const changeMatch = cleanLine.match(/(default|change\s+\d+)/);
-            const typeMatch = cleanLine.match(/\((.+?)\)/);
-            const userClientMatch = cleanLine.match(/by\s+(.+?)(?:@(.+?))?$/);
-
-            if (fileRevMatch) {
-                const depotFile = fileRevMatch[1];
-                const rev = fileRevMatch[2];
-                const action = actionMatch ? actionMatch[1] : "";
-                const change = changeMatch ? changeMatch[1] : "default";
-                const type = typeMatch ? typeMatch[1] : "";
-                const user = userClientMatch ? userClientMatch[1] : "";
-                const client = userClientMatch && userClientMatch[2] ? userClientMatch[2] : "";
-
-                console.log("[DEBUG] Parsed file:", { depotFile, rev, action, change, type, user, client });
-
-                files.push({
-                    depotFile,
-                    clientFile: "", // We'll get this from 'p4 where' command
-                    rev,
-                    action,
-                    type,
-                    change: change === "default" ? "default" : change.replace("change ", ""),
-                    user,
-                    client,
-                });
-            } else {
-                console.log("[DEBUG] Line didn't match pattern:", cleanLine);
-            }
-        } catch (error) {
-            console.error("[DEBUG] Error parsing line:", error);
+            fs.unlinkSync(depotPathsFile);
+        } catch {
+            // Not created
         }
     }
-
-    console.log("[DEBUG] Total files parsed:", files.length);
-    return files;
 }
 
-export async function GET() {
+export const GET = withP4Session(async function GET() {
     try {
         console.log("[DEBUG] GET /api/p4/files/opened called");
 
@@ -115,21 +126,18 @@ export async function GET() {
         try {
             console.log("[DEBUG] Executing p4 opened command");
 
-            // Import here to avoid issues with server-side rendering
-            const { execSync } = require("child_process");
-
             // Log if p4 command is available
-            try {
-                const p4Version = execSync("p4 -V", { encoding: "utf8" });
-                console.log("[DEBUG] P4 version:", p4Version);
-            } catch (versionError) {
-                console.error("[DEBUG] P4 command not available:", versionError);
-                throw new Error("Perforce command-line client (p4) is not installed or not in PATH");
+            const version = runP4(["-V"]);
+            if (version.error) {
+                console.error("[DEBUG] P4 command not available:", version.error);
+                throw new Error(version.error);
             }
+            console.log("[DEBUG] P4 version:", version.stdout);
 
-            // Execute 'p4 opened' command with logging
-            const command = "p4 opened";
-            const output = executeP4Command(command);
+            // Execute 'p4 opened' command with logging, tagged output keeps odd paths and localized servers parseable
+            const args = ["-ztag", "opened"];
+            const command = formatP4Command(args);
+            const output = executeP4Command(args);
             console.log("[DEBUG] P4 opened output:", output);
 
             // Add script to log on client-side
@@ -142,7 +150,7 @@ export async function GET() {
             `;
 
             // Parse output
-            const files = parseP4OpenedOutput(output);
+            const files = addLocalPaths(addRevisionState(parseP4OpenedOutput(output)));
             console.log("[DEBUG] Parsed files:", files);
 
             const response = NextResponse.json({
@@ -170,4 +178,4 @@ export async function GET() {
         console.error("[DEBUG] Error in API route:", error);
         return NextResponse.json({ error: "Failed to fetch checked out files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
     }
-}
+});
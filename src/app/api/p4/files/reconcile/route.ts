@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { createP4Changelist, executeP4Command } from "../../../../../lib/serverUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+// Number of files passed to a single p4 invocation, keeps command lines short
+const BATCH_SIZE = 50;
+
+type ReconcileFile = {
+    depotFile: string;
+    localFile?: string;
+    status: string;
+};
+
+type ReconcileResult = {
+    status: string;
+    files: string[];
+    success: boolean;
+    output?: string;
+    error?: string;
+};
+
+/**
+ * Get the p4 arguments that open files with a reconcile status
+ * New files are added by local path with -f so names containing @#%* are accepted
+ */
+function getOpenArgs(status: string, change: string, files: ReconcileFile[]): string[] {
+    switch (status) {
+        case "add":
+            return ["add", "-f", "-c", change, ...files.map((file) => file.localFile || file.depotFile)];
+        case "delete":
+            return ["delete", "-c", change, ...files.map((file) => file.depotFile)];
+        default:
+            return ["edit", "-c", change, ...files.map((file) => file.depotFile)];
+    }
+}
+
+/**
+ * Open modified files with the action matching their reconcile status:
+ * 'p4 add' for local-only files, 'p4 delete' for missing files and 'p4 edit' for modified files
+ * The target can be 'default', a pending changelist number, or 'new' to create one on the fly
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { files, change = "default", description } = await req.json();
+
+        if (!files || !Array.isArray(files) || files.length === 0) {
+            return NextResponse.json({ error: "No files provided to reconcile" }, { status: 400 });
+        }
+
+        if (change !== "default" && change !== "new" && !/^\d+$/.test(change)) {
+            return NextResponse.json({ error: `Invalid target changelist: ${change}` }, { status: 400 });
+        }
+
+        if (change === "new" && (!description || typeof description !== "string" || description.trim() === "")) {
+            return NextResponse.json({ error: "A description is required to create a new changelist" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/files/reconcile called for", files.length, "files, target:", change);
+
+        const targetChange = change === "new" ? createP4Changelist(description.trim()) : change;
+
+        // Group the files by the action they need
+        const filesByStatus = new Map<string, ReconcileFile[]>();
+        (files as ReconcileFile[])
+            .filter((file) => file.depotFile)
+            .forEach((file) => {
+                const status = ["add", "delete"].includes(file.status) ? file.status : "edit";
+                filesByStatus.set(status, [...(filesByStatus.get(status) || []), file]);
+            });
+
+        // Run each batch separately so one failure doesn't stop the rest
+        const results: ReconcileResult[] = [];
+        filesByStatus.forEach((statusFiles, status) => {
+            for (let i = 0; i < statusFiles.length; i += BATCH_SIZE) {
+                const batch = statusFiles.slice(i, i + BATCH_SIZE);
+                const depotFiles = batch.map((file) => file.depotFile);
+                try {
+                    const output = executeP4Command(getOpenArgs(status, targetChange, batch));
+                    console.log(`[DEBUG] P4 ${status} output:`, output);
+                    results.push({ status, files: depotFiles, success: true, output });
+                } catch (cmdError: any) {
+                    console.error(`[DEBUG] P4 ${status} command error:`, cmdError);
+                    results.push({ status, files: depotFiles, success: false, error: cmdError.message });
+                }
+            }
+        });
+
+        const openedFiles = results.filter((result) => result.success).flatMap((result) => result.files);
+        const failedFiles = results.filter((result) => !result.success).flatMap((result) => result.files);
+
+        return NextResponse.json({
+            success: failedFiles.length === 0,
+            change: targetChange,
+            opened: openedFiles,
+            failed: failedFiles,
+            results,
+            message: `Opened ${openedFiles.length} file(s) in ${targetChange === "default" ? "the default changelist" : `changelist ${targetChange}`}${failedFiles.length > 0 ? `, ${failedFiles.length} failed` : ""}`,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in reconcile API route:", error);
+        return NextResponse.json({ error: "Failed to reconcile files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
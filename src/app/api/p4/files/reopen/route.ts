@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { createP4Changelist, executeP4Command } from "../../../../../lib/serverUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+/**
+ * Move opened files to another changelist using 'p4 reopen -c'
+ * The target can be 'default', a pending changelist number, or 'new' to create one on the fly
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { files, change, description } = await req.json();
+
+        if (!files || !Array.isArray(files) || files.length === 0) {
+            return NextResponse.json({ error: "No files provided to move" }, { status: 400 });
+        }
+
+        if (!change || (change !== "default" && change !== "new" && !/^\d+$/.test(change))) {
+            return NextResponse.json({ error: `Invalid target changelist: ${change}` }, { status: 400 });
+        }
+
+        if (change === "new" && (!description || typeof description !== "string" || description.trim() === "")) {
+            return NextResponse.json({ error: "A description is required to create a new changelist" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/files/reopen called for", files.length, "files, target:", change);
+
+        // Create the target changelist first if requested
+        const targetChange = change === "new" ? createP4Changelist(description.trim()) : change;
+
+        const output = executeP4Command(["reopen", "-c", targetChange, ...files.map(String)]);
+        console.log("[DEBUG] P4 reopen output:", output);
+
+        return NextResponse.json({
+            success: true,
+            change: targetChange,
+            message: `Moved ${files.length} file(s) to ${targetChange === "default" ? "the default changelist" : `changelist ${targetChange}`}`,
+            output,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in reopen API route:", error);
+        return NextResponse.json({ error: "Failed to move files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
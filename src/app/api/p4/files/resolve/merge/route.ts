@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import fs from "fs";
+import { P4MergeFiles } from "../../../../../../types/p4";
+import { executeP4Command, getP4PendingResolves } from "../../../../../../lib/serverUtils";
+import { withP4Session } from "../../../../../../lib/p4Session";
+
+// Files larger than this are not merged in the browser
+const MAX_MERGE_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Get base, theirs and yours of a file that needs a content resolve
+ * base and theirs are printed from the depot, yours is read from the workspace
+ */
+export const GET = withP4Session(async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const file = searchParams.get("file");
+
+        if (!file) {
+            return NextResponse.json({ error: "No file path provided" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] GET /api/p4/files/resolve/merge called for:", file);
+
+        const resolve = getP4PendingResolves([file]).find((pending) => pending.resolveType === "content");
+        if (!resolve) {
+            return NextResponse.json({ error: "File has no pending content resolve" }, { status: 404 });
+        }
+
+        if (resolve.contentResolveType && !resolve.contentResolveType.includes("text")) {
+            return NextResponse.json({ error: "Binary files can't be merged, accept theirs or yours instead" }, { status: 400 });
+        }
+
+        if (fs.existsSync(resolve.localFile) && fs.statSync(resolve.localFile).size > MAX_MERGE_SIZE) {
+            return NextResponse.json({ error: "File is too large to merge here" }, { status: 400 });
+        }
+
+        const result: P4MergeFiles = {
+            resolve,
+            base: resolve.baseFile && resolve.baseRev ? executeP4Command(["print", "-q", `${resolve.baseFile}#${resolve.baseRev}`]) : "",
+            theirs: executeP4Command(["print", "-q", `${resolve.fromFile}#${resolve.endFromRev}`]),
+            yours: fs.existsSync(resolve.localFile) ? fs.readFileSync(resolve.localFile, "utf8") : "",
+        };
+
+        return NextResponse.json({
+            success: true,
+            merge: result,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in merge API route:", error);
+        return NextResponse.json({ error: "Failed to get files to merge", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Save the merged content to the workspace file and mark it resolved
+ * The merged file becomes "yours", so 'p4 resolve -ay' accepts it as the result
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { file, content } = await req.json();
+
+        if (!file || typeof content !== "string") {
+            return NextResponse.json({ error: "A file and its merged content are required" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/files/resolve/merge called for:", file);
+
+        const resolve = getP4PendingResolves([file]).find((pending) => pending.resolveType === "content");
+        if (!resolve) {
+            return NextResponse.json({ error: "File has no pending content resolve" }, { status: 404 });
+        }
+
+        fs.writeFileSync(resolve.localFile, content, "utf8");
+
+        const output = executeP4Command(["resolve", "-ay", resolve.localFile]);
+        console.log("[DEBUG] P4 resolve output:", output);
+
+        return NextResponse.json({
+            success: true,
+            file: resolve.localFile,
+            message: "File merged and resolved",
+            output,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in merge API route:", error);
+        return NextResponse.json({ error: "Failed to save merged file", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
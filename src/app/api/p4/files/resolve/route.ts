@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { P4ResolveMode } from "../../../../../types/p4";
+import { executeP4Command, getP4PendingResolves } from "../../../../../lib/serverUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+// Automatic resolve modes and the 'p4 resolve' flags they use
+const RESOLVE_FLAGS: Record<P4ResolveMode, string> = {
+    merge: "-am",
+    theirs: "-at",
+    yours: "-ay",
+};
+
+/**
+ * List the opened files that need resolving with 'p4 resolve -n'
+ */
+export const GET = withP4Session(async function GET() {
+    try {
+        console.log("[DEBUG] GET /api/p4/files/resolve called");
+
+        const resolves = getP4PendingResolves();
+
+        return NextResponse.json({
+            success: true,
+            resolves,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in resolve API route:", error);
+        return NextResponse.json({ error: "Failed to list files to resolve", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Resolve files automatically
+ * - merge: 'p4 resolve -am', accepts the merge when there are no conflicts, skips the file otherwise
+ * - theirs: 'p4 resolve -at', replaces the workspace file with the revision merged in
+ * - yours: 'p4 resolve -ay', keeps the workspace file
+ * Without files every file needing resolve is resolved
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { files = [], mode = "merge" } = await req.json();
+
+        if (!Array.isArray(files)) {
+            return NextResponse.json({ error: "Files must be a list" }, { status: 400 });
+        }
+
+        if (!(mode in RESOLVE_FLAGS)) {
+            return NextResponse.json({ error: `Invalid resolve mode: ${mode}` }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/files/resolve called for", files.length || "all", "files, mode:", mode);
+
+        const output = executeP4Command(["resolve", RESOLVE_FLAGS[mode as P4ResolveMode], ...files.map(String)]);
+        console.log("[DEBUG] P4 resolve output:", output);
+
+        // Files with conflicts are left alone by '-am': '//ws/file.txt - resolve skipped.'
+        const skipped = output
+            .split("\n")
+            .map((line) => line.match(/^(.+?) - resolve skipped/))
+            .filter((match): match is RegExpMatchArray => !!match)
+            .map((match) => match[1].trim());
+
+        const resolves = getP4PendingResolves();
+
+        return NextResponse.json({
+            success: true,
+            skipped,
+            resolves,
+            message: skipped.length > 0 ? `${skipped.length} file(s) have conflicts and were skipped` : "Files resolved",
+            output,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in resolve API route:", error);
+        return NextResponse.json({ error: "Failed to resolve files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getP4ClientName } from "../../../../../../lib/serverUtils";
+import { listBackups, restoreBackup } from "../../../../../../lib/revertBackups";
+import { withP4Session } from "../../../../../../lib/p4Session";
+
+/**
+ * List the backups taken before reverts in the current workspace
+ */
+export const GET = withP4Session(async function GET() {
+    try {
+        const client = getP4ClientName();
+
+        return NextResponse.json({
+            success: true,
+            client,
+            backups: listBackups(client),
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error listing revert backups:", error);
+        return NextResponse.json({ error: "Failed to list reverted files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Restore a reverted file from its backup
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { id } = await req.json();
+
+        if (!id || typeof id !== "string") {
+            return NextResponse.json({ error: "No backup id provided" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/files/revert/backups called for:", id);
+
+        const backup = restoreBackup(getP4ClientName(), id);
+
+        return NextResponse.json({
+            success: true,
+            backup,
+            message: `Restored ${backup.localFile}`,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error restoring revert backup:", error);
+        return NextResponse.json({ error: "Failed to restore file", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
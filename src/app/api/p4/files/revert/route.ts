@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { P4RevertBackup, P4RevertMode } from "../../../../../types/p4";
+import { executeP4Command, getP4ClientName } from "../../../../../lib/serverUtils";
+import { parseP4ZtagOutput } from "../../../../../lib/ztagUtils";
+import { backupFiles } from "../../../../../lib/revertBackups";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+// Revert modes and the 'p4 revert' flags they use
+const REVERT_FLAGS: Record<P4RevertMode, string> = {
+    all: "",
+    unchanged: "-a",
+    keep: "-k",
+};
+
+// Actions whose revert leaves nothing on disk to lose (adds stay, deletes are restored from the depot)
+const NO_BACKUP_ACTIONS = ["add", "delete", "move/delete"];
+
+/**
+ * Revert opened files
+ * - all: 'p4 revert', discards local changes (backed up first)
+ * - unchanged: 'p4 revert -a', only reverts files with no changes
+ * - keep: 'p4 revert -k', reverts the open state but keeps the local content
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { files, mode = "all" } = await req.json();
+
+        if (!files || !Array.isArray(files) || files.length === 0) {
+            return NextResponse.json({ error: "No files provided to revert" }, { status: 400 });
+        }
+
+        if (!(mode in REVERT_FLAGS)) {
+            return NextResponse.json({ error: `Invalid revert mode: ${mode}` }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/files/revert called for", files.length, "files, mode:", mode);
+
+        // Back up local content that a full revert would overwrite
+        let backups: P4RevertBackup[] = [];
+        if (mode === "all") {
+            const opened = parseP4ZtagOutput(executeP4Command(["-ztag", "fstat", "-Ro", ...files]))
+                .filter((record) => record.depotFile && record.clientFile && !NO_BACKUP_ACTIONS.includes(record.action));
+
+            backups = backupFiles(
+                getP4ClientName(),
+                opened.map((record) => ({
+                    depotFile: record.depotFile,
+                    localFile: record.clientFile,
+                    action: record.action,
+                    change: record.change || "default",
+                })),
+            );
+            console.log("[DEBUG] Backed up", backups.length, "files before revert");
+        }
+
+        const flags = REVERT_FLAGS[mode as P4RevertMode];
+        const output = executeP4Command(["revert", ...(flags ? [flags] : []), ...files]);
+        console.log("[DEBUG] P4 revert output:", output);
+
+        // Lines look like '//depot/file.txt#3 - was edit, reverted'
+        const reverted = output
+            .split("\n")
+            .map((line) => line.match(/^(.+?)#(?:\d+|none) - was [\w/]+, \w+/))
+            .filter((match): match is RegExpMatchArray => !!match)
+            .map((match) => match[1]);
+
+        return NextResponse.json({
+            success: true,
+            reverted,
+            backups,
+            message: `Reverted ${reverted.length} file(s)`,
+            output,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in revert API route:", error);
+        return NextResponse.json({ error: "Failed to revert files", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
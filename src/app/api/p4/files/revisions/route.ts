@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { P4FileRevisionState } from "../../../../../types/p4";
+import { getP4Failure, runP4 } from "../../../../../lib/p4Runner";
+import { parseP4ZtagOutput } from "../../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+// Number of files passed to a single 'p4 fstat', keeps command lines short
+const BATCH_SIZE = 50;
+
+/**
+ * Run 'p4 fstat' on a batch of files for their have and head revisions
+ * Files unknown to the server make p4 exit non-zero, the records of the other files are still on stdout
+ */
+function fstatBatch(depotFiles: string[]): Record<string, string>[] {
+    const result = runP4(["-ztag", "fstat", "-T", "depotFile,haveRev,headRev,headAction,headChange", ...depotFiles]);
+
+    const failure = getP4Failure(result);
+    if (failure && (result.error || !result.stdout)) {
+        throw new Error(failure);
+    }
+
+    return parseP4ZtagOutput(result.stdout);
+}
+
+/**
+ * Get the have and head revisions of files, to find files that are out of date
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { files } = await req.json();
+
+        if (!files || !Array.isArray(files) || files.length === 0) {
+            return NextResponse.json({ error: "No files provided" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] POST /api/p4/files/revisions called for", files.length, "files");
+
+        const result: Record<string, P4FileRevisionState> = {};
+        for (let i = 0; i < files.length; i += BATCH_SIZE) {
+            for (const record of fstatBatch(files.slice(i, i + BATCH_SIZE))) {
+                if (!record.depotFile) continue;
+
+                result[record.depotFile] = {
+                    depotFile: record.depotFile,
+                    haveRev: record.haveRev,
+                    headRev: record.headRev,
+                    headAction: record.headAction,
+                    headChange: record.headChange,
+                };
+            }
+        }
+
+        return NextResponse.json({
+            success: true,
+            files: result,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in revisions API route:", error);
+        return NextResponse.json({ error: "Failed to get file revisions", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
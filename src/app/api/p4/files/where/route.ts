@@ -1,13 +1,16 @@
 import { NextResponse } from "next/server";
-import { execSync } from "child_process";
 import { writeFileSync, unlinkSync } from "fs";
 import { join } from "path";
 import os from "os";
+import { executeP4Command } from "../../../../../lib/serverUtils";
+import { getP4Failure, runP4 } from "../../../../../lib/p4Runner";
+import { parseP4InfoOutput, parseP4WhereOutput } from "../../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../../lib/p4Session";
 
 /**
  * Map depot paths to client paths using p4 where command
  */
-export async function POST(req: Request) {
+export const POST = withP4Session(async function POST(req: Request) {
     try {
         const { files } = await req.json();
 
@@ -30,10 +33,8 @@ export async function POST(req: Request) {
             // Try to get the client root information first
             let clientRoot = "";
             try {
-                const clientInfo = execSync("p4 info", { encoding: "utf8" });
-                const clientRootMatch = clientInfo.match(/Client root: (.+)/);
-                if (clientRootMatch && clientRootMatch[1]) {
-                    clientRoot = clientRootMatch[1].trim();
+                clientRoot = parseP4InfoOutput(executeP4Command(["-ztag", "info"])).clientRoot || "";
+                if (clientRoot) {
                     console.log("[DEBUG] Found client root:", clientRoot);
                 }
             } catch (infoError) {
@@ -49,30 +50,21 @@ export async function POST(req: Request) {
                 writeFileSync(tempFilePath, files.join("\n"), "utf8");
                 console.log("[DEBUG] Created temp file with paths:", tempFilePath);
 
-                // Use a simpler approach: execute p4 where on each file individually
-                // This is slower but more reliable
-                for (const depotPath of files) {
-                    try {
-                        // Execute p4 where for this specific file
-                        console.log("[DEBUG] Processing file:", depotPath);
-
-                        const cmd = `p4 where "${depotPath}"`;
-                        const output = execSync(cmd, { encoding: "utf8" });
-
-                        // The output format is typically: "//depot/path/file.txt client/path/file.txt C:/actual/path/file.txt"
-                        const parts = output.trim().split(/\s+/);
+                // Map all files with one 'p4 -x' call, files that aren't mapped are reported on stderr
+                const result = runP4(["-x", tempFilePath, "-ztag", "where"]);
 
-                        // We need at least 3 parts for a valid mapping
-                        if (parts.length >= 3) {
-                            const localPath = parts[parts.length - 1]; // Last part is the local path
+                // p4 exits non-zero when some files aren't mapped, the others are still on stdout
+                const failure = getP4Failure(result);
+                if (failure && (result.error || !result.stdout)) {
+                    throw new Error(failure);
+                }
 
-                            //console.log("[DEBUG] Mapped:", depotPath, "->", localPath);
-                            pathMap[depotPath] = localPath;
-                        } else {
-                            console.log("[DEBUG] Failed to parse where output for:", depotPath, "Output:", output);
-                        }
-                    } catch (fileError) {
-                        console.error("[DEBUG] Error processing file:", depotPath, fileError);
+                const mappings = parseP4WhereOutput(result.stdout);
+                for (const depotPath of files) {
+                    if (mappings[depotPath]) {
+                        pathMap[depotPath] = mappings[depotPath].path;
+                    } else {
+                        console.log("[DEBUG] No workspace mapping for:", depotPath);
                     }
                 }
             } finally {
@@ -100,4 +92,4 @@ export async function POST(req: Request) {
         console.error("[DEBUG] Error mapping file paths:", error);
         return NextResponse.json({ error: "Failed to map file paths", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
     }
-}
+});
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { cancelP4Job, getP4Job } from "../../../../../lib/p4Jobs";
+import { withP4Session } from "../../../../../lib/p4Session";
+
+type RouteContext = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * Get the status and progress of one of the session's jobs
+ */
+export const GET = withP4Session(async function GET(req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const job = getP4Job(id);
+
+    if (!job) {
+        return NextResponse.json({ error: `Job ${id} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job });
+});
+
+/**
+ * Cancel a running job, stopping the p4 processes it started
+ * The job is reported as cancelled once its processes have exited
+ */
+export const DELETE = withP4Session(async function DELETE(req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    console.log("[DEBUG] DELETE /api/p4/jobs called for:", id);
+
+    if (!cancelP4Job(id)) {
+        return NextResponse.json({ error: `Job ${id} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job: getP4Job(id) });
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { clearFinishedP4Jobs, getP4Jobs } from "../../../../lib/p4Jobs";
+import { withP4Session } from "../../../../lib/p4Session";
+
+/**
+ * List the session's running and recently finished jobs, polled by the jobs tray
+ */
+export const GET = withP4Session(async function GET() {
+    try {
+        return NextResponse.json({ success: true, jobs: getP4Jobs() });
+    } catch (error) {
+        console.error("[DEBUG] Error listing jobs:", error);
+        return NextResponse.json({ error: "Failed to list jobs", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
+
+/**
+ * Remove the session's finished jobs from the list, running jobs are kept
+ */
+export const DELETE = withP4Session(async function DELETE() {
+    try {
+        clearFinishedP4Jobs();
+        return NextResponse.json({ success: true, jobs: getP4Jobs() });
+    } catch (error) {
+        console.error("[DEBUG] Error clearing jobs:", error);
+        return NextResponse.json({ error: "Failed to clear jobs", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
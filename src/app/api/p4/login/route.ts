@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getP4Failure, runP4 } from "../../../../lib/p4Runner";
+import { getCurrentP4Session, isP4LoginRequiredError, markP4LoginRequired, withP4Session } from "../../../../lib/p4Session";
+import { parseP4ZtagOutput } from "../../../../lib/ztagUtils";
+
+/**
+ * Check whether the session's ticket is still valid with 'p4 login -s'
+ */
+export const GET = withP4Session(async function GET() {
+    try {
+        const session = getCurrentP4Session();
+
+        // Without a session p4 uses the server's own environment and tickets
+        if (!session) {
+            return NextResponse.json({ hasSession: false, loginRequired: false });
+        }
+
+        const result = runP4(["-ztag", "login", "-s"]);
+        const failure = getP4Failure(result);
+
+        if (failure) {
+            if (!isP4LoginRequiredError(result.stderr)) {
+                return NextResponse.json({ error: "Failed to check Perforce login", details: failure }, { status: 500 });
+            }
+
+            markP4LoginRequired(session);
+            return NextResponse.json({ hasSession: true, loginRequired: true, user: session.settings.user, port: session.settings.port });
+        }
+
+        // Seconds until the ticket expires
+        const [status] = parseP4ZtagOutput(result.stdout);
+        const expiresIn = status?.TicketExpiration ? parseInt(status.TicketExpiration, 10) : undefined;
+
+        return NextResponse.json({ hasSession: true, loginRequired: false, user: session.settings.user, port: session.settings.port, expiresIn });
+    } catch (error) {
+        console.error("Error checking Perforce login:", error);
+        return NextResponse.json({ error: "Failed to check Perforce login", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
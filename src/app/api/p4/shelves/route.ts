@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { executeP4Command, parseP4ChangesOutput } from "../../../../lib/serverUtils";
+import { withP4Session } from "../../../../lib/p4Session";
+
+// Default number of shelved changes returned
+const DEFAULT_MAX_SHELVES = 100;
+
+/**
+ * List shelved changes across the server with 'p4 changes -s shelved'
+ * Query parameters (all optional):
+ * - user: only changes of this user
+ * - path: only changes with files under this depot path
+ * - since: only changes updated on or after this date (YYYY-MM-DD)
+ * - max: maximum number of changes, newest first
+ */
+export const GET = withP4Session(async function GET(req: Request) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const user = (searchParams.get("user") || "").trim();
+        const path = (searchParams.get("path") || "").trim();
+        const since = (searchParams.get("since") || "").trim();
+        const maxChanges = parseInt(searchParams.get("max") || "", 10) || DEFAULT_MAX_SHELVES;
+
+        if (since && !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+            return NextResponse.json({ error: `Invalid date: ${since}` }, { status: 400 });
+        }
+
+        if (/["\r\n]/.test(user + path)) {
+            return NextResponse.json({ error: "Invalid user or path" }, { status: 400 });
+        }
+
+        console.log("[DEBUG] GET /api/p4/shelves called, user:", user, "path:", path, "since:", since);
+
+        // A folder matches everything below it, a date range is added as a revision range of the path
+        let fileSpec = path ? (path.endsWith("...") ? path : `${path.replace(/\/+$/, "")}/...`) : "";
+        if (since) {
+            fileSpec = `${fileSpec || "//..."}@${since.replace(/-/g, "/")},@now`;
+        }
+
+        const args = ["-ztag", "changes", "-l", "-s", "shelved", "-m", String(maxChanges), ...(user ? ["-u", user] : []), ...(fileSpec ? [fileSpec] : [])];
+        const shelves = parseP4ChangesOutput(executeP4Command(args));
+
+        return NextResponse.json({
+            success: true,
+            shelves,
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error listing shelved changes:", error);
+        return NextResponse.json({ error: "Failed to list shelved changes", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
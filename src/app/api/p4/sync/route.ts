@@ -0,0 +1,242 @@
+import { NextResponse } from "next/server";
+import fs from "fs";
+import { P4SyncAction, P4SyncFile } from "../../../../types/p4";
+import { killP4Process, spawnP4 } from "../../../../lib/p4Runner";
+import { withP4Session } from "../../../../lib/p4Session";
+import { P4_JOB_HEADER, startP4Job } from "../../../../lib/p4Jobs";
+
+// A preview only lists files, it's stopped if it takes longer than this (10 minutes)
+const SYNC_PREVIEW_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Sync actions of 'p4 sync' output lines like '//depot/file.txt#3 - updating C:\ws\file.txt'
+const SYNC_ACTIONS: Record<string, P4SyncAction> = {
+    updating: "updated",
+    "added as": "added",
+    "deleted as": "deleted",
+    refreshing: "refreshed",
+    replacing: "updated",
+};
+
+/**
+ * Parse a line of 'p4 -s sync' output into a file entry
+ * Returns null for lines that aren't about a file (e.g. 'File(s) up-to-date.')
+ */
+function parseP4SyncLine(rawLine: string): P4SyncFile | null {
+    // Strip the message level added by 'p4 -s' (info:, info1:, warning:, error:) and the '... ' prefix
+    const line = rawLine.replace(/^(info|warning|error|text)\d*:\s*/, "").replace(/^\.\.\. /, "").trim();
+    if (!line) return null;
+
+    const clobberMatch = line.match(/^Can't clobber writable file (.+)$/);
+    if (clobberMatch) {
+        return { depotFile: clobberMatch[1], localFile: clobberMatch[1], action: "cantClobber", message: line };
+    }
+
+    const resolveMatch = line.match(/^(\/\/.+?) - must resolve #(\d+)/);
+    if (resolveMatch) {
+        return { depotFile: resolveMatch[1], rev: resolveMatch[2], action: "needsResolve", message: line };
+    }
+
+    const fileMatch = line.match(/^(\/\/.+?)#(\d+|none) - (updating|added as|deleted as|refreshing|replacing|is opened.*?)(?: (.+))?$/);
+    if (fileMatch) {
+        const [, depotFile, rev, verb, localFile] = fileMatch;
+        const action = verb.startsWith("is opened") ? "opened" : SYNC_ACTIONS[verb];
+        return { depotFile, rev, localFile: action === "opened" ? undefined : localFile, action, message: line };
+    }
+
+    if (line.startsWith("//")) {
+        return { depotFile: line.split(" ")[0], action: "other", message: line };
+    }
+
+    return null;
+}
+
+/**
+ * Count the files of each sync action
+ */
+function summarizeSync(files: P4SyncFile[]): Record<P4SyncAction, number> {
+    const summary: Record<P4SyncAction, number> = {
+        added: 0,
+        updated: 0,
+        deleted: 0,
+        refreshed: 0,
+        opened: 0,
+        cantClobber: 0,
+        needsResolve: 0,
+        other: 0,
+    };
+    files.forEach((file) => summary[file.action]++);
+    return summary;
+}
+
+/**
+ * Run 'p4 -s sync' and report every output line as it arrives
+ * 'p4 -s' prints errors to stdout too, so the order of the lines is kept
+ * With a timeout the sync is stopped and the promise rejected once it runs longer
+ */
+function runSync(args: string[], onLine: (line: string) => void, signal?: AbortSignal, timeoutMs?: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+        // Syncing stops when the job is cancelled or the browser goes away
+        const child = spawnP4(["-s", "sync", ...args], { signal });
+        let buffered = "";
+        let timedOut = false;
+
+        const timeoutId = timeoutMs
+            ? setTimeout(() => {
+                  timedOut = true;
+                  killP4Process(child);
+              }, timeoutMs)
+            : undefined;
+
+        const handleData = (data: Buffer) => {
+            buffered += data.toString("utf8");
+            const lines = buffered.split(/\r?\n/);
+            buffered = lines.pop() || "";
+            lines.forEach(onLine);
+        };
+
+        child.stdout.on("data", handleData);
+        child.stderr.on("data", handleData);
+        child.on("error", (error) => {
+            clearTimeout(timeoutId);
+            reject(error);
+        });
+        child.on("close", (code) => {
+            clearTimeout(timeoutId);
+            if (timedOut) {
+                reject(new Error(`Sync timed out after ${Math.round((timeoutMs || 0) / 1000)}s`));
+                return;
+            }
+            if (buffered) onLine(buffered);
+            resolve(code ?? 1);
+        });
+    });
+}
+
+/**
+ * Files that sync would overwrite or delete but are writable and not opened
+ * 'p4 sync -n' doesn't report these, the real sync fails on them with "Can't clobber writable file"
+ */
+function markCantClobber(files: P4SyncFile[]): P4SyncFile[] {
+    return files.map((file) => {
+        if ((file.action === "updated" || file.action === "deleted") && file.localFile && fs.existsSync(file.localFile)) {
+            try {
+                fs.accessSync(file.localFile, fs.constants.W_OK);
+                return { ...file, action: "cantClobber" as const, message: `${file.message} (local file is writable)` };
+            } catch {
+                // Read-only, sync can replace it
+            }
+        }
+        return file;
+    });
+}
+
+/**
+ * Sync the workspace, a folder of it, or single files
+ * - preview: runs 'p4 sync -n' and returns the files that would change as JSON
+ * - otherwise: runs 'p4 sync' as a job and streams one JSON object per line (NDJSON):
+ *   { type: 'file', file } for each file, then { type: 'done', summary, exitCode }
+ *   The job's ID is in the x-perforce-job header, cancelling the job stops the sync
+ */
+export const POST = withP4Session(async function POST(req: Request) {
+    try {
+        const { path, files: depotFiles, preview = false } = await req.json();
+
+        // An empty list must not fall through to syncing the whole client
+        if (depotFiles !== undefined && (!Array.isArray(depotFiles) || depotFiles.length === 0)) {
+            return NextResponse.json({ error: "Files must be a non-empty list" }, { status: 400 });
+        }
+
+        // A folder is synced with its '...' wildcard, no path or files syncs the whole client
+        const args: string[] = [];
+        if (preview) args.push("-n");
+        if (path) args.push(`${String(path).replace(/[\\/]+$/, "")}/...`);
+        if (depotFiles) args.push(...depotFiles.map(String));
+
+        console.log("[DEBUG] POST /api/p4/sync called, preview:", preview, "args:", args.join(" "));
+
+        if (preview) {
+            const files: P4SyncFile[] = [];
+            const errors: string[] = [];
+
+            // The preview stops when the browser goes away or it takes too long
+            await runSync(
+                args,
+                (line) => {
+                    const file = parseP4SyncLine(line);
+                    if (file) {
+                        files.push(file);
+                    } else if (line.startsWith("error:") && !line.includes("up-to-date")) {
+                        errors.push(line.replace(/^error:\s*/, ""));
+                    }
+                },
+                req.signal,
+                SYNC_PREVIEW_TIMEOUT_MS,
+            );
+
+            const checkedFiles = markCantClobber(files);
+
+            return NextResponse.json({
+                success: errors.length === 0,
+                files: checkedFiles,
+                summary: summarizeSync(checkedFiles),
+                errors,
+            });
+        }
+
+        const job = startP4Job("sync", path ? String(path) : depotFiles ? `${depotFiles.length} file(s)` : "Whole workspace", req.signal);
+
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream({
+            async start(controller) {
+                const send = (event: object) => {
+                    if (job.signal.aborted) return;
+                    controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+                };
+                const files: P4SyncFile[] = [];
+
+                try {
+                    const exitCode = await runSync(
+                        args,
+                        (line) => {
+                            const file = parseP4SyncLine(line);
+                            if (file) {
+                                files.push(file);
+                                send({ type: "file", file });
+                                job.setProgress(`${files.length} file(s) synced`);
+                            } else if (line.startsWith("error:") && !line.includes("up-to-date")) {
+                                send({ type: "error", message: line.replace(/^error:\s*/, "") });
+                            }
+                        },
+                        job.signal,
+                    );
+
+                    send({ type: "done", summary: summarizeSync(files), exitCode });
+                    job.finish(`Synced ${files.length} file(s)${exitCode !== 0 ? " with errors" : ""}`, exitCode !== 0);
+                } catch (error) {
+                    send({ type: "error", message: error instanceof Error ? error.message : "Sync failed" });
+                    job.finish(error instanceof Error ? error.message : "Sync failed", true);
+                } finally {
+                    try {
+                        controller.close();
+                    } catch {
+                        // Already closed by the browser disconnecting
+                    }
+                }
+            },
+            cancel() {
+                job.cancel();
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                "Content-Type": "application/x-ndjson",
+                "Cache-Control": "no-store",
+                [P4_JOB_HEADER]: job.id,
+            },
+        });
+    } catch (error) {
+        console.error("[DEBUG] Error in sync API route:", error);
+        return NextResponse.json({ error: "Failed to sync", details: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+    }
+});
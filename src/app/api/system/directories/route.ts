@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { promises as fs } from "fs";
 import path from "path";
-import { exec } from "child_process";
-import { promisify } from "util";
 import { readdir, stat } from "fs/promises";
-
-const execAsync = promisify(exec);
+import { executeP4Command } from "../../../../lib/serverUtils";
+import { parseP4InfoOutput } from "../../../../lib/ztagUtils";
+import { withP4Session } from "../../../../lib/p4Session";
 
 // Constants for localStorage keys (matching the frontend)
 const EXCLUDED_FOLDERS_KEY = "perforceFriend_excludedFolders";
@@ -14,7 +13,7 @@ const EXCLUDED_FOLDERS_KEY = "perforceFriend_excludedFolders";
 async function detectClientRoot(currentPath?: string): Promise<string | null> {
     try {
         // Try P4CONFIG first
-        const { stdout } = await execAsync("p4 set P4CONFIG");
+        const stdout = executeP4Command(["set", "P4CONFIG"]);
         const p4configMatch = stdout.match(/P4CONFIG=(.*?)(?:\s|$)/);
 
         if (p4configMatch && p4configMatch[1]) {
@@ -59,14 +58,8 @@ async function detectClientRoot(currentPath?: string): Promise<string | null> {
         }
 
         // If P4CONFIG method fails, try using p4 info
-        const { stdout: infoStdout } = await execAsync("p4 info");
-        const clientRootMatch = infoStdout.match(/Client root: (.*?)(?:\r?\n|$)/);
-
-        if (clientRootMatch && clientRootMatch[1]) {
-            return clientRootMatch[1];
-        }
-
-        return null;
+        const infoStdout = executeP4Command(["-ztag", "info"]);
+        return parseP4InfoOutput(infoStdout).clientRoot || null;
     } catch (error) {
         console.error("Error detecting client root:", error);
         return null;
@@ -140,7 +133,7 @@ async function listDirectoriesRecursive(dir: string, excludedFolders: string[],
     }
 }
 
-export async function GET(req: NextRequest) {
+export const GET = withP4Session(async function GET(req: NextRequest) {
     try {
         // Get the directory path from query parameter, or use the detected client root
         const directoryParam = req.nextUrl.searchParams.get("directory");
@@ -186,9 +179,9 @@ export async function GET(req: NextRequest) {
         console.error("Error in directories API:", error);
         return NextResponse.json({ error: "Failed to list directories", details: error instanceof Error ? error.message : String(error) }, { status: 500 });
     }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withP4Session(async function POST(request: NextRequest) {
     try {
         const { path: dirPath } = await request.json();
 
@@ -252,4 +245,4 @@ export async function POST(request: NextRequest) {
             { status: 500 },
         );
     }
-}
+});
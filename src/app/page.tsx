@@ -10,13 +10,22 @@ import { P4Service } from '../lib/p4Service';
 import { P4CheckedOutFile, P4ModifiedFile } from '../types/p4';
 import { useLocalStorage } from '@/lib/useLocalStorage';
 import { initP4CommandLogger, logP4CommandFromAPI } from '../lib/p4CommandLogger';
+import { initP4SessionHeader, P4_LOGIN_REQUIRED_EVENT } from '../lib/p4SessionHeader';
 import path from 'path-browserify';
 import { ModifiedFile } from '@/types/modifiedFiles';
 import AppLayout from '@/components/AppLayout';
+import LoginDialog from '@/components/LoginDialog';
+import ConnectionProfileSwitcher from '@/components/ConnectionProfileSwitcher';
+import ConnectionProfilesDialog from '@/components/ConnectionProfilesDialog';
+import { activateConnectionProfile, getActiveProfileId, getConnectionProfiles } from '@/lib/connectionProfiles';
+import { P4ConnectionProfile } from '@/types/p4';
 
 // Constants for localStorage keys
 const INCLUSION_FOLDERS_KEY = 'perforceFriend_inclusionFolders';
 
+// How often to check whether the session's ticket is still valid
+const LOGIN_CHECK_INTERVAL = 5 * 60 * 1000;
+
 export default function Home() {
   const [isConnecting, setIsConnecting] = useState(false);
   const [isLoadingFiles, setIsLoadingFiles] = useState(false);
@@ -45,6 +54,11 @@ export default function Home() {
     details: {} as Partial<P4Config>
   });
   const [runScanOnLoad, setRunScanOnLoad] = useState<boolean>(false);
+  const [isLoginRequired, setIsLoginRequired] = useState(false);
+  const [profiles, setProfiles] = useState<P4ConnectionProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [showProfilesDialog, setShowProfilesDialog] = useState(false);
+  const [isSwitchingProfile, setIsSwitchingProfile] = useState(false);
   const hasProcessedArrayRef = useRef(false);
 
   // Track elapsed time when loading modified files
@@ -417,6 +431,88 @@ export default function Home() {
     return cleanup;
   }, []);
 
+  // Send this tab's session with API requests
+  useEffect(() => {
+    const cleanup = initP4SessionHeader();
+    return cleanup;
+  }, []);
+
+  // Ask for the password again when the ticket expires, found by a failed request or a periodic 'p4 login -s'
+  useEffect(() => {
+    if (!connectionStatus.isConnected) return;
+
+    const handleLoginRequired = () => setIsLoginRequired(true);
+    const checkLogin = async () => {
+      const { loginRequired } = await P4Service.getInstance().checkLogin();
+      if (loginRequired) {
+        setIsLoginRequired(true);
+      }
+    };
+
+    window.addEventListener(P4_LOGIN_REQUIRED_EVENT, handleLoginRequired);
+    window.addEventListener('focus', checkLogin);
+    const intervalId = setInterval(checkLogin, LOGIN_CHECK_INTERVAL);
+
+    return () => {
+      window.removeEventListener(P4_LOGIN_REQUIRED_EVENT, handleLoginRequired);
+      window.removeEventListener('focus', checkLogin);
+      clearInterval(intervalId);
+    };
+  }, [connectionStatus.isConnected]);
+
+  // Load the saved connection profiles
+  useEffect(() => {
+    setProfiles(getConnectionProfiles());
+    setActiveProfileId(getActiveProfileId());
+  }, []);
+
+  // Connect with a profile, then reload so every view picks up the profile's settings
+  const handleSwitchProfile = async (profileId: string) => {
+    const profile = getConnectionProfiles().find(candidate => candidate.id === profileId);
+    if (!profile) return;
+
+    setIsSwitchingProfile(true);
+
+    // Without a password the server's existing ticket is used, the login dialog asks for one if it's needed
+    const result = await P4Service.getInstance().connect({
+      port: profile.port,
+      user: profile.user,
+      client: profile.client,
+      charset: profile.charset,
+      clientRoot: profile.clientRoot,
+      password: ''
+    });
+
+    // The profile's settings only replace the current ones once it's connected
+    if (result.success) {
+      activateConnectionProfile(profileId);
+      window.location.reload();
+      return;
+    }
+
+    setConnectionStatus({
+      isConnected: false,
+      message: `Failed to connect with ${profile.name}: ${result.message}`,
+      details: {}
+    });
+    setIsSwitchingProfile(false);
+  };
+
+  // Log in again with the current connection, keeping the page as it is
+  const handleLogin = async (password: string) => {
+    const result = await P4Service.getInstance().login(password);
+
+    if (result.success) {
+      setConnectionStatus(prevStatus => ({
+        ...prevStatus,
+        isConnected: true,
+        message: result.message
+      }));
+    }
+
+    return result;
+  };
+
   // Function to add a new inclusion folder
   const handleAddInclusionFolder = (folder?: string) => {
     // Allow the folder to be passed from DirectoryBrowser's onSelect
@@ -491,27 +587,22 @@ export default function Home() {
     setIsConnecting(true);
     try {
       const p4Service = P4Service.getInstance();
-      const status = p4Service.getConnectionStatus();
 
-      if (!status.isConnected) {
-        // Try to reconnect
-        await p4Service.reconnect();
-        // Get updated status
-        const updatedStatus = p4Service.getConnectionStatus();
-        setConnectionStatus({
-          isConnected: updatedStatus.isConnected,
-          message: updatedStatus.isConnected
-            ? 'Connected to Perforce server'
-            : 'Not connected to Perforce server',
-          details: updatedStatus.details
-        });
-      } else {
-        setConnectionStatus({
-          isConnected: true,
-          message: 'Connected to Perforce server',
-          details: status.details
-        });
+      // Restore this tab's server-side session, a stored connection the server no longer has needs a login
+      const result = await p4Service.reconnect();
+      if (result.loginRequired) {
+        setIsLoginRequired(true);
       }
+
+      // Get updated status
+      const updatedStatus = p4Service.getConnectionStatus();
+      setConnectionStatus({
+        isConnected: updatedStatus.isConnected,
+        message: updatedStatus.isConnected
+          ? 'Connected to Perforce server'
+          : 'Not connected to Perforce server',
+        details: updatedStatus.details
+      });
     } catch (error) {
       setConnectionStatus({
         isConnected: false,
@@ -526,11 +617,18 @@ export default function Home() {
   return (
     <main className="min-h-screen">
       {/* Connection status header */}
-      <div className={`py-1 px-4 text-sm ${connectionStatus.isConnected
+      <div className={`flex justify-between items-center py-1 px-4 text-sm ${connectionStatus.isConnected
         ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
         : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
         }`}>
-        {connectionStatus.message}
+        <span>{connectionStatus.message}</span>
+        <ConnectionProfileSwitcher
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          isSwitching={isSwitchingProfile}
+          onSwitch={handleSwitchProfile}
+          onManage={() => setShowProfilesDialog(true)}
+        />
       </div>
 
       {/* Main content */}
@@ -541,6 +639,14 @@ export default function Home() {
           <div className="p-4 bg-white dark:bg-gray-800 shadow rounded max-w-md w-full">
             <h2 className="text-xl font-semibold mb-4">Perforce Connection Required</h2>
             <p className="mb-4">Please ensure your Perforce server is running and properly configured.</p>
+            <div className="mb-4">
+              <P4ConnectionForm
+                key={activeProfileId || 'none'}
+                initialConfig={profiles.find(profile => profile.id === activeProfileId)}
+                onConnect={handleConnect}
+                isLoading={isConnecting}
+              />
+            </div>
             <button
               onClick={checkConnection}
               className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
@@ -551,6 +657,26 @@ export default function Home() {
           </div>
         </div>
       )}
+
+      <ConnectionProfilesDialog
+        isOpen={showProfilesDialog}
+        profiles={profiles}
+        activeProfileId={activeProfileId}
+        currentConnection={connectionStatus.details}
+        onProfilesChange={updatedProfiles => {
+          setProfiles(updatedProfiles);
+          setActiveProfileId(getActiveProfileId());
+        }}
+        onClose={() => setShowProfilesDialog(false)}
+      />
+
+      <LoginDialog
+        isOpen={isLoginRequired}
+        port={connectionStatus.details.port}
+        user={connectionStatus.details.user}
+        onLogin={handleLogin}
+        onClose={() => setIsLoginRequired(false)}
+      />
     </main>
   );
 } 
\ No newline at end of file
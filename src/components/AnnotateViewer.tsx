@@ -0,0 +1,154 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { P4AnnotatedLine } from '../types/p4';
+import ChangeDetailsView from './ChangeDetailsView';
+
+interface AnnotateViewerProps {
+    // Depot file to annotate, optionally with a revision (//depot/file.txt#3), null when closed
+    file: string | null;
+    onClose: () => void;
+}
+
+// Height of a line in pixels, every row has the same height so only visible rows are rendered
+const ROW_HEIGHT = 20;
+
+// Rows rendered above and below the visible area to avoid flicker while scrolling
+const OVERSCAN_ROWS = 30;
+
+export default function AnnotateViewer({ file, onClose }: AnnotateViewerProps) {
+    const [lines, setLines] = useState<P4AnnotatedLine[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [openChange, setOpenChange] = useState<string | null>(null);
+
+    // Scroll position and height of the line container, used to pick the rows to render
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(600);
+
+    // Load the annotated lines when a new file is set
+    useEffect(() => {
+        if (!file) return;
+
+        const loadAnnotations = async () => {
+            setIsLoading(true);
+            setError(null);
+            setLines([]);
+            setOpenChange(null);
+            setScrollTop(0);
+            try {
+                const response = await fetch(`/api/p4/files/annotate?file=${encodeURIComponent(file)}`);
+                const data = await response.json();
+
+                if (!response.ok) {
+                    setError(data.details || data.error || 'Failed to annotate file');
+                    return;
+                }
+
+                setLines(data.lines || []);
+            } catch (error) {
+                console.error('Error annotating file:', error);
+                setError('Failed to annotate file');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadAnnotations();
+    }, [file]);
+
+    // Track the height of the line container as the window is resized
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const updateHeight = () => setViewportHeight(container.clientHeight);
+        updateHeight();
+
+        window.addEventListener('resize', updateHeight);
+        return () => window.removeEventListener('resize', updateHeight);
+    }, [file, isLoading]);
+
+    // Lines that start a new block of the same change show its details, like most blame views
+    const blockStarts = useMemo(() => lines.map((line, index) => index === 0 || lines[index - 1].change !== line.change), [lines]);
+
+    if (!file) {
+        return null;
+    }
+
+    const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+    const lastRow = Math.min(lines.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+    const lineNumberDigits = String(lines.length).length;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={(e) => e.stopPropagation()}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-11/12 h-5/6 flex flex-col overflow-hidden text-gray-900 dark:text-gray-100">
+                <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold truncate">Annotate</h2>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={file}>
+                            {file}{lines.length > 0 && ` · ${lines.length} lines`}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-gray-100">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                    <div
+                        ref={containerRef}
+                        className="flex-1 overflow-auto font-mono text-xs bg-white dark:bg-gray-900"
+                        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                    >
+                        {isLoading ? (
+                            <div className="p-8 text-center font-sans text-sm animate-pulse">Annotating file...</div>
+                        ) : error ? (
+                            <div className="p-8 text-center font-sans text-sm text-red-600 dark:text-red-400 whitespace-pre-wrap">{error}</div>
+                        ) : (
+                            <div style={{ height: lines.length * ROW_HEIGHT, position: 'relative' }}>
+                                {lines.slice(firstRow, lastRow).map((line, offset) => {
+                                    const index = firstRow + offset;
+                                    return (
+                                        <div
+                                            key={index}
+                                            className={`absolute left-0 right-0 flex whitespace-pre ${line.change === openChange ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''} ${blockStarts[index] ? 'border-t border-gray-100 dark:border-gray-800' : ''}`}
+                                            style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}
+                                        >
+                                            <span className="w-64 shrink-0 px-2 overflow-hidden text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700">
+                                                {blockStarts[index] && line.change && (
+                                                    <>
+                                                        <button
+                                                            onClick={() => setOpenChange(line.change)}
+                                                            className="text-blue-600 hover:underline dark:text-blue-400"
+                                                            title="Show the full change"
+                                                        >
+                                                            {line.change}
+                                                        </button>
+                                                        {` ${line.user} ${line.date}`}
+                                                    </>
+                                                )}
+                                            </span>
+                                            <span className="shrink-0 px-2 text-right text-gray-400 select-none" style={{ width: `calc(${lineNumberDigits}ch + 1rem)` }}>
+                                                {index + 1}
+                                            </span>
+                                            <span className="pr-4">{line.text || ' '}</span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+
+                    {openChange && (
+                        <div className="w-96 shrink-0 overflow-y-auto border-l border-gray-200 dark:border-gray-700">
+                            <ChangeDetailsView change={openChange} onBack={() => setOpenChange(null)} backLabel="Close" />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { useLocalStorage } from '@/lib/useLocalStorage';
 import FolderTreeView from './FolderTreeView';
 import TabView from './TabView';
+import SyncDialog from './SyncDialog';
+import JobsTray from './JobsTray';
 import { getSelectedFolders, getClientRoot, saveClientRoot } from '@/lib/storageUtils';
 import { P4Service } from '@/lib/p4Service';
 
@@ -10,7 +12,10 @@ const INCLUSION_FOLDERS_KEY = 'perforceFriend_inclusionFolders';
 export default function AppLayout() {
     const [inclusionFoldersString, setInclusionFoldersString] = useLocalStorage<string>(INCLUSION_FOLDERS_KEY, '');
     const [inclusionFolders, setInclusionFolders] = useState<string[]>([]);
-    const [activeTab, setActiveTab] = useState<'checkedOut' | 'changed'>('changed');
+    const [activeTab, setActiveTab] = useState<'checkedOut' | 'changed' | 'shelves'>('changed');
+
+    // Folder being synced, null for the whole workspace, undefined when the sync dialog is closed
+    const [syncPath, setSyncPath] = useState<string | null | undefined>(undefined);
 
     // Parse inclusion folders from localStorage on mount
     useEffect(() => {
@@ -74,6 +79,7 @@ export default function AppLayout() {
                 <FolderTreeView
                     selectedFolders={inclusionFolders}
                     onSelectFolder={handleInclusionFoldersChange}
+                    onSyncFolder={setSyncPath}
                 />
             </div>
 
@@ -86,6 +92,12 @@ export default function AppLayout() {
                     onInclusionFoldersChange={handleInclusionFoldersChange}
                 />
             </div>
+
+            {syncPath !== undefined && (
+                <SyncDialog path={syncPath} onClose={() => setSyncPath(undefined)} />
+            )}
+
+            <JobsTray />
         </div>
     );
 } 
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { ReactNode } from 'react';
+
+interface BulkActionBarProps {
+    selectedCount: number;
+    // Number of files matching the current filter, across all pages
+    matchingCount: number;
+    onSelectAll: () => void;
+    onClear: () => void;
+    children: ReactNode;
+}
+
+export default function BulkActionBar({ selectedCount, matchingCount, onSelectAll, onClear, children }: BulkActionBarProps) {
+    if (selectedCount === 0) {
+        return null;
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 px-3 py-2 mb-2 text-sm border rounded-sm bg-blue-50 border-blue-200 dark:bg-blue-900/20 dark:border-blue-800">
+            <span className="font-medium text-blue-800 dark:text-blue-200">{selectedCount} selected</span>
+            {selectedCount < matchingCount && (
+                <button onClick={onSelectAll} className="text-blue-600 hover:underline dark:text-blue-400">
+                    Select all {matchingCount} matching filter
+                </button>
+            )}
+            <button onClick={onClear} className="text-gray-600 hover:underline dark:text-gray-400">
+                Clear selection
+            </button>
+            <div className="flex flex-wrap items-center gap-2 ml-auto">
+                {children}
+            </div>
+        </div>
+    );
+}
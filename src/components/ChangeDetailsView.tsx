@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { P4ChangeDetails, P4ChangeFile } from '../types/p4';
+
+interface ChangeDetailsViewProps {
+    change: string;
+    onBack: () => void;
+    backLabel?: string;
+    // List the shelved files of the change instead of its submitted or opened files
+    shelved?: boolean;
+    // Shows a diff link for each file when set
+    onDiffFile?: (file: P4ChangeFile) => void;
+}
+
+// Colors of file action labels
+export const getActionColor = (action: string): string => {
+    if (action.includes('add') || action === 'branch') return 'text-green-700 dark:text-green-400';
+    if (action.includes('delete')) return 'text-red-700 dark:text-red-400';
+    if (action.includes('integrate') || action === 'copy' || action === 'merge') return 'text-purple-700 dark:text-purple-400';
+    return 'text-blue-700 dark:text-blue-400';
+};
+
+/**
+ * Full description and files of a change, loaded with 'p4 describe'
+ */
+export default function ChangeDetailsView({ change, onBack, backLabel = 'Back', shelved = false, onDiffFile }: ChangeDetailsViewProps) {
+    const [details, setDetails] = useState<P4ChangeDetails | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const loadChange = async () => {
+            setIsLoading(true);
+            setError(null);
+            setDetails(null);
+            try {
+                const response = await fetch(`/api/p4/changes/${change}${shelved ? '?shelved=1' : ''}`);
+                const data = await response.json();
+
+                if (!response.ok) {
+                    setError(data.details || data.error || `Failed to describe change ${change}`);
+                    return;
+                }
+
+                setDetails(data.change);
+            } catch (error) {
+                console.error('Error describing change:', error);
+                setError(`Failed to describe change ${change}`);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadChange();
+    }, [change, shelved]);
+
+    return (
+        <div className="px-4 py-3 text-sm space-y-3">
+            <button
+                onClick={onBack}
+                className="inline-flex items-center text-blue-600 hover:underline dark:text-blue-400"
+            >
+                <ArrowLeftIcon className="w-4 h-4 mr-1" />
+                {backLabel}
+            </button>
+
+            {isLoading && <div className="p-8 text-center animate-pulse">Loading change {change}...</div>}
+
+            {error && (
+                <div className="px-4 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 whitespace-pre-wrap">{error}</div>
+            )}
+
+            {details && (
+                <>
+                    <div>
+                        <h3 className="text-lg font-semibold">Change {details.change}</h3>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {details.user}@{details.client} · {details.date ? new Date(details.date).toLocaleString() : ''} · {details.status}
+                        </div>
+                    </div>
+                    <p className="whitespace-pre-wrap text-gray-800 dark:text-gray-200">{details.description}</p>
+                    <div>
+                        <h4 className="mb-1 text-xs font-medium uppercase text-gray-500 dark:text-gray-400">{shelved ? 'Shelved files' : 'Files'} ({details.files.length})</h4>
+                        <ul className="space-y-0.5 text-xs font-mono">
+                            {details.files.map(changeFile => (
+                                <li key={changeFile.depotFile} className="truncate" title={changeFile.depotFile}>
+                                    {onDiffFile && (
+                                        <button
+                                            onClick={() => onDiffFile(changeFile)}
+                                            className="mr-2 font-sans text-purple-600 hover:underline dark:text-purple-400"
+                                            title="Show the changes of this file"
+                                        >
+                                            diff
+                                        </button>
+                                    )}
+                                    <span className={getActionColor(changeFile.action)}>{changeFile.action}</span> {changeFile.depotFile}#{changeFile.rev}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
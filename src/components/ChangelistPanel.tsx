@@ -0,0 +1,481 @@
+import { useState } from 'react';
+import { PencilSquareIcon, TrashIcon, PlusIcon, ArrowUpTrayIcon, ArchiveBoxArrowDownIcon, ArchiveBoxXMarkIcon, ArchiveBoxIcon } from '@heroicons/react/24/outline';
+import { P4Changelist, P4CheckedOutFile } from '@/types/p4';
+import { P4_FILES_DRAG_TYPE } from './CheckedOutFilesList';
+import SubmitDialog from './SubmitDialog';
+
+interface ChangelistPanelProps {
+    changelists: P4Changelist[];
+    files: P4CheckedOutFile[];
+    isLoading: boolean;
+    error?: string;
+    onChanged: () => void;
+    onDropFiles?: (depotFiles: string[], change: string) => void;
+}
+
+// Get the first line of a changelist description for compact display
+const getDescriptionSummary = (description: string): string => {
+    const firstLine = description.split('\n')[0].trim();
+    return firstLine || '(no description)';
+};
+
+export default function ChangelistPanel({ changelists, files, isLoading, error, onChanged, onDropFiles }: ChangelistPanelProps) {
+    const [isCreating, setIsCreating] = useState(false);
+    const [newDescription, setNewDescription] = useState('');
+    const [editingChange, setEditingChange] = useState<string | null>(null);
+    const [editDescription, setEditDescription] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [dragOverChange, setDragOverChange] = useState<string | null>(null);
+    const [submittingChangelist, setSubmittingChangelist] = useState<P4Changelist | null>(null);
+    const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+    // Unshelve form: shelved change to unshelve and the pending changelist to open its files in
+    const [isUnshelving, setIsUnshelving] = useState(false);
+    const [unshelveChange, setUnshelveChange] = useState('');
+    const [unshelveTarget, setUnshelveTarget] = useState('default');
+    const [unshelveDescription, setUnshelveDescription] = useState('');
+
+    // Count opened files per changelist
+    const getFileCount = (change: string) => files.filter(file => file.change === change).length;
+
+    // Drag and drop handlers so files dragged from the file table can be dropped on a changelist
+    const getDropHandlers = (change: string) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!onDropFiles) return;
+            e.preventDefault();
+            setDragOverChange(change);
+        },
+        onDragLeave: () => setDragOverChange(null),
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            setDragOverChange(null);
+
+            const data = e.dataTransfer.getData(P4_FILES_DRAG_TYPE);
+            if (!data || !onDropFiles) return;
+
+            // Skip files that are already in the target changelist
+            const depotFiles = (JSON.parse(data) as string[]).filter(depotFile =>
+                files.some(file => file.depotFile === depotFile && file.change !== change)
+            );
+
+            if (depotFiles.length > 0) {
+                onDropFiles(depotFiles, change);
+            }
+        },
+    });
+
+    // Get the highlight class for a changelist that files are dragged over
+    const getDropClass = (change: string) => dragOverChange === change ? 'bg-blue-100 dark:bg-blue-900' : '';
+
+    // Create a new pending changelist
+    const handleCreate = async () => {
+        if (!newDescription.trim()) return;
+
+        setIsBusy(true);
+        setActionError(null);
+        try {
+            const response = await fetch('/api/p4/changes', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ description: newDescription }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setActionError(data.details || data.error || 'Failed to create changelist');
+                return;
+            }
+
+            setNewDescription('');
+            setIsCreating(false);
+            onChanged();
+        } catch (error) {
+            console.error('Error creating changelist:', error);
+            setActionError('Failed to create changelist');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    // Start editing a changelist description
+    const startEditing = (changelist: P4Changelist) => {
+        setEditingChange(changelist.change);
+        setEditDescription(changelist.description);
+        setActionError(null);
+    };
+
+    // Save the edited description
+    const handleSaveDescription = async () => {
+        if (!editingChange || !editDescription.trim()) return;
+
+        setIsBusy(true);
+        setActionError(null);
+        try {
+            const response = await fetch(`/api/p4/changes/${editingChange}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ description: editDescription }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setActionError(data.details || data.error || 'Failed to update changelist');
+                return;
+            }
+
+            setEditingChange(null);
+            onChanged();
+        } catch (error) {
+            console.error('Error updating changelist:', error);
+            setActionError('Failed to update changelist');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    // Delete an empty changelist
+    const handleDelete = async (change: string) => {
+        if (!confirm(`Delete changelist ${change}?`)) return;
+
+        setIsBusy(true);
+        setActionError(null);
+        try {
+            const response = await fetch(`/api/p4/changes/${change}`, { method: 'DELETE' });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setActionError(data.error || 'Failed to delete changelist');
+                return;
+            }
+
+            onChanged();
+        } catch (error) {
+            console.error('Error deleting changelist:', error);
+            setActionError('Failed to delete changelist');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    // Shelve the opened files of a changelist, an existing shelf is replaced with the opened files
+    const handleShelve = async (changelist: P4Changelist) => {
+        if (changelist.shelved && !confirm(`Update the shelf of changelist ${changelist.change}? Shelved files that are no longer opened in it are removed from the shelf.`)) return;
+
+        setIsBusy(true);
+        setActionError(null);
+        setActionMessage(null);
+        try {
+            const response = await fetch(`/api/p4/changes/${changelist.change}/shelve`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ replace: !!changelist.shelved }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setActionError(data.details || data.error || 'Failed to shelve files');
+                return;
+            }
+
+            setActionMessage(data.message);
+            onChanged();
+        } catch (error) {
+            console.error('Error shelving files:', error);
+            setActionError('Failed to shelve files');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    // Delete the shelved files of a changelist, the opened files are left alone
+    const handleDeleteShelf = async (change: string) => {
+        if (!confirm(`Delete the shelved files of changelist ${change}? Files opened in your workspace are not affected.`)) return;
+
+        setIsBusy(true);
+        setActionError(null);
+        setActionMessage(null);
+        try {
+            const response = await fetch(`/api/p4/changes/${change}/shelve`, { method: 'DELETE' });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setActionError(data.details || data.error || 'Failed to delete shelf');
+                return;
+            }
+
+            setActionMessage(data.message);
+            onChanged();
+        } catch (error) {
+            console.error('Error deleting shelf:', error);
+            setActionError('Failed to delete shelf');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    // Unshelve a shelved change, possibly someone else's, into one of our pending changelists
+    const handleUnshelve = async () => {
+        const change = unshelveChange.trim();
+        if (!/^\d+$/.test(change)) return;
+        if (unshelveTarget === 'new' && !unshelveDescription.trim()) return;
+
+        setIsBusy(true);
+        setActionError(null);
+        setActionMessage(null);
+        try {
+            const response = await fetch(`/api/p4/changes/${change}/unshelve`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ targetChange: unshelveTarget, description: unshelveDescription }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setActionError(data.details || data.error || 'Failed to unshelve files');
+                return;
+            }
+
+            setActionMessage(data.message);
+            setIsUnshelving(false);
+            setUnshelveChange('');
+            setUnshelveDescription('');
+            onChanged();
+        } catch (error) {
+            console.error('Error unshelving files:', error);
+            setActionError('Failed to unshelve files');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="mb-6 border rounded-lg dark:border-gray-700">
+            <div className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-800 rounded-t-lg">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Pending Changelists</h3>
+                <div className="flex space-x-2">
+                    <button
+                        onClick={() => setIsUnshelving(!isUnshelving)}
+                        className="inline-flex items-center px-2 py-1 text-xs bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        title="Open the files of a shelved change in your workspace"
+                    >
+                        <ArchiveBoxIcon className="w-3.5 h-3.5 mr-1" />
+                        Unshelve
+                    </button>
+                    <button
+                        onClick={() => setIsCreating(!isCreating)}
+                        className="inline-flex items-center px-2 py-1 text-xs bg-blue-500 text-white rounded-sm hover:bg-blue-600"
+                    >
+                        <PlusIcon className="w-3.5 h-3.5 mr-1" />
+                        New Changelist
+                    </button>
+                </div>
+            </div>
+
+            {(error || actionError) && (
+                <div className="px-4 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">
+                    {actionError || error}
+                </div>
+            )}
+
+            {actionMessage && !actionError && (
+                <div className="px-4 py-2 text-sm text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-900/20">
+                    {actionMessage}
+                </div>
+            )}
+
+            {isUnshelving && (
+                <div className="px-4 py-3 border-b dark:border-gray-700 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <label htmlFor="unshelveChange" className="text-gray-600 dark:text-gray-400">Shelved change:</label>
+                        <input
+                            id="unshelveChange"
+                            value={unshelveChange}
+                            onChange={(e) => setUnshelveChange(e.target.value)}
+                            placeholder="e.g. 12345"
+                            className="w-28 px-2 py-1 text-sm border rounded-sm dark:bg-gray-800 dark:border-gray-700"
+                        />
+                        <label htmlFor="unshelveTarget" className="text-gray-600 dark:text-gray-400">into</label>
+                        <select
+                            id="unshelveTarget"
+                            value={unshelveTarget}
+                            onChange={(e) => setUnshelveTarget(e.target.value)}
+                            className="border border-gray-300 dark:border-gray-700 rounded-sm px-2 py-1 text-sm bg-white dark:bg-gray-800 dark:text-gray-200"
+                        >
+                            <option value="default">Default changelist</option>
+                            {changelists.map(changelist => (
+                                <option key={changelist.change} value={changelist.change}>
+                                    {changelist.change} - {getDescriptionSummary(changelist.description)}
+                                </option>
+                            ))}
+                            <option value="new">New changelist…</option>
+                        </select>
+                    </div>
+                    {unshelveTarget === 'new' && (
+                        <textarea
+                            value={unshelveDescription}
+                            onChange={(e) => setUnshelveDescription(e.target.value)}
+                            placeholder="Description of the new changelist..."
+                            rows={2}
+                            className="w-full px-3 py-2 text-sm border rounded-sm dark:bg-gray-800 dark:border-gray-700"
+                        />
+                    )}
+                    <div className="flex justify-end space-x-2">
+                        <button
+                            onClick={() => setIsUnshelving(false)}
+                            className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleUnshelve}
+                            disabled={isBusy || !/^\d+$/.test(unshelveChange.trim()) || (unshelveTarget === 'new' && !unshelveDescription.trim())}
+                            className="px-3 py-1 text-sm bg-blue-500 text-white rounded-sm hover:bg-blue-600 disabled:opacity-50"
+                        >
+                            Unshelve
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {isCreating && (
+                <div className="px-4 py-3 border-b dark:border-gray-700">
+                    <textarea
+                        value={newDescription}
+                        onChange={(e) => setNewDescription(e.target.value)}
+                        placeholder="Changelist description..."
+                        rows={3}
+                        className="w-full px-3 py-2 text-sm border rounded-sm dark:bg-gray-800 dark:border-gray-700"
+                    />
+                    <div className="flex justify-end mt-2 space-x-2">
+                        <button
+                            onClick={() => setIsCreating(false)}
+                            className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleCreate}
+                            disabled={isBusy || !newDescription.trim()}
+                            className="px-3 py-1 text-sm bg-blue-500 text-white rounded-sm hover:bg-blue-600 disabled:opacity-50"
+                        >
+                            Create
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="px-4 py-3 text-sm text-gray-500 animate-pulse">Loading changelists...</div>
+            ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    <li className={`flex items-center justify-between px-4 py-2 text-sm ${getDropClass('default')}`} {...getDropHandlers('default')}>
+                        <span className="font-medium text-gray-900 dark:text-white">Default changelist</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{getFileCount('default')} file(s)</span>
+                    </li>
+                    {changelists.map(changelist => {
+                        const fileCount = getFileCount(changelist.change);
+
+                        return (
+                            <li
+                                key={changelist.change}
+                                className={`px-4 py-2 text-sm ${getDropClass(changelist.change)}`}
+                                {...getDropHandlers(changelist.change)}
+                            >
+                                {editingChange === changelist.change ? (
+                                    <div>
+                                        <textarea
+                                            value={editDescription}
+                                            onChange={(e) => setEditDescription(e.target.value)}
+                                            rows={3}
+                                            className="w-full px-3 py-2 text-sm border rounded-sm dark:bg-gray-800 dark:border-gray-700"
+                                        />
+                                        <div className="flex justify-end mt-2 space-x-2">
+                                            <button
+                                                onClick={() => setEditingChange(null)}
+                                                className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                                            >
+                                                Cancel
+                                            </button>
+                                            <button
+                                                onClick={handleSaveDescription}
+                                                disabled={isBusy || !editDescription.trim()}
+                                                className="px-3 py-1 text-sm bg-blue-500 text-white rounded-sm hover:bg-blue-600 disabled:opacity-50"
+                                            >
+                                                Save
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex flex-col min-w-0">
+                                            <span className="font-medium text-gray-900 dark:text-white">
+                                                Changelist {changelist.change}
+                                                {changelist.shelved && (
+                                                    <span className="ml-2 px-1.5 py-0.5 text-xs font-normal rounded bg-indigo-100 text-indigo-800 dark:bg-indigo-800 dark:text-indigo-100">shelved</span>
+                                                )}
+                                            </span>
+                                            <span className="text-xs text-gray-500 dark:text-gray-400 truncate" title={changelist.description}>
+                                                {getDescriptionSummary(changelist.description)}
+                                            </span>
+                                        </div>
+                                        <div className="flex items-center space-x-3 ml-4">
+                                            <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{fileCount} file(s)</span>
+                                            <button
+                                                onClick={() => setSubmittingChangelist(changelist)}
+                                                disabled={fileCount === 0}
+                                                className="text-gray-500 hover:text-green-600 dark:text-gray-400 dark:hover:text-green-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                                title={fileCount === 0 ? 'No files to submit' : 'Submit changelist'}
+                                            >
+                                                <ArrowUpTrayIcon className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleShelve(changelist)}
+                                                disabled={isBusy || fileCount === 0}
+                                                className="text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                                title={fileCount === 0 ? 'No files to shelve' : changelist.shelved ? 'Update shelf with the opened files' : 'Shelve all files'}
+                                            >
+                                                <ArchiveBoxArrowDownIcon className="w-4 h-4" />
+                                            </button>
+                                            {changelist.shelved && (
+                                                <button
+                                                    onClick={() => handleDeleteShelf(changelist.change)}
+                                                    disabled={isBusy}
+                                                    className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 disabled:opacity-30"
+                                                    title="Delete shelf"
+                                                >
+                                                    <ArchiveBoxXMarkIcon className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => startEditing(changelist)}
+                                                className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                                                title="Edit description"
+                                            >
+                                                <PencilSquareIcon className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(changelist.change)}
+                                                disabled={isBusy || fileCount > 0}
+                                                className="text-red-500 hover:text-red-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                                                title={fileCount > 0 ? 'Only empty changelists can be deleted' : 'Delete changelist'}
+                                            >
+                                                <TrashIcon className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <SubmitDialog
+                changelist={submittingChangelist}
+                onClose={() => setSubmittingChangelist(null)}
+                onSubmitted={onChanged}
+            />
+        </div>
+    );
+}
@@ -1,13 +1,26 @@
-import { useState, useMemo, useEffect } from 'react';
-import { P4CheckedOutFile } from '../types/p4';
+import { useState, useMemo, useEffect, Fragment } from 'react';
+import { P4Changelist, P4CheckedOutFile, P4PendingResolve, P4ResolveMode, P4RevertMode } from '../types/p4';
 import useLocalStorage from '../lib/useLocalStorage';
+import useFileSelection from '../lib/useFileSelection';
+import useOpenedByOthers from '../lib/useOpenedByOthers';
 import Pagination from './Pagination';
 import ItemsPerPageSelector from './ItemsPerPageSelector';
+import DiffViewer, { DiffTarget } from './DiffViewer';
+import BulkActionBar from './BulkActionBar';
+import HistoryDrawer from './HistoryDrawer';
+import AnnotateViewer from './AnnotateViewer';
+import MergeEditor from './MergeEditor';
+import OpenedByOthersBadge from './OpenedByOthersBadge';
+import OutOfDateBadge from './OutOfDateBadge';
+import { isOutOfDate } from '../lib/useFileRevisions';
 
 // Constants for localStorage
 const ITEMS_PER_PAGE_KEY = 'perforceFriend_checkedOutItemsPerPage';
 const SORT_SETTINGS_KEY = 'perforceFriend_checkedOutSortSettings';
 
+// Drag and drop data type used to move files between changelists
+export const P4_FILES_DRAG_TYPE = 'application/x-perforce-files';
+
 // Define available sort columns
 type SortColumn = 'depotFile' | 'action' | 'rev' | 'change' | 'clientFile';
 type SortDirection = 'asc' | 'desc';
@@ -22,11 +35,73 @@ type CheckedOutFilesListProps = {
   files: P4CheckedOutFile[];
   isLoading: boolean;
   error?: string;
+  changelists?: P4Changelist[];
+  onMoveFiles?: (depotFiles: string[], change: string, description?: string) => void;
+  onRevertFiles?: (depotFiles: string[], mode: P4RevertMode) => void;
+  pendingResolves?: P4PendingResolve[];
+  onResolveFiles?: (depotFiles: string[], mode: P4ResolveMode) => void;
+  onMerged?: () => void;
+  onShelveFiles?: (depotFiles: string[]) => void;
+  onSyncFiles?: (depotFiles: string[]) => void;
+};
+
+// Confirmation shown before each kind of revert
+const REVERT_CONFIRMATIONS: Record<P4RevertMode, string> = {
+  all: 'Revert {count} file(s) and discard their local changes? A backup is kept under "Recently Reverted".',
+  unchanged: 'Revert {count} file(s) if they have no changes?',
+  keep: 'Revert {count} file(s) but keep their local content?',
 };
 
-export default function CheckedOutFilesList({ files, isLoading, error }: CheckedOutFilesListProps) {
+// Order changelists with the default changelist first, then by number
+const compareChanges = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (a === 'default') return -1;
+  if (b === 'default') return 1;
+  return parseInt(a, 10) - parseInt(b, 10);
+};
+
+export default function CheckedOutFilesList({
+  files,
+  isLoading,
+  error,
+  changelists = [],
+  onMoveFiles,
+  onRevertFiles,
+  pendingResolves = [],
+  onResolveFiles,
+  onMerged,
+  onShelveFiles,
+  onSyncFiles
+}: CheckedOutFilesListProps) {
   const [filterAction, setFilterAction] = useState<string>('all');
 
+  // Files being synced to their head revision
+  const [syncingFiles, setSyncingFiles] = useState<string[]>([]);
+
+  // Changelist group currently dragged over
+  const [dragOverChange, setDragOverChange] = useState<string | null>(null);
+
+  // File shown in the diff viewer
+  const [diffTarget, setDiffTarget] = useState<DiffTarget | null>(null);
+
+  // File shown in the history drawer
+  const [historyFile, setHistoryFile] = useState<string | null>(null);
+
+  // File shown in the annotate view
+  const [annotateFile, setAnnotateFile] = useState<string | null>(null);
+
+  // File being merged in the merge editor
+  const [mergeResolve, setMergeResolve] = useState<P4PendingResolve | null>(null);
+
+  // Pending resolves of each opened file, by depot path
+  const resolvesByFile = useMemo(() => {
+    const map: Record<string, P4PendingResolve[]> = {};
+    pendingResolves.forEach(resolve => {
+      map[resolve.depotFile] = [...(map[resolve.depotFile] || []), resolve];
+    });
+    return map;
+  }, [pendingResolves]);
+
   // Sort state with direction
   const [sortSettings, setSortSettings] = useLocalStorage<SortSettings>(SORT_SETTINGS_KEY, {
     column: 'depotFile',
@@ -44,14 +119,23 @@ export default function CheckedOutFilesList({ files, isLoading, error }: Checked
 
   // Filter files by action
   const filteredFiles = useMemo(() => {
+    if (filterAction === 'needsResolve') {
+      return files.filter(file => resolvesByFile[file.depotFile]);
+    }
+    if (filterAction === 'outOfDate') {
+      return files.filter(file => isOutOfDate(file));
+    }
     return filterAction === 'all'
       ? files
       : files.filter(file => file.action === filterAction);
-  }, [files, filterAction]);
+  }, [files, filterAction, resolvesByFile]);
 
-  // Sort files
+  // Sort files, keeping files of the same changelist together
   const sortedFiles = useMemo(() => {
     return [...filteredFiles].sort((a, b) => {
+      const changeResult = compareChanges(a.change, b.change);
+      if (changeResult !== 0) return changeResult;
+
       let compareResult = 0;
 
       switch (sortSettings.column) {
@@ -79,6 +163,16 @@ export default function CheckedOutFilesList({ files, isLoading, error }: Checked
     });
   }, [filteredFiles, sortSettings]);
 
+  // Selected files (by depot path), limited to files matching the filter
+  const sortedKeys = useMemo(() => sortedFiles.map(file => file.depotFile), [sortedFiles]);
+  const selection = useFileSelection(sortedKeys);
+  const selectedFiles = selection.selectedKeys;
+
+  // Clear the selection when the file list is reloaded
+  useEffect(() => {
+    selection.clear();
+  }, [files]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Calculate pagination
   const totalPages = Math.ceil(sortedFiles.length / itemsPerPage);
   const paginatedFiles = useMemo(() => {
@@ -86,6 +180,9 @@ export default function CheckedOutFilesList({ files, isLoading, error }: Checked
     return sortedFiles.slice(startIndex, startIndex + itemsPerPage);
   }, [sortedFiles, currentPage, itemsPerPage]);
 
+  // Who else has the files of the current page open
+  const openedByOthers = useOpenedByOthers(paginatedFiles.filter(file => file.action !== 'add').map(file => file.depotFile), files);
+
   // Toggle sort column and direction
   const toggleSort = (column: SortColumn) => {
     setSortSettings(prevSettings => {
@@ -127,6 +224,95 @@ export default function CheckedOutFilesList({ files, isLoading, error }: Checked
     setCurrentPage(1); // Reset to first page when changing items per page
   };
 
+  // Count of filtered files per changelist, shown in the group headers
+  const changeFileCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    filteredFiles.forEach(file => {
+      counts[file.change] = (counts[file.change] || 0) + 1;
+    });
+    return counts;
+  }, [filteredFiles]);
+
+  // Get the header label for a changelist group
+  const getChangelistLabel = (change: string) => {
+    if (change === 'default') return 'Default changelist';
+
+    const changelist = changelists.find(cl => cl.change === change);
+    const summary = changelist ? changelist.description.split('\n')[0].trim() : '';
+    return summary ? `Changelist ${change} - ${summary}` : `Changelist ${change}`;
+  };
+
+  // Select or deselect all files on the current page
+  const allOnPageSelected = paginatedFiles.length > 0 && paginatedFiles.every(file => selection.isSelected(file.depotFile));
+  const togglePageSelection = () => {
+    selection.setMany(paginatedFiles.map(file => file.depotFile), !allOnPageSelected);
+  };
+
+  // Move the selected files to a changelist, creating a new one if requested
+  const handleMoveSelected = (target: string) => {
+    if (!target || !onMoveFiles || selectedFiles.length === 0) return;
+
+    const depotFiles = selectedFiles;
+    if (target === 'new') {
+      const description = prompt('Description for the new changelist:');
+      if (!description || !description.trim()) return;
+      onMoveFiles(depotFiles, 'new', description);
+    } else {
+      onMoveFiles(depotFiles, target);
+    }
+  };
+
+  // Sync opened files to head, p4 schedules a resolve for each of them
+  const handleSync = async (depotFiles: string[]) => {
+    if (!onSyncFiles || depotFiles.length === 0) return;
+    setSyncingFiles(depotFiles);
+    try {
+      await onSyncFiles(depotFiles);
+    } finally {
+      setSyncingFiles([]);
+    }
+  };
+
+  // Revert files after confirming, since a full revert discards local changes
+  const handleRevert = (depotFiles: string[], mode: P4RevertMode) => {
+    if (!onRevertFiles || depotFiles.length === 0) return;
+    if (!confirm(REVERT_CONFIRMATIONS[mode].replace('{count}', String(depotFiles.length)))) return;
+    onRevertFiles(depotFiles, mode);
+  };
+
+  // Resolve files automatically, accepting theirs or yours discards the other side's changes
+  const handleResolve = (depotFiles: string[], mode: P4ResolveMode) => {
+    if (!onResolveFiles || depotFiles.length === 0) return;
+    if (mode !== 'merge' && !confirm(`Resolve ${depotFiles.length} file(s) by accepting ${mode}? The changes of the other side are dropped.`)) return;
+    onResolveFiles(depotFiles, mode);
+  };
+
+  // Start dragging a row - drags the whole selection if the row is part of it
+  const handleDragStart = (file: P4CheckedOutFile, event: React.DragEvent) => {
+    const depotFiles = selection.isSelected(file.depotFile) ? selectedFiles : [file.depotFile];
+    event.dataTransfer.setData(P4_FILES_DRAG_TYPE, JSON.stringify(depotFiles));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  // Drop dragged files onto a changelist group
+  const handleDropOnChange = (change: string, event: React.DragEvent) => {
+    event.preventDefault();
+    setDragOverChange(null);
+
+    const data = event.dataTransfer.getData(P4_FILES_DRAG_TYPE);
+    if (!data || !onMoveFiles) return;
+
+    // Only move files that are not already in the target changelist
+    const depotFiles = (JSON.parse(data) as string[]).filter(depotFile => {
+      const file = files.find(f => f.depotFile === depotFile);
+      return file && file.change !== change;
+    });
+
+    if (depotFiles.length > 0) {
+      onMoveFiles(depotFiles, change);
+    }
+  };
+
   // Get unique actions for filter
   const uniqueActions = Array.from(new Set(files.map(file => file.action)));
 
@@ -309,6 +495,8 @@ export default function CheckedOutFilesList({ files, isLoading, error }: Checked
                 <option value="delete">Delete</option>
                 <option value="branch">Branch</option>
                 <option value="integrate">Integrate</option>
+                <option value="needsResolve">Needs resolve</option>
+                <option value="outOfDate">Out of date</option>
               </select>
             </div>
           </div>
@@ -320,6 +508,91 @@ export default function CheckedOutFilesList({ files, isLoading, error }: Checked
             />
           </div>
         </div>
+        {pendingResolves.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-2 p-2 mb-4 text-sm border rounded border-orange-300 bg-orange-50 text-orange-800 dark:border-orange-700 dark:bg-orange-900/20 dark:text-orange-200">
+            <span>
+              {Object.keys(resolvesByFile).length} file(s) must be resolved before they can be submitted.
+              <button onClick={() => setFilterAction('needsResolve')} className="ml-2 underline">Show them</button>
+            </span>
+            {onResolveFiles && (
+              <button
+                onClick={() => handleResolve(Object.keys(resolvesByFile), 'merge')}
+                className="px-2 py-1 text-xs text-white bg-orange-600 rounded hover:bg-orange-700"
+                title="Merge every file without conflicts, files with conflicts are skipped"
+              >
+                Auto-merge all safe files
+              </button>
+            )}
+          </div>
+        )}
+        {(onMoveFiles || onRevertFiles || onShelveFiles || onSyncFiles) && (
+          <BulkActionBar
+            selectedCount={selectedFiles.length}
+            matchingCount={sortedFiles.length}
+            onSelectAll={selection.selectAll}
+            onClear={selection.clear}
+          >
+            {onMoveFiles && (
+              <select
+                value=""
+                onChange={(e) => handleMoveSelected(e.target.value)}
+                className="border border-gray-300 dark:border-gray-700 rounded-sm px-2 py-1 text-sm bg-white dark:bg-gray-800 dark:text-gray-200"
+              >
+                <option value="" disabled>Move to changelist…</option>
+                <option value="default">Default changelist</option>
+                {changelists.map(changelist => (
+                  <option key={changelist.change} value={changelist.change}>
+                    {getChangelistLabel(changelist.change)}
+                  </option>
+                ))}
+                <option value="new">New changelist…</option>
+              </select>
+            )}
+            {onRevertFiles && (
+              <select
+                value=""
+                onChange={(e) => handleRevert(selectedFiles, e.target.value as P4RevertMode)}
+                className="border border-gray-300 dark:border-gray-700 rounded-sm px-2 py-1 text-sm bg-white dark:bg-gray-800 dark:text-gray-200"
+              >
+                <option value="" disabled>Revert…</option>
+                <option value="all">Revert (discard changes)</option>
+                <option value="unchanged">Revert if unchanged</option>
+                <option value="keep">Revert, keep local content</option>
+              </select>
+            )}
+            {onShelveFiles && (
+              <button
+                onClick={() => onShelveFiles(selectedFiles)}
+                className="px-3 py-1 text-sm bg-indigo-500 text-white rounded-sm hover:bg-indigo-600"
+                title="Shelve the selected files in their changelists"
+              >
+                Shelve selected
+              </button>
+            )}
+            {onSyncFiles && selectedFiles.some(depotFile => isOutOfDate(files.find(file => file.depotFile === depotFile))) && (
+              <button
+                onClick={() => handleSync(selectedFiles.filter(depotFile => isOutOfDate(files.find(file => file.depotFile === depotFile))))}
+                disabled={syncingFiles.length > 0}
+                className="px-3 py-1 text-sm bg-orange-500 text-white rounded-sm hover:bg-orange-600 disabled:opacity-50"
+                title="Sync the out of date selected files to head and schedule resolves"
+              >
+                Sync out of date
+              </button>
+            )}
+            {onResolveFiles && selectedFiles.some(depotFile => resolvesByFile[depotFile]) && (
+              <select
+                value=""
+                onChange={(e) => handleResolve(selectedFiles.filter(depotFile => resolvesByFile[depotFile]), e.target.value as P4ResolveMode)}
+                className="border border-gray-300 dark:border-gray-700 rounded-sm px-2 py-1 text-sm bg-white dark:bg-gray-800 dark:text-gray-200"
+              >
+                <option value="" disabled>Resolve…</option>
+                <option value="merge">Auto-merge (skip conflicts)</option>
+                <option value="theirs">Accept theirs</option>
+                <option value="yours">Accept yours</option>
+              </select>
+            )}
+          </BulkActionBar>
+        )}
       </>
     );
   };
@@ -361,6 +634,14 @@ export default function CheckedOutFilesList({ files, isLoading, error }: Checked
             <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
               <thead className="bg-gray-50 dark:bg-gray-800">
                 <tr>
+                  <th className="pl-6 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={allOnPageSelected}
+                      onChange={togglePageSelection}
+                      title="Select all files on this page"
+                    />
+                  </th>
                   <th
                     className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer"
                     onClick={() => toggleSort('depotFile')}
@@ -394,67 +675,161 @@ export default function CheckedOutFilesList({ files, isLoading, error }: Checked
               </thead>
               <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
                 {paginatedFiles.map((file, index) => (
-                  <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-800">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex flex-col">
-                        <span className="text-sm font-medium text-gray-900 dark:text-white">
-                          {getFileName(file.depotFile)}
+                  <Fragment key={index}>
+                    {(index === 0 || paginatedFiles[index - 1].change !== file.change) && (
+                      <tr
+                        className={dragOverChange === file.change ? 'bg-blue-100 dark:bg-blue-900' : 'bg-gray-100 dark:bg-gray-800'}
+                        onDragOver={(e) => {
+                          e.preventDefault();
+                          setDragOverChange(file.change);
+                        }}
+                        onDragLeave={() => setDragOverChange(null)}
+                        onDrop={(e) => handleDropOnChange(file.change, e)}
+                      >
+                        <td colSpan={6} className="px-6 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                          {getChangelistLabel(file.change)}
+                          <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                            ({changeFileCounts[file.change] || 0} file{changeFileCounts[file.change] !== 1 ? 's' : ''})
+                          </span>
+                        </td>
+                      </tr>
+                    )}
+                    <tr
+                      className={`hover:bg-gray-50 dark:hover:bg-gray-800 ${selection.isSelected(file.depotFile) ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                      draggable={!!onMoveFiles}
+                      onDragStart={(e) => handleDragStart(file, e)}
+                    >
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selection.isSelected(file.depotFile)}
+                          onChange={(e) => selection.toggle(file.depotFile, (e.nativeEvent as MouseEvent).shiftKey)}
+                          title="Shift-click to select a range"
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex flex-col">
+                          <span className="text-sm font-medium text-gray-900 dark:text-white">
+                            {getFileName(file.depotFile)}
+                          </span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatDepotPath(file.depotFile)}
+                          </span>
+                          <OpenedByOthersBadge info={openedByOthers[file.depotFile]} />
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getActionColor(file.action)}`}>
+                          {file.action}
                         </span>
-                        <span className="text-xs text-gray-500 dark:text-gray-400">
-                          {formatDepotPath(file.depotFile)}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getActionColor(file.action)}`}>
-                        {file.action}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {file.rev}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      <div className="flex items-center group">
-                        <span className="truncate max-w-xs" title={file.clientFile}>
-                          {formatLocalPath(file.clientFile || '')}
-                        </span>
-                        {file.clientFile && (
-                          <button
-                            onClick={(e) => copyPathToClipboard(file.clientFile || '', e)}
-                            className="ml-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity"
-                            title="Copy path to clipboard"
+                        {resolvesByFile[file.depotFile] && (
+                          <span
+                            className="ml-1 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800 dark:bg-orange-800 dark:text-orange-100"
+                            title={resolvesByFile[file.depotFile].map(resolve => `${resolve.resolveType} resolve from ${resolve.fromFile}#${resolve.endFromRev}`).join('\n')}
                           >
-                            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                            </svg>
-                          </button>
+                            needs resolve
+                          </span>
                         )}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                      <div className="flex space-x-2">
-                        {isFileOpenable(file) ? (
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        <div className="flex flex-col">
+                          <span>{file.rev}</span>
+                          <OutOfDateBadge
+                            haveRev={file.haveRev}
+                            headRev={file.headRev}
+                            headAction={file.headAction}
+                            headChange={file.headChange}
+                            onSync={onSyncFiles ? () => handleSync([file.depotFile]) : undefined}
+                            isSyncing={syncingFiles.includes(file.depotFile)}
+                          />
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        <div className="flex items-center group">
+                          <span className="truncate max-w-xs" title={file.clientFile}>
+                            {formatLocalPath(file.clientFile || '')}
+                          </span>
+                          {file.clientFile && (
+                            <button
+                              onClick={(e) => copyPathToClipboard(file.clientFile || '', e)}
+                              className="ml-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                              title="Copy path to clipboard"
+                            >
+                              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                              </svg>
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <div className="flex space-x-2">
                           <button
-                            onClick={() => handleOpenFile(file)}
-                            className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
-                            title="Open file"
+                            onClick={() => setDiffTarget({ depotFile: file.depotFile })}
+                            className="text-purple-600 hover:text-purple-900 dark:text-purple-400 dark:hover:text-purple-300"
+                            title="Show changes against the have revision"
                           >
-                            Open
+                            Diff
                           </button>
-                        ) : (
-                          !file.clientFile && (
+                          {file.action !== 'add' && (
                             <button
-                              onClick={() => handleResolveFilePath(file)}
-                              className="text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300"
-                              title="Resolve local path"
+                              onClick={() => setHistoryFile(file.depotFile)}
+                              className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+                              title="Show file history"
                             >
-                              Resolve Path
+                              History
                             </button>
-                          )
-                        )}
-                      </div>
-                    </td>
-                  </tr>
+                          )}
+                          {file.action !== 'add' && (
+                            <button
+                              onClick={() => setAnnotateFile(`${file.depotFile}#have`)}
+                              className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+                              title="Show who last changed each line"
+                            >
+                              Annotate
+                            </button>
+                          )}
+                          {resolvesByFile[file.depotFile]?.some(resolve => resolve.resolveType === 'content' && (!resolve.contentResolveType || resolve.contentResolveType.includes('text'))) && (
+                            <button
+                              onClick={() => setMergeResolve(resolvesByFile[file.depotFile].find(resolve => resolve.resolveType === 'content') || null)}
+                              className="text-orange-600 hover:text-orange-900 dark:text-orange-400 dark:hover:text-orange-300"
+                              title="Merge theirs and yours in the merge editor"
+                            >
+                              Merge
+                            </button>
+                          )}
+                          {onRevertFiles && (
+                            <button
+                              onClick={() => handleRevert([file.depotFile], 'all')}
+                              className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                              title="Revert and discard local changes (a backup is kept)"
+                            >
+                              Revert
+                            </button>
+                          )}
+                          {isFileOpenable(file) ? (
+                            <button
+                              onClick={() => handleOpenFile(file)}
+                              className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                              title="Open file"
+                            >
+                              Open
+                            </button>
+                          ) : (
+                            !file.clientFile && (
+                              <button
+                                onClick={() => handleResolveFilePath(file)}
+                                className="text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300"
+                                title="Resolve local path"
+                              >
+                                Resolve Path
+                              </button>
+                            )
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  </Fragment>
                 ))}
               </tbody>
             </table>
@@ -470,6 +845,11 @@ export default function CheckedOutFilesList({ files, isLoading, error }: Checked
           </div>
         </>
       )}
+
+      <DiffViewer target={diffTarget} onClose={() => setDiffTarget(null)} />
+      <HistoryDrawer file={historyFile} onClose={() => setHistoryFile(null)} />
+      <AnnotateViewer file={annotateFile} onClose={() => setAnnotateFile(null)} />
+      <MergeEditor resolve={mergeResolve} onClose={() => setMergeResolve(null)} onResolved={() => onMerged?.()} />
     </div>
   );
 } 
\ No newline at end of file
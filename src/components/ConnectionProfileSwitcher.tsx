@@ -0,0 +1,47 @@
+'use client';
+
+import { Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { P4ConnectionProfile } from '../types/p4';
+
+interface ConnectionProfileSwitcherProps {
+    profiles: P4ConnectionProfile[];
+    activeProfileId: string | null;
+    isSwitching?: boolean;
+    onSwitch: (profileId: string) => void;
+    onManage: () => void;
+}
+
+// Picks the saved connection to use, shown in the connection status header
+export default function ConnectionProfileSwitcher({ profiles, activeProfileId, isSwitching = false, onSwitch, onManage }: ConnectionProfileSwitcherProps) {
+    const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+    return (
+        <div className="flex items-center space-x-2">
+            {profiles.length > 0 && (
+                <select
+                    value={activeProfile ? activeProfile.id : ''}
+                    onChange={(e) => e.target.value && onSwitch(e.target.value)}
+                    disabled={isSwitching}
+                    title={activeProfile ? `${activeProfile.user}@${activeProfile.port}${activeProfile.client ? ` (${activeProfile.client})` : ''}` : 'Switch connection'}
+                    className="px-2 py-0.5 text-xs border rounded-sm bg-white text-gray-800 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600 disabled:opacity-50"
+                >
+                    {!activeProfile && <option value="">Select a connection...</option>}
+                    {profiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>
+                            {profile.name}
+                        </option>
+                    ))}
+                </select>
+            )}
+            {isSwitching && <span className="text-xs animate-pulse">Switching...</span>}
+            <button
+                onClick={onManage}
+                className="flex items-center text-xs hover:underline"
+                title="Manage connection profiles"
+            >
+                <Cog6ToothIcon className="w-4 h-4 mr-1" />
+                Profiles
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, useRef, ChangeEvent, FormEvent } from 'react';
+import { PencilSquareIcon, TrashIcon, PlusIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { P4ConnectionProfile } from '../types/p4';
+import { P4Config } from './P4ConnectionForm';
+import { createProfileId, deleteConnectionProfile, exportConnectionProfiles, getConnectionProfiles, importConnectionProfiles, saveConnectionProfile } from '@/lib/connectionProfiles';
+
+interface ConnectionProfilesDialogProps {
+    isOpen: boolean;
+    profiles: P4ConnectionProfile[];
+    activeProfileId: string | null;
+    // Used to fill in a new profile
+    currentConnection: Partial<P4Config>;
+    onProfilesChange: (profiles: P4ConnectionProfile[]) => void;
+    onClose: () => void;
+}
+
+// Fields edited in the form, the per-profile settings are kept as they are
+type ProfileDraft = Pick<P4ConnectionProfile, 'id' | 'name' | 'port' | 'user' | 'client' | 'charset' | 'clientRoot'>;
+
+const PROFILE_FIELDS: { name: keyof Omit<ProfileDraft, 'id'>; label: string; placeholder: string; required?: boolean }[] = [
+    { name: 'name', label: 'Name', placeholder: 'e.g. Main server', required: true },
+    { name: 'port', label: 'Perforce Server (host:port)', placeholder: 'perforce:1666', required: true },
+    { name: 'user', label: 'Username', placeholder: 'username', required: true },
+    { name: 'client', label: 'Workspace (Client) Name', placeholder: 'Optional' },
+    { name: 'charset', label: 'Character Set', placeholder: 'Optional, e.g. utf8 for unicode servers' },
+    { name: 'clientRoot', label: 'Client Root Override', placeholder: 'Optional, the root from p4 info is used otherwise' },
+];
+
+export default function ConnectionProfilesDialog({ isOpen, profiles, activeProfileId, currentConnection, onProfilesChange, onClose }: ConnectionProfilesDialogProps) {
+    const [draft, setDraft] = useState<ProfileDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const handleAdd = () => {
+        setError(null);
+        setMessage(null);
+        setDraft({
+            id: createProfileId(),
+            name: '',
+            port: currentConnection.port || '',
+            user: currentConnection.user || '',
+            client: currentConnection.client || '',
+            charset: currentConnection.charset || '',
+            clientRoot: '',
+        });
+    };
+
+    const handleEdit = (profile: P4ConnectionProfile) => {
+        setError(null);
+        setMessage(null);
+        setDraft({
+            id: profile.id,
+            name: profile.name,
+            port: profile.port,
+            user: profile.user,
+            client: profile.client || '',
+            charset: profile.charset || '',
+            clientRoot: profile.clientRoot || '',
+        });
+    };
+
+    const handleDelete = (profile: P4ConnectionProfile) => {
+        if (!window.confirm(`Delete the connection profile "${profile.name}"?`)) {
+            return;
+        }
+
+        onProfilesChange(deleteConnectionProfile(profile.id));
+    };
+
+    const handleSave = (e: FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+
+        const name = draft.name.trim();
+        if (profiles.some(profile => profile.name === name && profile.id !== draft.id)) {
+            setError(`A profile named "${name}" already exists`);
+            return;
+        }
+
+        const existing = profiles.find(profile => profile.id === draft.id);
+        onProfilesChange(saveConnectionProfile({
+            id: draft.id,
+            name,
+            port: draft.port.trim(),
+            user: draft.user.trim(),
+            client: draft.client?.trim() || undefined,
+            charset: draft.charset?.trim() || undefined,
+            clientRoot: draft.clientRoot?.trim() || undefined,
+            settings: existing ? existing.settings : {},
+        }));
+
+        setDraft(null);
+        setError(null);
+        setMessage(`Saved profile "${name}"`);
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportConnectionProfiles()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'perforce-friend-profiles.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Allow importing the same file again
+        e.target.value = '';
+        if (!file) return;
+
+        setError(null);
+        setMessage(null);
+        try {
+            const count = importConnectionProfiles(await file.text());
+            onProfilesChange(getConnectionProfiles());
+            setMessage(`Imported ${count} profile(s)`);
+        } catch (importError) {
+            setError(importError instanceof Error ? importError.message : 'Failed to import profiles');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden text-gray-900 dark:text-gray-100">
+                <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-2xl font-bold">Connection Profiles</h2>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-gray-100"
+                    >
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-4">
+                    {error && (
+                        <div className="p-4 text-red-600 border border-red-300 rounded bg-red-50 dark:bg-red-900/20 dark:text-red-400">
+                            {error}
+                        </div>
+                    )}
+                    {message && (
+                        <div className="p-4 text-green-800 border border-green-300 rounded bg-green-50 dark:bg-green-900/20 dark:text-green-200">
+                            {message}
+                        </div>
+                    )}
+
+                    {draft ? (
+                        <form onSubmit={handleSave} className="space-y-3">
+                            {PROFILE_FIELDS.map(field => (
+                                <div key={field.name}>
+                                    <label htmlFor={`profile-${field.name}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                        {field.label}
+                                    </label>
+                                    <input
+                                        id={`profile-${field.name}`}
+                                        type="text"
+                                        required={field.required}
+                                        value={draft[field.name] || ''}
+                                        onChange={(e) => setDraft({ ...draft, [field.name]: e.target.value })}
+                                        placeholder={field.placeholder}
+                                        className="w-full px-3 py-2 text-sm border rounded-sm dark:bg-gray-900 dark:border-gray-700"
+                                    />
+                                </div>
+                            ))}
+                            <div className="flex justify-end space-x-2">
+                                <button
+                                    type="button"
+                                    onClick={() => setDraft(null)}
+                                    className="px-4 py-2 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                                >
+                                    Save Profile
+                                </button>
+                            </div>
+                        </form>
+                    ) : profiles.length === 0 ? (
+                        <div className="p-4 text-center text-sm border rounded-sm text-gray-500 dark:text-gray-400">
+                            No saved profiles. Add one for each server and workspace you switch between.
+                        </div>
+                    ) : (
+                        <ul className="border rounded-sm divide-y divide-gray-200 dark:border-gray-700 dark:divide-gray-700">
+                            {profiles.map(profile => (
+                                <li key={profile.id} className="flex items-center px-3 py-2 text-sm">
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-medium">
+                                            {profile.name}
+                                            {profile.id === activeProfileId && (
+                                                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100">
+                                                    Active
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="truncate font-mono text-xs text-gray-500 dark:text-gray-400">
+                                            {profile.user}@{profile.port}{profile.client ? ` · ${profile.client}` : ''}{profile.charset ? ` · ${profile.charset}` : ''}
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={() => handleEdit(profile)}
+                                        className="p-1 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                                        title="Edit profile"
+                                    >
+                                        <PencilSquareIcon className="w-5 h-5" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(profile)}
+                                        className="p-1 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                                        title="Delete profile"
+                                    >
+                                        <TrashIcon className="w-5 h-5" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="flex justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+                    <div className="flex space-x-2">
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="flex items-center px-3 py-2 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        >
+                            <ArrowUpTrayIcon className="w-4 h-4 mr-1" />
+                            Import
+                        </button>
+                        <button
+                            onClick={handleExport}
+                            disabled={profiles.length === 0}
+                            className="flex items-center px-3 py-2 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+                            Export
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                    </div>
+                    {!draft && (
+                        <button
+                            onClick={handleAdd}
+                            className="flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                        >
+                            <PlusIcon className="w-4 h-4 mr-1" />
+                            Add Profile
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
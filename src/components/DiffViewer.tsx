@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect, useMemo, Fragment } from 'react';
+import { P4FileDiff } from '../types/p4';
+import { useLocalStorage } from '../lib/useLocalStorage';
+import { computeLineDiff, getDiffHunks, getIntralineRanges, toSideBySideRows, DiffLine } from '../lib/diffUtils';
+
+// Constants for localStorage
+const DIFF_VIEW_MODE_KEY = 'perforceFriend_diffViewMode';
+
+// Language names by file extension, shown in the header
+const LANGUAGES: Record<string, string> = {
+    ts: 'TypeScript', tsx: 'TypeScript', js: 'JavaScript', jsx: 'JavaScript', json: 'JSON',
+    cpp: 'C++', cc: 'C++', h: 'C/C++ Header', hpp: 'C++ Header', c: 'C', cs: 'C#',
+    py: 'Python', java: 'Java', go: 'Go', rs: 'Rust', ini: 'INI', xml: 'XML',
+    html: 'HTML', css: 'CSS', md: 'Markdown', yaml: 'YAML', yml: 'YAML', txt: 'Text',
+};
+
+export interface DiffTarget {
+    depotFile: string;
+    // Compare the file shelved in this change against the revision it was shelved from (rev)
+    shelvedChange?: string;
+    rev?: string;
+}
+
+interface DiffViewerProps {
+    target: DiffTarget | null;
+    onClose: () => void;
+}
+
+// Get the language name of a file from its extension
+const getLanguage = (path: string): string => {
+    const extension = path.split('.').pop()?.toLowerCase() || '';
+    return LANGUAGES[extension] || extension.toUpperCase() || 'Text';
+};
+
+// Render a line, highlighting the changed character range if any
+const renderLineText = (text: string, range: [number, number] | undefined, highlightClass: string) => {
+    if (!range || range[0] >= range[1]) {
+        return text || ' ';
+    }
+
+    return (
+        <>
+            {text.slice(0, range[0])}
+            <span className={highlightClass}>{text.slice(range[0], range[1])}</span>
+            {text.slice(range[1])}
+        </>
+    );
+};
+
+const LINE_CLASSES: Record<DiffLine['type'], string> = {
+    equal: '',
+    delete: 'bg-red-50 dark:bg-red-900/20',
+    insert: 'bg-green-50 dark:bg-green-900/20',
+};
+
+const HIGHLIGHT_CLASSES: Record<DiffLine['type'], string> = {
+    equal: '',
+    delete: 'bg-red-200 dark:bg-red-800',
+    insert: 'bg-green-200 dark:bg-green-800',
+};
+
+export default function DiffViewer({ target, onClose }: DiffViewerProps) {
+    const [diff, setDiff] = useState<P4FileDiff | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [viewMode, setViewMode] = useLocalStorage<'split' | 'unified'>(DIFF_VIEW_MODE_KEY, 'split');
+
+    // Load both versions of the file when a new target is set
+    useEffect(() => {
+        if (!target) return;
+
+        const loadDiff = async () => {
+            setIsLoading(true);
+            setError(null);
+            setDiff(null);
+            try {
+                const response = await fetch('/api/p4/files/diff', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(target),
+                });
+
+                const data = await response.json();
+                if (!response.ok) {
+                    setError(data.details || data.error || 'Failed to load diff');
+                    return;
+                }
+
+                setDiff(data.diff);
+            } catch (error) {
+                console.error('Error loading diff:', error);
+                setError('Failed to load diff');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadDiff();
+    }, [target]);
+
+    // Compute the diff hunks once the file contents are loaded
+    const hunks = useMemo(() => {
+        if (!diff || diff.isBinary || diff.isTooLarge) return [];
+        return getDiffHunks(computeLineDiff(diff.baseContent, diff.localContent));
+    }, [diff]);
+
+    // Changed character ranges of modified lines, keyed by the line object
+    const intralineRanges = useMemo(() => {
+        const ranges = new Map<DiffLine, [number, number]>();
+        hunks.forEach(hunk => {
+            toSideBySideRows(hunk.lines).forEach(row => {
+                if (row.left?.type === 'delete' && row.right?.type === 'insert') {
+                    const { oldRange, newRange } = getIntralineRanges(row.left.text, row.right.text);
+                    ranges.set(row.left, oldRange);
+                    ranges.set(row.right, newRange);
+                }
+            });
+        });
+        return ranges;
+    }, [hunks]);
+
+    if (!target) {
+        return null;
+    }
+
+    const renderHunkSeparator = (hiddenLines: number, colSpan: number) => (
+        hiddenLines > 0 && (
+            <tr className="bg-blue-50 dark:bg-gray-800 text-blue-700 dark:text-blue-300">
+                <td colSpan={colSpan} className="px-3 py-1 text-xs">⋯ {hiddenLines} unchanged line{hiddenLines !== 1 ? 's' : ''}</td>
+            </tr>
+        )
+    );
+
+    const numberCellClass = 'px-2 text-right text-gray-400 select-none align-top w-12';
+
+    const renderUnified = () => (
+        <table className="min-w-full font-mono text-xs">
+            <tbody>
+                {hunks.map((hunk, hunkIndex) => (
+                    <Fragment key={hunkIndex}>
+                        {renderHunkSeparator(hunk.hiddenBefore, 4)}
+                        {hunk.lines.map((line, lineIndex) => (
+                            <tr key={lineIndex} className={LINE_CLASSES[line.type]}>
+                                <td className={numberCellClass}>{line.oldNumber}</td>
+                                <td className={numberCellClass}>{line.newNumber}</td>
+                                <td className="px-1 select-none align-top w-4">{line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' '}</td>
+                                <td className="pr-3 whitespace-pre">{renderLineText(line.text, intralineRanges.get(line), HIGHLIGHT_CLASSES[line.type])}</td>
+                            </tr>
+                        ))}
+                    </Fragment>
+                ))}
+            </tbody>
+        </table>
+    );
+
+    const renderSplit = () => (
+        <table className="min-w-full font-mono text-xs table-fixed">
+            <tbody>
+                {hunks.map((hunk, hunkIndex) => (
+                    <Fragment key={hunkIndex}>
+                        {renderHunkSeparator(hunk.hiddenBefore, 4)}
+                        {toSideBySideRows(hunk.lines).map((row, rowIndex) => (
+                            <tr key={rowIndex}>
+                                <td className={`${numberCellClass} ${row.left ? LINE_CLASSES[row.left.type] : ''}`}>{row.left?.oldNumber}</td>
+                                <td className={`pr-3 whitespace-pre overflow-hidden border-r dark:border-gray-700 ${row.left ? LINE_CLASSES[row.left.type] : 'bg-gray-50 dark:bg-gray-800'}`}>
+                                    {row.left && renderLineText(row.left.text, intralineRanges.get(row.left), HIGHLIGHT_CLASSES[row.left.type])}
+                                </td>
+                                <td className={`${numberCellClass} ${row.right ? LINE_CLASSES[row.right.type] : ''}`}>{row.right?.newNumber}</td>
+                                <td className={`pr-3 whitespace-pre overflow-hidden ${row.right ? LINE_CLASSES[row.right.type] : 'bg-gray-50 dark:bg-gray-800'}`}>
+                                    {row.right && renderLineText(row.right.text, intralineRanges.get(row.right), HIGHLIGHT_CLASSES[row.right.type])}
+                                </td>
+                            </tr>
+                        ))}
+                    </Fragment>
+                ))}
+            </tbody>
+        </table>
+    );
+
+    const renderBody = () => {
+        if (isLoading) {
+            return <div className="p-8 text-center animate-pulse">Loading diff...</div>;
+        }
+
+        if (error) {
+            return <div className="p-8 text-center text-red-600 dark:text-red-400 whitespace-pre-wrap">{error}</div>;
+        }
+
+        if (!diff) {
+            return null;
+        }
+
+        if (diff.isBinary) {
+            return <div className="p-8 text-center text-gray-500 dark:text-gray-400">Binary file ({diff.type}) - no text diff available.</div>;
+        }
+
+        if (diff.isTooLarge) {
+            return <div className="p-8 text-center text-gray-500 dark:text-gray-400">File is too large to diff in the browser.</div>;
+        }
+
+        if (hunks.length === 0) {
+            return <div className="p-8 text-center text-gray-500 dark:text-gray-400">No differences from the have revision.</div>;
+        }
+
+        return viewMode === 'split' ? renderSplit() : renderUnified();
+    };
+
+    const fileName = target.depotFile.split('/').pop() || target.depotFile;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-11/12 h-5/6 flex flex-col overflow-hidden">
+                <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold text-gray-900 dark:text-white truncate">{fileName}</h2>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            {target.depotFile}{diff?.haveRev ? `#${diff.haveRev}` : ''} vs {target.shelvedChange ? `shelf ${target.shelvedChange}` : 'local'} · {getLanguage(fileName)}
+                        </p>
+                    </div>
+                    <div className="flex items-center space-x-2 ml-4">
+                        <div className="flex rounded-sm border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+                            <button
+                                onClick={() => setViewMode('split')}
+                                className={`px-3 py-1 ${viewMode === 'split' ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 dark:bg-gray-700 dark:text-gray-300'}`}
+                            >
+                                Side by side
+                            </button>
+                            <button
+                                onClick={() => setViewMode('unified')}
+                                className={`px-3 py-1 ${viewMode === 'unified' ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 dark:bg-gray-700 dark:text-gray-300'}`}
+                            >
+                                Unified
+                            </button>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-gray-100"
+                        >
+                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-auto bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+                    {renderBody()}
+                </div>
+            </div>
+        </div>
+    );
+}
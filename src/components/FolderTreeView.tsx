@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Tree, NodeApi, NodeRendererProps } from 'react-arborist';
-import { ChevronRightIcon, ChevronDownIcon, FolderIcon, FolderOpenIcon } from '@heroicons/react/24/outline';
+import { ChevronRightIcon, ChevronDownIcon, FolderIcon, FolderOpenIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
 import { saveClientRoot, getClientRoot, saveSelectedFolders, STORAGE_KEYS } from '@/lib/storageUtils';
 import { P4Service } from '@/lib/p4Service';
 import '../styles/TreeView.css';
@@ -20,9 +20,11 @@ interface TreeNode {
 interface FolderTreeViewProps {
     selectedFolders: string[];
     onSelectFolder: (folders: string[]) => void;
+    // Sync a folder to the latest revisions, null syncs the whole workspace
+    onSyncFolder?: (path: string | null) => void;
 }
 
-export default function FolderTreeView({ selectedFolders, onSelectFolder }: FolderTreeViewProps) {
+export default function FolderTreeView({ selectedFolders, onSelectFolder, onSyncFolder }: FolderTreeViewProps) {
     const [treeData, setTreeData] = useState<TreeNode[]>([]);
     const [clientRoot, setClientRoot] = useState<string>('');
     const [isLoading, setIsLoading] = useState(true);
@@ -475,6 +477,20 @@ export default function FolderTreeView({ selectedFolders, onSelectFolder }: Fold
                     <span className="text-sm">{data.name}</span>
                 </div>
 
+                {/* Sync button */}
+                {onSyncFolder && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onSyncFolder(data.path);
+                        }}
+                        className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 focus:outline-none"
+                        title="Get latest revisions of this folder"
+                    >
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                    </button>
+                )}
+
                 {/* Checkbox for inclusion */}
                 <label className="tree-node__checkbox flex items-center px-2 cursor-pointer" onClick={(e) => e.stopPropagation()}>
                     <input
@@ -486,7 +502,7 @@ export default function FolderTreeView({ selectedFolders, onSelectFolder }: Fold
                 </label>
             </div>
         );
-    }, [toggleFolderSelection]);
+    }, [toggleFolderSelection, onSyncFolder]);
 
     // Function to retry loading
     const handleRetry = () => {
@@ -505,13 +521,24 @@ export default function FolderTreeView({ selectedFolders, onSelectFolder }: Fold
         <div className="p-2 h-full overflow-auto">
             <div className="font-medium mb-3 p-2 bg-gray-100 dark:bg-gray-800 rounded flex justify-between items-center">
                 <span>Workspace Folders</span>
-                <button
-                    onClick={handleRetry}
-                    className="text-xs bg-blue-500 hover:bg-blue-600 text-white py-1 px-2 rounded"
-                    title="Reload folders"
-                >
-                    Reload
-                </button>
+                <div className="flex gap-1">
+                    {onSyncFolder && (
+                        <button
+                            onClick={() => onSyncFolder(null)}
+                            className="text-xs bg-green-600 hover:bg-green-700 text-white py-1 px-2 rounded"
+                            title="Get latest revisions of the whole workspace"
+                        >
+                            Sync
+                        </button>
+                    )}
+                    <button
+                        onClick={handleRetry}
+                        className="text-xs bg-blue-500 hover:bg-blue-600 text-white py-1 px-2 rounded"
+                        title="Reload folders"
+                    >
+                        Reload
+                    </button>
+                </div>
             </div>
 
             {isLoading ? (
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { P4FileRevision } from '../types/p4';
+import ChangeDetailsView, { getActionColor } from './ChangeDetailsView';
+import AnnotateViewer from './AnnotateViewer';
+
+interface HistoryDrawerProps {
+    // Depot path of the file to show the history of, null when closed
+    file: string | null;
+    onClose: () => void;
+}
+
+export default function HistoryDrawer({ file, onClose }: HistoryDrawerProps) {
+    const [revisions, setRevisions] = useState<P4FileRevision[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Change opened from a revision, shown instead of the revision list
+    const [openChange, setOpenChange] = useState<string | null>(null);
+
+    // Revision shown in the annotate view
+    const [annotateFile, setAnnotateFile] = useState<string | null>(null);
+
+    // Load the history when a new file is set
+    useEffect(() => {
+        if (!file) return;
+
+        const loadHistory = async () => {
+            setIsLoading(true);
+            setError(null);
+            setRevisions([]);
+            setOpenChange(null);
+            try {
+                const response = await fetch(`/api/p4/files/history?file=${encodeURIComponent(file)}`);
+                const data = await response.json();
+
+                if (!response.ok) {
+                    setError(data.details || data.error || 'Failed to load file history');
+                    return;
+                }
+
+                setRevisions(data.revisions || []);
+            } catch (error) {
+                console.error('Error loading file history:', error);
+                setError('Failed to load file history');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadHistory();
+    }, [file]);
+
+    if (!file) {
+        return null;
+    }
+
+    const renderRevisions = () => (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {revisions.map(revision => (
+                <li key={`${revision.depotFile}#${revision.rev}`} className="px-4 py-3 text-sm">
+                    <div className="flex items-baseline justify-between gap-2">
+                        <div className="flex items-baseline gap-2 min-w-0">
+                            <span className="font-mono font-semibold">#{revision.rev}</span>
+                            <button
+                                onClick={() => setOpenChange(revision.change)}
+                                className="text-blue-600 hover:underline dark:text-blue-400"
+                                title="Show the full change"
+                            >
+                                change {revision.change}
+                            </button>
+                            <span className={`text-xs font-medium ${getActionColor(revision.action)}`}>{revision.action}</span>
+                        </div>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{revision.date ? new Date(revision.date).toLocaleString() : ''}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {revision.user}@{revision.client} · {revision.type}
+                        {!revision.action.includes('delete') && (
+                            <button
+                                onClick={() => setAnnotateFile(`${revision.depotFile}#${revision.rev}`)}
+                                className="ml-2 text-blue-600 hover:underline dark:text-blue-400"
+                                title="Show who changed each line at this revision"
+                            >
+                                annotate
+                            </button>
+                        )}
+                    </div>
+                    {revision.description && (
+                        <p className="mt-1 whitespace-pre-wrap text-gray-800 dark:text-gray-200">{revision.description}</p>
+                    )}
+                    {revision.integrations.length > 0 && (
+                        <ul className="mt-1 space-y-0.5 text-xs text-purple-700 dark:text-purple-300">
+                            {revision.integrations.map((integration, index) => (
+                                <li key={index} className="font-mono truncate" title={integration.file}>
+                                    {integration.how} {integration.file}
+                                    {integration.endRev && `#${integration.startRev ? `${integration.startRev},#` : ''}${integration.endRev}`}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </li>
+            ))}
+        </ul>
+    );
+
+    return (
+        <div className="fixed inset-0 z-40 flex justify-end bg-black bg-opacity-30" onClick={onClose}>
+            <div
+                className="flex flex-col w-full max-w-xl h-full bg-white shadow-xl dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-start justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-bold truncate">History</h2>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={file}>{file}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-gray-100">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto">
+                    {error && (
+                        <div className="px-4 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 whitespace-pre-wrap">{error}</div>
+                    )}
+                    {isLoading ? (
+                        <div className="p-8 text-center animate-pulse">Loading...</div>
+                    ) : openChange ? (
+                        <ChangeDetailsView change={openChange} onBack={() => setOpenChange(null)} backLabel="Back to history" />
+                    ) : revisions.length === 0 && !error ? (
+                        <div className="p-8 text-center text-gray-500 dark:text-gray-400">No submitted revisions.</div>
+                    ) : (
+                        renderRevisions()
+                    )}
+                </div>
+            </div>
+
+            <AnnotateViewer file={annotateFile} onClose={() => setAnnotateFile(null)} />
+        </div>
+    );
+}
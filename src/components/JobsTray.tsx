@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronDownIcon, ChevronUpIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { P4Job, P4JobStatus } from '../types/p4';
+
+// How often jobs are polled while one is running, and otherwise
+const RUNNING_POLL_INTERVAL = 2000;
+const IDLE_POLL_INTERVAL = 10000;
+
+const JOB_TYPE_LABELS: Record<P4Job['type'], string> = {
+    reconcile: 'Scan',
+    sync: 'Sync',
+    checkout: 'Checkout',
+};
+
+const STATUS_COLORS: Record<P4JobStatus, string> = {
+    running: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200',
+    succeeded: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+    failed: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+    cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+};
+
+// Format a duration in ms as e.g. '2m 05s'
+const formatDuration = (ms: number): string => {
+    const seconds = Math.max(0, Math.round(ms / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+/**
+ * Running and recent long p4 operations (scans, syncs, bulk checkouts) of the session
+ * Shown in the corner of the page while there are jobs, running ones can be cancelled
+ */
+export default function JobsTray() {
+    const [jobs, setJobs] = useState<P4Job[]>([]);
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const runningCount = jobs.filter(job => job.status === 'running').length;
+    const hasRunningJobs = runningCount > 0;
+
+    const loadJobs = useCallback(async () => {
+        try {
+            const response = await fetch('/api/p4/jobs', { cache: 'no-store' });
+            const data = await response.json();
+
+            if (data.success) {
+                setJobs(data.jobs || []);
+            }
+        } catch (loadError) {
+            console.error('Error loading jobs:', loadError);
+        }
+    }, []);
+
+    // Poll faster while something is running so progress keeps moving
+    useEffect(() => {
+        loadJobs();
+        const intervalId = setInterval(loadJobs, hasRunningJobs ? RUNNING_POLL_INTERVAL : IDLE_POLL_INTERVAL);
+        return () => clearInterval(intervalId);
+    }, [loadJobs, hasRunningJobs]);
+
+    const handleCancel = async (job: P4Job) => {
+        setError(null);
+        try {
+            const response = await fetch(`/api/p4/jobs/${job.id}`, { method: 'DELETE' });
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                setError(data.error || 'Failed to cancel job');
+            }
+        } catch (cancelError) {
+            console.error('Error cancelling job:', cancelError);
+            setError('Failed to cancel job');
+        } finally {
+            loadJobs();
+        }
+    };
+
+    const handleClearFinished = async () => {
+        try {
+            const response = await fetch('/api/p4/jobs', { method: 'DELETE' });
+            const data = await response.json();
+            if (data.success) {
+                setJobs(data.jobs || []);
+            }
+        } catch (clearError) {
+            console.error('Error clearing jobs:', clearError);
+        }
+    };
+
+    if (jobs.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="fixed bottom-4 right-4 z-40 w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-gray-900 dark:text-gray-100">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="flex items-center justify-between w-full px-4 py-2 text-sm font-medium"
+            >
+                <span>
+                    Jobs
+                    {runningCount > 0 && <span className="ml-2 text-blue-600 dark:text-blue-400 animate-pulse">{runningCount} running</span>}
+                </span>
+                {isExpanded ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronUpIcon className="w-4 h-4" />}
+            </button>
+
+            {isExpanded && (
+                <div className="border-t border-gray-200 dark:border-gray-700">
+                    {error && <div className="px-4 py-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">{error}</div>}
+
+                    <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+                        {jobs.map(job => (
+                            <li key={job.id} className="px-4 py-2 text-xs">
+                                <div className="flex items-center">
+                                    <span className={`px-2 py-0.5 rounded-full ${STATUS_COLORS[job.status]}`}>{job.status}</span>
+                                    <span className="ml-2 font-medium">{JOB_TYPE_LABELS[job.type]}</span>
+                                    <span className="ml-1 flex-1 min-w-0 truncate font-mono text-gray-500 dark:text-gray-400" title={job.label}>{job.label}</span>
+                                    <span className="ml-2 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                                        {formatDuration((job.finishedAt || Date.now()) - job.startedAt)}
+                                    </span>
+                                    {job.status === 'running' && (
+                                        <button
+                                            onClick={() => handleCancel(job)}
+                                            className="ml-2 p-0.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                                            title="Cancel job"
+                                        >
+                                            <XMarkIcon className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                                {(job.status === 'running' ? job.progress : job.message) && (
+                                    <div className="mt-1 truncate text-gray-600 dark:text-gray-300" title={job.status === 'running' ? job.progress : job.message}>
+                                        {job.status === 'running' ? job.progress : job.message}
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+
+                    {jobs.length > runningCount && (
+                        <div className="flex justify-end px-4 py-2 border-t border-gray-200 dark:border-gray-700">
+                            <button onClick={handleClearFinished} className="text-xs hover:underline">
+                                Clear finished
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
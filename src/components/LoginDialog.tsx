@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+
+interface LoginDialogProps {
+    isOpen: boolean;
+    port?: string;
+    user?: string;
+    onLogin: (password: string) => Promise<{ success: boolean; message: string }>;
+    onClose: () => void;
+}
+
+// Asks for the password again when the session's ticket expired
+// Shown over the page so filters, selections and open panels are kept while logging in
+export default function LoginDialog({ isOpen, port, user, onLogin, onClose }: LoginDialogProps) {
+    const [password, setPassword] = useState('');
+    const [isLoggingIn, setIsLoggingIn] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!password) return;
+
+        setIsLoggingIn(true);
+        setError(null);
+        try {
+            const result = await onLogin(password);
+
+            if (!result.success) {
+                setError(result.message);
+                return;
+            }
+
+            setPassword('');
+            onClose();
+        } finally {
+            setIsLoggingIn(false);
+        }
+    };
+
+    if (!isOpen) {
+        return null;
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md flex flex-col overflow-hidden">
+                <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Perforce Login Required</h2>
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                        Your session expired. Enter the password for {user || 'your user'}{port ? ` on ${port}` : ''} to continue where you left off.
+                    </p>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    {error && (
+                        <div className="p-4 text-red-600 border border-red-300 rounded bg-red-50 dark:bg-red-900/20 dark:text-red-400">
+                            {error}
+                        </div>
+                    )}
+
+                    <div>
+                        <label htmlFor="loginPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Password
+                        </label>
+                        <input
+                            id="loginPassword"
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            autoFocus
+                            className="w-full px-3 py-2 text-sm border rounded-sm dark:bg-gray-900 dark:border-gray-700"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex justify-end p-4 space-x-2 border-t border-gray-200 dark:border-gray-700">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                    >
+                        Later
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!password || isLoggingIn}
+                        className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isLoggingIn ? 'Logging in...' : 'Log In'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
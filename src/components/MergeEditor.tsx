@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { XMarkIcon, ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { P4MergeFiles, P4PendingResolve } from '../types/p4';
+import { computeThreeWayMerge, getMergedLines, MergeChunk } from '../lib/mergeUtils';
+
+interface MergeEditorProps {
+    // File to merge, null when closed
+    resolve: P4PendingResolve | null;
+    onClose: () => void;
+    // Called after the merged file was saved and resolved
+    onResolved: () => void;
+}
+
+// Unchanged regions longer than this are collapsed to their first and last lines
+const STABLE_CONTEXT_LINES = 3;
+
+// Labels and colors of chunks merged without conflict
+const AUTO_CHUNK_STYLES: Record<string, { label: string; className: string }> = {
+    theirs: { label: 'From theirs', className: 'border-blue-400 bg-blue-50 dark:bg-blue-900/20' },
+    yours: { label: 'From yours', className: 'border-green-400 bg-green-50 dark:bg-green-900/20' },
+    both: { label: 'Same change in both', className: 'border-gray-400 bg-gray-50 dark:bg-gray-800' },
+};
+
+/**
+ * Three-way merge of a file needing resolve: base, theirs (the revision merged in) and yours (the workspace file)
+ * Changes of one side are taken automatically, conflicts are resolved one by one before saving
+ */
+export default function MergeEditor({ resolve, onClose, onResolved }: MergeEditorProps) {
+    const [mergeFiles, setMergeFiles] = useState<P4MergeFiles | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Result text of each conflict chunk, by chunk index
+    const [resolutions, setResolutions] = useState<Record<number, string>>({});
+
+    // Position in the list of conflicts, used by the previous/next buttons
+    const [currentConflict, setCurrentConflict] = useState(0);
+    const chunkRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+    // Load the three versions when a new file is set
+    useEffect(() => {
+        if (!resolve) return;
+
+        const loadMergeFiles = async () => {
+            setIsLoading(true);
+            setError(null);
+            setMergeFiles(null);
+            setResolutions({});
+            setCurrentConflict(0);
+            try {
+                const response = await fetch(`/api/p4/files/resolve/merge?file=${encodeURIComponent(resolve.localFile)}`);
+                const data = await response.json();
+
+                if (!response.ok) {
+                    setError(data.details || data.error || 'Failed to load the file versions');
+                    return;
+                }
+
+                setMergeFiles(data.merge);
+            } catch (error) {
+                console.error('Error loading files to merge:', error);
+                setError('Failed to load the file versions');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadMergeFiles();
+    }, [resolve]);
+
+    const chunks = useMemo<MergeChunk[]>(
+        () => (mergeFiles ? computeThreeWayMerge(mergeFiles.base, mergeFiles.theirs, mergeFiles.yours) : []),
+        [mergeFiles],
+    );
+
+    const conflictIndexes = useMemo(
+        () => chunks.map((chunk, index) => (chunk.type === 'conflict' ? index : -1)).filter(index => index >= 0),
+        [chunks],
+    );
+    const unresolvedCount = conflictIndexes.filter(index => resolutions[index] === undefined).length;
+
+    if (!resolve) {
+        return null;
+    }
+
+    const goToConflict = (position: number) => {
+        if (conflictIndexes.length === 0) return;
+        const wrapped = (position + conflictIndexes.length) % conflictIndexes.length;
+        setCurrentConflict(wrapped);
+        chunkRefs.current[conflictIndexes[wrapped]]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
+    const setResolution = (index: number, lines: string[]) => {
+        setResolutions(current => ({ ...current, [index]: lines.join('\n') }));
+    };
+
+    // Write the merged file with the line endings of the workspace file and mark it resolved
+    const handleSave = async () => {
+        if (!mergeFiles || unresolvedCount > 0) return;
+
+        const eol = mergeFiles.yours.includes('\r\n') ? '\r\n' : '\n';
+        const mergedLines = chunks.flatMap((chunk, index) =>
+            getMergedLines(chunk, resolutions[index] !== undefined ? resolutions[index].split('\n') : undefined),
+        );
+        const endsWithNewline = /\n$/.test(mergeFiles.yours || mergeFiles.theirs);
+        const content = mergedLines.join(eol) + (endsWithNewline && mergedLines.length > 0 ? eol : '');
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/p4/files/resolve/merge', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ file: resolve.localFile, content }),
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                setError(data.details || data.error || 'Failed to save the merged file');
+                return;
+            }
+
+            onResolved();
+            onClose();
+        } catch (error) {
+            console.error('Error saving merged file:', error);
+            setError('Failed to save the merged file');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderLines = (lines: string[], className: string = '') => (
+        <pre className={`px-2 py-1 text-xs font-mono whitespace-pre overflow-x-auto ${className}`}>
+            {lines.length > 0 ? lines.join('\n') : <span className="italic text-gray-400">(no lines)</span>}
+        </pre>
+    );
+
+    const renderStableChunk = (chunk: MergeChunk) => {
+        if (chunk.base.length <= STABLE_CONTEXT_LINES * 2 + 1) {
+            return renderLines(chunk.base, 'text-gray-600 dark:text-gray-400');
+        }
+        return (
+            <>
+                {renderLines(chunk.base.slice(0, STABLE_CONTEXT_LINES), 'text-gray-600 dark:text-gray-400')}
+                <div className="px-2 text-xs italic text-gray-400">… {chunk.base.length - STABLE_CONTEXT_LINES * 2} unchanged lines …</div>
+                {renderLines(chunk.base.slice(-STABLE_CONTEXT_LINES), 'text-gray-600 dark:text-gray-400')}
+            </>
+        );
+    };
+
+    const renderConflictChunk = (chunk: MergeChunk, index: number) => {
+        const position = conflictIndexes.indexOf(index);
+        const isResolved = resolutions[index] !== undefined;
+        const isCurrent = position === currentConflict;
+
+        return (
+            <div
+                className={`my-2 border-2 rounded ${isResolved ? 'border-green-500' : 'border-red-500'} ${isCurrent ? 'ring-2 ring-yellow-400' : ''}`}
+                onClick={() => setCurrentConflict(position)}
+            >
+                <div className="flex items-center justify-between px-2 py-1 text-xs font-medium bg-gray-100 dark:bg-gray-700">
+                    <span>Conflict {position + 1} of {conflictIndexes.length}{isResolved ? ' · resolved' : ''}</span>
+                    <div className="flex gap-2">
+                        <button onClick={() => setResolution(index, chunk.theirs)} className="text-blue-600 hover:underline dark:text-blue-400">Use theirs</button>
+                        <button onClick={() => setResolution(index, chunk.yours)} className="text-green-600 hover:underline dark:text-green-400">Use yours</button>
+                        <button onClick={() => setResolution(index, [...chunk.theirs, ...chunk.yours])} className="text-gray-600 hover:underline dark:text-gray-300">Theirs then yours</button>
+                        <button onClick={() => setResolution(index, [...chunk.yours, ...chunk.theirs])} className="text-gray-600 hover:underline dark:text-gray-300">Yours then theirs</button>
+                        <button onClick={() => setResolution(index, chunk.base)} className="text-gray-600 hover:underline dark:text-gray-300">Use base</button>
+                    </div>
+                </div>
+                <div className="grid grid-cols-3 divide-x divide-gray-200 dark:divide-gray-700">
+                    <div>
+                        <div className="px-2 text-xs text-gray-500">Base</div>
+                        {renderLines(chunk.base)}
+                    </div>
+                    <div className="bg-blue-50 dark:bg-blue-900/20">
+                        <div className="px-2 text-xs text-blue-700 dark:text-blue-300">Theirs</div>
+                        {renderLines(chunk.theirs)}
+                    </div>
+                    <div className="bg-green-50 dark:bg-green-900/20">
+                        <div className="px-2 text-xs text-green-700 dark:text-green-300">Yours</div>
+                        {renderLines(chunk.yours)}
+                    </div>
+                </div>
+                <textarea
+                    value={resolutions[index] ?? ''}
+                    onChange={(e) => setResolutions(current => ({ ...current, [index]: e.target.value }))}
+                    placeholder="Pick a side above or type the merged lines"
+                    rows={Math.max(3, Math.min(15, Math.max(chunk.theirs.length, chunk.yours.length)))}
+                    className="w-full px-2 py-1 text-xs font-mono border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+                />
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-11/12 h-5/6 flex flex-col overflow-hidden text-gray-900 dark:text-gray-100">
+                <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold truncate">Merge</h2>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={resolve.localFile}>
+                            {resolve.localFile} · theirs: {resolve.fromFile}#{resolve.startFromRev ? `${resolve.startFromRev},${resolve.endFromRev}` : resolve.endFromRev}
+                            {resolve.baseFile && ` · base: ${resolve.baseFile}#${resolve.baseRev}`}
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        {conflictIndexes.length > 0 && (
+                            <>
+                                <span className="text-sm">{unresolvedCount} of {conflictIndexes.length} conflicts left</span>
+                                <button onClick={() => goToConflict(currentConflict - 1)} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700" title="Previous conflict">
+                                    <ChevronUpIcon className="w-5 h-5" />
+                                </button>
+                                <button onClick={() => goToConflict(currentConflict + 1)} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700" title="Next conflict">
+                                    <ChevronDownIcon className="w-5 h-5" />
+                                </button>
+                            </>
+                        )}
+                        <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-gray-100">
+                            <XMarkIcon className="w-6 h-6" />
+                        </button>
+                    </div>
+                </div>
+
+                {error && (
+                    <div className="px-6 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 whitespace-pre-wrap">{error}</div>
+                )}
+
+                <div className="flex-1 overflow-auto px-6 py-2">
+                    {isLoading ? (
+                        <div className="p-8 text-center animate-pulse">Loading file versions...</div>
+                    ) : mergeFiles && (
+                        <>
+                            {conflictIndexes.length === 0 && (
+                                <div className="my-2 px-4 py-2 text-sm text-green-800 dark:text-green-200 bg-green-50 dark:bg-green-900/20">
+                                    No conflicts, the changes of both sides can be merged as they are.
+                                </div>
+                            )}
+                            {chunks.map((chunk, index) => (
+                                <div key={index} ref={(element) => { chunkRefs.current[index] = element; }}>
+                                    {chunk.type === 'stable' ? (
+                                        renderStableChunk(chunk)
+                                    ) : chunk.type === 'conflict' ? (
+                                        renderConflictChunk(chunk, index)
+                                    ) : (
+                                        <div className={`my-1 border-l-4 ${AUTO_CHUNK_STYLES[chunk.type].className}`}>
+                                            <div className="px-2 text-xs text-gray-500 dark:text-gray-400">{AUTO_CHUNK_STYLES[chunk.type].label}</div>
+                                            {renderLines(getMergedLines(chunk))}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm rounded bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!mergeFiles || unresolvedCount > 0 || isSaving}
+                        className="px-4 py-2 text-sm rounded bg-green-600 hover:bg-green-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={unresolvedCount > 0 ? 'Resolve every conflict first' : 'Write the merged file and mark it resolved'}
+                    >
+                        {isSaving ? 'Saving...' : 'Save and mark resolved'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
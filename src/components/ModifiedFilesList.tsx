@@ -2,11 +2,23 @@
 
 import { useEffect, useState, useRef, useMemo } from 'react';
 import { format } from 'date-fns';
-import { ModifiedFile } from '@/types/modifiedFiles';
+import { ModifiedFile, ReconcileScanProgress } from '@/types/modifiedFiles';
+import { P4Changelist, P4FileOpenedByOthers } from '@/types/p4';
 import { useLocalStorage } from '@/lib/useLocalStorage';
+import { useFileSelection } from '@/lib/useFileSelection';
+import { useOpenedByOthers, fetchOpenedByOthers } from '@/lib/useOpenedByOthers';
+import { useFileRevisions, syncFilesToHead } from '@/lib/useFileRevisions';
+import { useWorkspaceWatcher } from '@/lib/useWorkspaceWatcher';
 import Pagination from './Pagination';
 import ItemsPerPageSelector from './ItemsPerPageSelector';
 import DirectoryBrowser from './DirectoryBrowser';
+import DiffViewer, { DiffTarget } from './DiffViewer';
+import BulkActionBar from './BulkActionBar';
+import HistoryDrawer from './HistoryDrawer';
+import AnnotateViewer from './AnnotateViewer';
+import OpenedByOthersBadge from './OpenedByOthersBadge';
+import OutOfDateBadge from './OutOfDateBadge';
+import ScanCachePanel from './ScanCachePanel';
 import { TrashIcon } from '@heroicons/react/24/outline';
 
 // Helper function to get the local path from a file object
@@ -65,15 +77,24 @@ const copyPathToClipboard = (path: string, e: React.MouseEvent) => {
 const EXCLUDED_FOLDERS_KEY = 'perforceFriend_excludedFolders';
 const INCLUSION_FOLDERS_KEY = 'perforceFriend_inclusionFolders';
 const ITEMS_PER_PAGE_KEY = 'perforceFriend_itemsPerPage';
+const LIVE_WATCH_KEY = 'perforceFriend_liveWatch';
 
 interface ModifiedFilesListProps {
     files: ModifiedFile[];
     isLoading: boolean;
     error: string | null;
     onRefresh: () => void;
+    // Reconciles every file again, rebuilding the file index that makes refreshes quick
+    onFullScan?: () => void;
     lastChecked: string | null;
     inclusionFolders: string[];
     onInclusionFoldersChange: (folders: string[]) => void;
+    changelists?: P4Changelist[];
+    onFilesOpened?: (depotPaths: string[]) => void;
+    // Called with files the workspace watcher found saved without a checkout, enables the Live toggle
+    onFilesModified?: (files: ModifiedFile[]) => void;
+    scanProgress?: ReconcileScanProgress | null;
+    onCancelScan?: () => void;
 }
 
 export default function ModifiedFilesList({
@@ -81,9 +102,15 @@ export default function ModifiedFilesList({
     isLoading,
     error,
     onRefresh,
+    onFullScan,
     lastChecked,
     inclusionFolders = [],
-    onInclusionFoldersChange = () => { }
+    onInclusionFoldersChange = () => { },
+    changelists = [],
+    onFilesOpened,
+    onFilesModified,
+    scanProgress = null,
+    onCancelScan
 }: ModifiedFilesListProps) {
     // console.log('ModifiedFilesList render:', {
     //     fileCount: files?.length || 0,
@@ -121,6 +148,35 @@ export default function ModifiedFilesList({
     // Toggle state for panels
     const [showInclusion, setShowInclusion] = useState(false);
     const [showExclusion, setShowExclusion] = useState(false);
+    const [showScanCache, setShowScanCache] = useState(false);
+
+    // Ticks while scanning so the elapsed time keeps counting between progress events
+    const [, setScanTick] = useState(0);
+    const isScanning = scanProgress !== null;
+    useEffect(() => {
+        if (!isScanning) return;
+        const intervalId = setInterval(() => setScanTick(tick => tick + 1), 1000);
+        return () => clearInterval(intervalId);
+    }, [isScanning]);
+
+    // Live updates from the workspace watcher, excluded folders aren't watched
+    const [isLiveWatch, setIsLiveWatch] = useLocalStorage<boolean>(LIVE_WATCH_KEY, false);
+    const watcher = useWorkspaceWatcher(isLiveWatch && !!onFilesModified, inclusionFolders, isExcluding ? exclusionFolders : [], onFilesModified || (() => { }));
+
+    // File shown in the diff viewer
+    const [diffTarget, setDiffTarget] = useState<DiffTarget | null>(null);
+
+    // File shown in the history drawer
+    const [historyFile, setHistoryFile] = useState<string | null>(null);
+
+    // File shown in the annotate view
+    const [annotateFile, setAnnotateFile] = useState<string | null>(null);
+
+    // Changelist that files are opened in
+    const [targetChange, setTargetChange] = useState('default');
+    const [isReconciling, setIsReconciling] = useState(false);
+    const [reconcileMessage, setReconcileMessage] = useState<string | null>(null);
+    const [reconcileError, setReconcileError] = useState<string | null>(null);
 
     // Auto-show exclusion panel if no exclusion folders are defined
     useEffect(() => {
@@ -398,32 +454,201 @@ export default function ModifiedFilesList({
         }
     };
 
-    // Function to checkout a file
-    const handleCheckoutFile = async (file: ModifiedFile) => {
-        if (!file.depotPath) {
-            console.error('No depot path available for file', file);
-            return;
+    // Drop opened files from the list, or rescan if the parent can't do that
+    const handleFilesOpened = (depotPaths: string[]) => {
+        if (onFilesOpened) {
+            onFilesOpened(depotPaths);
+        } else {
+            onRefresh();
+        }
+    };
+
+    // Get the changelist to open files in, creating a new one if requested
+    const resolveTargetChange = async (): Promise<string | null> => {
+        if (targetChange !== 'new') return targetChange;
+
+        const description = prompt('Description for the new changelist:');
+        if (!description || !description.trim()) return null;
+
+        try {
+            const response = await fetch('/api/p4/changes', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ description }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setReconcileError(data.details || data.error || 'Failed to create changelist');
+                return null;
+            }
+
+            return data.change;
+        } catch (error) {
+            console.error('Error creating changelist:', error);
+            setReconcileError('Failed to create changelist');
+            return null;
         }
+    };
 
+    // Leave out files that can't be opened because they are exclusive-lock (+l) and opened elsewhere
+    // Returns null when the user cancels
+    const confirmExclusiveLocks = async (depotFiles: string[]): Promise<string[] | null> => {
+        let others: Record<string, P4FileOpenedByOthers> = {};
+        try {
+            others = await fetchOpenedByOthers(depotFiles);
+        } catch (error) {
+            // Let p4 report the problem if the lookup itself fails
+            console.error('Error checking exclusive locks:', error);
+            return depotFiles;
+        }
+
+        const blocked = depotFiles.filter(depotFile => {
+            const info = others[depotFile];
+            return info && info.isExclusive && (info.openedBy.length > 0 || !!info.lockedBy);
+        });
+        if (blocked.length === 0) return depotFiles;
+
+        const details = blocked
+            .map(depotFile => `${depotFile} (${others[depotFile].openedBy.map(other => `${other.user}@${other.client}`).join(', ') || others[depotFile].lockedBy})`)
+            .join('\n');
+        const allowed = depotFiles.filter(depotFile => !blocked.includes(depotFile));
+
+        if (allowed.length === 0) {
+            alert(`These files are exclusive-lock (+l) and already opened by someone else, so they can't be checked out:\n${details}`);
+            return null;
+        }
+
+        return confirm(`These files are exclusive-lock (+l) and already opened by someone else, so they can't be checked out:\n${details}\n\nContinue with the other ${allowed.length} file(s)?`)
+            ? allowed
+            : null;
+    };
+
+    // Open files with the action matching their status (add, delete or edit) in the target changelist
+    const handleReconcileFiles = async (filesToOpen: ModifiedFile[]) => {
+        // Added files don't exist in the depot yet, so only edits and deletes can be blocked by a lock
+        const lockChecked = await confirmExclusiveLocks(filesToOpen.filter(file => file.depotPath && file.status !== 'add').map(file => file.depotPath!));
+        if (!lockChecked) return;
+
+        const reconcileFiles = filesToOpen
+            .filter(file => file.depotPath && (file.status === 'add' || lockChecked.includes(file.depotPath)))
+            .map(file => ({ depotFile: file.depotPath, localFile: getLocalPath(file), status: file.status }));
+        if (reconcileFiles.length === 0) return;
+
+        const change = await resolveTargetChange();
+        if (!change) return;
+
+        setIsReconciling(true);
+        setReconcileMessage(null);
+        setReconcileError(null);
+        try {
+            const response = await fetch('/api/p4/files/reconcile', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ files: reconcileFiles, change }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setReconcileError(data.details || data.error || 'Failed to reconcile files');
+                return;
+            }
+
+            if (data.failed && data.failed.length > 0) {
+                const errors = data.results
+                    .filter((result: { success: boolean }) => !result.success)
+                    .map((result: { status: string; error: string }) => `${result.status}: ${result.error}`);
+                setReconcileError(`${data.message}\n${errors.join('\n')}`);
+            } else {
+                setReconcileMessage(data.message);
+            }
+
+            if (data.opened && data.opened.length > 0) {
+                handleFilesOpened(data.opened);
+            }
+        } catch (error) {
+            console.error('Error reconciling files:', error);
+            setReconcileError('Failed to reconcile files');
+        } finally {
+            setIsReconciling(false);
+        }
+    };
+
+    // Check out files for edit in the target changelist, reporting files that failed
+    // Returns the depot paths of the files that were checked out
+    const handleCheckoutFiles = async (filesToCheckout: ModifiedFile[]): Promise<string[]> => {
+        const candidates = filesToCheckout.filter(file => file.depotPath).map(file => file.depotPath!);
+        if (candidates.length === 0) {
+            console.error('No depot path available for files', filesToCheckout);
+            return [];
+        }
+
+        const depotFiles = await confirmExclusiveLocks(candidates);
+        if (!depotFiles) return [];
+
+        const change = await resolveTargetChange();
+        if (!change) return [];
+
+        setIsReconciling(true);
+        setReconcileMessage(null);
+        setReconcileError(null);
         try {
             const response = await fetch('/api/p4/files/checkout', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ depotFile: file.depotPath }),
+                body: JSON.stringify({ files: depotFiles, change }),
             });
 
             const data = await response.json();
+            const results: { depotFile: string; success: boolean; message: string }[] = data.results || [];
+            const failed = results.filter(result => !result.success);
+
             if (data.success) {
-                console.log('File checked out successfully');
-                // Refresh the file list
-                onRefresh();
+                setReconcileMessage(data.message);
             } else {
-                console.error('Failed to checkout file:', data.error);
+                const reasons = failed.map(result => result.message);
+                setReconcileError([data.message || data.details || data.error || 'Failed to check out files', ...reasons].filter((line, index, lines) => lines.indexOf(line) === index).join('\n'));
+            }
+
+            const checkedOut = results.filter(result => result.success).map(result => result.depotFile);
+            if (checkedOut.length > 0) {
+                handleFilesOpened(checkedOut);
             }
+            return checkedOut;
         } catch (error) {
-            console.error('Error checking out file:', error);
+            console.error('Error checking out files:', error);
+            setReconcileError('Failed to check out files');
+            return [];
+        } finally {
+            setIsReconciling(false);
+        }
+    };
+
+    // Bring a locally changed, out of date file to head without losing the local changes:
+    // p4 won't overwrite a writable file, so it is checked out first and the sync schedules a resolve
+    const handleCheckoutAndSync = async (file: ModifiedFile) => {
+        if (!confirm(`${file.depotPath} has newer revisions in the depot. Check it out and sync it to head? Your changes are kept and the file will need a resolve.`)) {
+            return;
+        }
+
+        const checkedOut = await handleCheckoutFiles([file]);
+        if (checkedOut.length === 0) return;
+
+        setIsReconciling(true);
+        try {
+            const { errors } = await syncFilesToHead(checkedOut);
+            if (errors.length > 0) {
+                setReconcileError(errors.join('\n'));
+            } else {
+                setReconcileMessage(`Checked out and synced ${checkedOut.length} file(s), resolve them from the Checked Out tab`);
+            }
+        } catch (error) {
+            console.error('Error syncing files:', error);
+            setReconcileError(error instanceof Error ? error.message : 'Failed to sync files');
+        } finally {
+            setIsReconciling(false);
         }
     };
 
@@ -455,6 +680,41 @@ export default function ModifiedFilesList({
     // Apply pagination to sorted files
     const paginatedFiles = sortedFiles.slice(indexOfFirstFile, indexOfLastFile);
 
+    // Selected files (by depot path), limited to files matching the filters
+    const sortedKeys = useMemo(() => sortedFiles.filter(file => file.depotPath).map(file => file.depotPath!), [sortedFiles]);
+    const selection = useFileSelection(sortedKeys);
+    const selectedFiles = sortedFiles.filter(file => file.depotPath && selection.isSelected(file.depotPath));
+
+    // Start over when a new scan starts, files streamed in or pushed by the watcher keep the selection
+    const isReloading = isLoading || isScanning;
+    useEffect(() => {
+        if (isReloading) selection.clear();
+    }, [isReloading]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Files that left the list can't stay selected
+    useEffect(() => {
+        selection.retain(files.filter(file => file.depotPath).map(file => file.depotPath!));
+    }, [files]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Who else has the files of the current page open
+    const openedByOthers = useOpenedByOthers(paginatedFiles.filter(file => file.depotPath && file.status !== 'add').map(file => file.depotPath!), files);
+
+    // Have and head revisions of the files of the current page, to spot files that are out of date
+    const fileRevisions = useFileRevisions(paginatedFiles.filter(file => file.depotPath && file.status !== 'add').map(file => file.depotPath!), files);
+
+    // Select or deselect all files on the current page
+    const selectablePageFiles = paginatedFiles.filter(file => file.depotPath);
+    const allOnPageSelected = selectablePageFiles.length > 0 && selectablePageFiles.every(file => selection.isSelected(file.depotPath!));
+    const togglePageSelection = () => {
+        selection.setMany(selectablePageFiles.map(file => file.depotPath!), !allOnPageSelected);
+    };
+
+    // Reconcile every file that passes the current search and exclusion filters
+    const handleReconcileAllShown = () => {
+        if (!confirm(`Open all ${sortedFiles.length} shown file(s) for add, edit or delete?`)) return;
+        handleReconcileFiles(sortedFiles);
+    };
+
     return (
         <div className="space-y-4">
             {/* Display error if present (non-warning) */}
@@ -495,12 +755,42 @@ export default function ModifiedFilesList({
                         >
                             Refresh
                         </button>
+                        {onFullScan && (
+                            <button
+                                onClick={onFullScan}
+                                disabled={!!scanProgress}
+                                title="Reconcile every file instead of only those changed since the last scan, e.g. after 'p4 sync -k' or 'p4 flush'"
+                                className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Full Scan
+                            </button>
+                        )}
+                        {onFilesModified && (
+                            <button
+                                onClick={() => setIsLiveWatch(!isLiveWatch)}
+                                title={watcher.error || (isLiveWatch ? 'Stop watching the workspace for saved files' : 'Watch the workspace and list files as soon as they are saved without a checkout')}
+                                className={`flex items-center px-3 py-1 text-sm rounded-sm ${isLiveWatch
+                                    ? 'bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-800 dark:text-green-100 dark:hover:bg-green-700'
+                                    : 'bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600'
+                                    }`}
+                            >
+                                <span className={`w-2 h-2 mr-1.5 rounded-full ${watcher.error ? 'bg-red-500' : watcher.isWatching ? 'bg-green-500 animate-pulse' : 'bg-gray-400'}`} />
+                                Live
+                            </button>
+                        )}
                         <button
                             onClick={() => setShowInclusion(!showInclusion)}
                             className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
                         >
                             {showInclusion ? 'Hide Inclusion' : 'Show Inclusion'}
                         </button>
+                        <button
+                            onClick={() => setShowScanCache(!showScanCache)}
+                            title="See which folders have cached scan results and invalidate them"
+                            className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        >
+                            {showScanCache ? 'Hide Cache' : 'Show Cache'}
+                        </button>
                         <button
                             onClick={() => setShowExclusion(!showExclusion)}
                             className={`px-3 py-1 text-sm rounded ${exclusionFolders.length === 0 && !showExclusion
@@ -595,6 +885,8 @@ export default function ModifiedFilesList({
                 </div>
             )}
 
+            {showScanCache && <ScanCachePanel inclusionFolders={inclusionFolders} />}
+
             {/* Exclusion folders UI - Updated to match first commit layout */}
             <div>
                 <button
@@ -675,8 +967,40 @@ export default function ModifiedFilesList({
                 )}
             </div>
 
+            {/* Progress of a running scan, files found so far are listed below */}
+            {scanProgress && (
+                <div className="p-3 border rounded-sm bg-blue-50 text-blue-900 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-100">
+                    <div className="flex items-center justify-between">
+                        <div className="text-sm">
+                            <span className="animate-pulse">Scanning </span>
+                            <span className="font-mono">{scanProgress.currentFolder || (scanProgress.folders.length === 0 ? 'workspace' : '...')}</span>
+                            {scanProgress.folders.length > 0 && <span> ({scanProgress.foldersDone} of {scanProgress.folders.length} folders done)</span>}
+                            <span> · {scanProgress.fileCount} file(s) found · {Math.round((Date.now() - scanProgress.startTime) / 1000)}s</span>
+                        </div>
+                        {onCancelScan && (
+                            <button
+                                onClick={onCancelScan}
+                                className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </div>
+                    {scanProgress.folders.length > 0 && (
+                        <div className="mt-2 h-1.5 rounded-full bg-blue-100 dark:bg-blue-950">
+                            <div className="h-1.5 rounded-full bg-blue-500" style={{ width: `${(scanProgress.foldersDone / scanProgress.folders.length) * 100}%` }} />
+                        </div>
+                    )}
+                    {scanProgress.folderErrors.map(({ folder, error: folderError }) => (
+                        <div key={folder} className="mt-1 text-xs text-red-600 dark:text-red-400">
+                            {folder}: {folderError}
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Files table or loading indicator */}
-            {isLoading ? (
+            {isLoading && !scanProgress ? (
                 <div className="text-center p-4 animate-pulse border rounded-sm bg-gray-50 dark:bg-gray-800">
                     Loading modified files...
                 </div>
@@ -685,13 +1009,75 @@ export default function ModifiedFilesList({
                     {/* Files table */}
                     {filteredFiles.length === 0 ? (
                         <div className="p-4 text-center border rounded-sm">
-                            No modified files found.
+                            {scanProgress ? 'No modified files found yet.' : 'No modified files found.'}
                         </div>
                     ) : (
                         <div>
+                            {/* Reconcile actions */}
+                            <div className="flex flex-wrap items-center gap-2 mb-2">
+                                <label htmlFor="reconcileTarget" className="text-sm text-gray-600 dark:text-gray-400">Open in:</label>
+                                <select
+                                    id="reconcileTarget"
+                                    value={targetChange}
+                                    onChange={(e) => setTargetChange(e.target.value)}
+                                    className="border border-gray-300 dark:border-gray-700 rounded-sm px-2 py-1 text-sm bg-white dark:bg-gray-800 dark:text-gray-200"
+                                >
+                                    <option value="default">Default changelist</option>
+                                    {changelists.map(changelist => (
+                                        <option key={changelist.change} value={changelist.change}>
+                                            {changelist.change} - {changelist.description.split('\n')[0]}
+                                        </option>
+                                    ))}
+                                    <option value="new">New changelist…</option>
+                                </select>
+                                <button
+                                    onClick={handleReconcileAllShown}
+                                    disabled={isReconciling || sortedFiles.length === 0}
+                                    className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                                    title="Open all files passing the current filters with add, edit or delete"
+                                >
+                                    Reconcile all shown ({sortedFiles.length})
+                                </button>
+                                {isReconciling && <span className="text-sm text-gray-500 dark:text-gray-400 animate-pulse">Opening files...</span>}
+                            </div>
+                            <BulkActionBar
+                                selectedCount={selectedFiles.length}
+                                matchingCount={sortedKeys.length}
+                                onSelectAll={selection.selectAll}
+                                onClear={selection.clear}
+                            >
+                                <button
+                                    onClick={() => handleReconcileFiles(selectedFiles)}
+                                    disabled={isReconciling}
+                                    className="px-3 py-1 text-sm bg-green-600 text-white rounded-sm hover:bg-green-700 disabled:opacity-50"
+                                    title="Open the selected files with add, edit or delete"
+                                >
+                                    Reconcile selected
+                                </button>
+                                <button
+                                    onClick={() => handleCheckoutFiles(selectedFiles.filter(file => file.status !== 'add' && file.status !== 'delete'))}
+                                    disabled={isReconciling || selectedFiles.every(file => file.status === 'add' || file.status === 'delete')}
+                                    className="px-3 py-1 text-sm bg-blue-500 text-white rounded-sm hover:bg-blue-600 disabled:opacity-50"
+                                    title="Check out the selected modified files for edit"
+                                >
+                                    Check out selected
+                                </button>
+                            </BulkActionBar>
+                            {reconcileMessage && (
+                                <div className="p-2 mb-2 text-sm text-green-700 border border-green-300 rounded-sm bg-green-50 dark:bg-green-900/20 dark:border-green-800 dark:text-green-300">
+                                    {reconcileMessage}
+                                </div>
+                            )}
+                            {reconcileError && (
+                                <div className="p-2 mb-2 text-sm text-red-600 border border-red-300 rounded-sm bg-red-50 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400 whitespace-pre-wrap">
+                                    {reconcileError}
+                                </div>
+                            )}
+
                             <div className="overflow-x-auto rounded-lg border dark:border-gray-700">
                                 <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
                                     <colgroup>
+                                        <col style={{ width: '40px' }} />
                                         <col style={{ width: '288px' }} />
                                         <col style={{ width: '112px' }} />
                                         <col style={{ width: '320px' }} />
@@ -699,6 +1085,14 @@ export default function ModifiedFilesList({
                                     </colgroup>
                                     <thead className="bg-gray-50 dark:bg-gray-800">
                                         <tr>
+                                            <th scope="col" className="px-4 py-3" style={{ width: '40px' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={allOnPageSelected}
+                                                    onChange={togglePageSelection}
+                                                    title="Select all files on this page"
+                                                />
+                                            </th>
                                             <th
                                                 scope="col"
                                                 className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -744,7 +1138,7 @@ export default function ModifiedFilesList({
                                     <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
                                         {paginatedFiles.length === 0 ? (
                                             <tr>
-                                                <td colSpan={4} className="px-4 py-4 text-center text-gray-500 dark:text-gray-400">
+                                                <td colSpan={5} className="px-4 py-4 text-center text-gray-500 dark:text-gray-400">
                                                     No files match the current filter criteria
                                                 </td>
                                             </tr>
@@ -752,7 +1146,16 @@ export default function ModifiedFilesList({
                                             paginatedFiles.map((file, index) => {
                                                 const localPath = getLocalPath(file);
                                                 return (
-                                                    <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                                                    <tr key={index} className={`hover:bg-gray-50 dark:hover:bg-gray-800 ${file.depotPath && selection.isSelected(file.depotPath) ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}>
+                                                        <td className="px-4 py-4">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={!!file.depotPath && selection.isSelected(file.depotPath)}
+                                                                onChange={(e) => file.depotPath && selection.toggle(file.depotPath, (e.nativeEvent as MouseEvent).shiftKey)}
+                                                                title="Shift-click to select a range"
+                                                                disabled={!file.depotPath}
+                                                            />
+                                                        </td>
                                                         <td className="px-4 py-4 whitespace-nowrap">
                                                             <div className="flex flex-col">
                                                                 <span className="text-sm font-medium text-gray-900 dark:text-white mb-1">
@@ -761,6 +1164,14 @@ export default function ModifiedFilesList({
                                                                 <span className="text-xs text-gray-500 dark:text-gray-400">
                                                                     {formatDepotPath(file.depotPath)}
                                                                 </span>
+                                                                <OpenedByOthersBadge info={file.depotPath ? openedByOthers[file.depotPath] : undefined} />
+                                                                {file.depotPath && fileRevisions[file.depotPath] && (
+                                                                    <OutOfDateBadge
+                                                                        {...fileRevisions[file.depotPath]}
+                                                                        onSync={file.status === 'edit' ? () => handleCheckoutAndSync(file) : undefined}
+                                                                        isSyncing={isReconciling}
+                                                                    />
+                                                                )}
                                                             </div>
                                                         </td>
                                                         <td className="px-4 py-4 whitespace-nowrap">
@@ -800,9 +1211,50 @@ export default function ModifiedFilesList({
                                                                         Open
                                                                     </button>
                                                                 )}
-                                                                {file.status !== 'delete' && (
+                                                                {file.depotPath && (
                                                                     <button
-                                                                        onClick={() => handleCheckoutFile(file)}
+                                                                        onClick={() => setDiffTarget({ depotFile: file.depotPath! })}
+                                                                        className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 dark:border-gray-600 shadow-xs text-xs font-medium rounded-sm text-purple-700 dark:text-purple-300 bg-white dark:bg-gray-700 hover:bg-purple-50 dark:hover:bg-gray-600 focus:outline-hidden focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors"
+                                                                        title="Show changes against the have revision"
+                                                                    >
+                                                                        Diff
+                                                                    </button>
+                                                                )}
+                                                                {file.depotPath && file.status !== 'add' && (
+                                                                    <button
+                                                                        onClick={() => setHistoryFile(file.depotPath!)}
+                                                                        className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 dark:border-gray-600 shadow-xs text-xs font-medium rounded-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-hidden focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+                                                                        title="Show file history"
+                                                                    >
+                                                                        History
+                                                                    </button>
+                                                                )}
+                                                                {file.depotPath && file.status !== 'add' && (
+                                                                    <button
+                                                                        onClick={() => setAnnotateFile(`${file.depotPath}#have`)}
+                                                                        className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 dark:border-gray-600 shadow-xs text-xs font-medium rounded-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-hidden focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+                                                                        title="Show who last changed each line"
+                                                                    >
+                                                                        Annotate
+                                                                    </button>
+                                                                )}
+                                                                {file.depotPath && (file.status === 'add' || file.status === 'delete') && (
+                                                                    <button
+                                                                        onClick={() => handleReconcileFiles([file])}
+                                                                        disabled={isReconciling}
+                                                                        className={`inline-flex items-center px-2.5 py-1.5 border border-gray-300 dark:border-gray-600 shadow-xs text-xs font-medium rounded-sm transition-colors disabled:opacity-50 ${file.status === 'add'
+                                                                            ? 'text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900 hover:bg-green-100 dark:hover:bg-green-800'
+                                                                            : 'text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900 hover:bg-red-100 dark:hover:bg-red-800'
+                                                                            }`}
+                                                                        title={file.status === 'add' ? 'Open file for add' : 'Open file for delete'}
+                                                                    >
+                                                                        {file.status === 'add' ? 'Add' : 'Delete'}
+                                                                    </button>
+                                                                )}
+                                                                {file.status !== 'delete' && file.status !== 'add' && (
+                                                                    <button
+                                                                        onClick={() => handleCheckoutFiles([file])}
+                                                                        disabled={isReconciling}
                                                                         className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 dark:border-gray-600 shadow-xs text-xs font-medium rounded-sm text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900 hover:bg-green-100 dark:hover:bg-green-800 focus:outline-hidden focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors"
                                                                         title="Check out file for edit"
                                                                     >
@@ -847,6 +1299,10 @@ export default function ModifiedFilesList({
                     )}
                 </div>
             )}
+
+            <DiffViewer target={diffTarget} onClose={() => setDiffTarget(null)} />
+            <HistoryDrawer file={historyFile} onClose={() => setHistoryFile(null)} />
+            <AnnotateViewer file={annotateFile} onClose={() => setAnnotateFile(null)} />
         </div>
     );
 } 
\ No newline at end of file
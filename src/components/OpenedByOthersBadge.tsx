@@ -0,0 +1,38 @@
+import { LockClosedIcon, UsersIcon } from '@heroicons/react/24/outline';
+import { P4FileOpenedByOthers } from '../types/p4';
+
+interface OpenedByOthersBadgeProps {
+    info?: P4FileOpenedByOthers;
+}
+
+/**
+ * Small label showing who else has a file open, red when the file is exclusive-lock or locked
+ */
+export default function OpenedByOthersBadge({ info }: OpenedByOthersBadgeProps) {
+    if (!info || (info.openedBy.length === 0 && !info.lockedBy)) {
+        return null;
+    }
+
+    const isBlocking = !!info.lockedBy || info.isExclusive;
+    const names = info.openedBy.map(other => `${other.user}@${other.client}`);
+    const title = [
+        ...info.openedBy.map(other => `${other.user}@${other.client}: ${other.action} in change ${other.change}`),
+        info.lockedBy ? `Locked by ${info.lockedBy}` : '',
+        info.isExclusive ? `Exclusive-lock file type (${info.type}), only one workspace can open it` : '',
+    ].filter(Boolean).join('\n');
+
+    return (
+        <span
+            className={`self-start inline-flex items-center mt-1 px-1.5 py-0.5 text-xs rounded ${isBlocking
+                ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100'
+                : 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100'
+                }`}
+            title={title}
+        >
+            {isBlocking ? <LockClosedIcon className="w-3 h-3 mr-1" /> : <UsersIcon className="w-3 h-3 mr-1" />}
+            {names.length > 0
+                ? `Opened by ${names[0]}${names.length > 1 ? ` +${names.length - 1}` : ''}`
+                : `Locked by ${info.lockedBy}`}
+        </span>
+    );
+}
@@ -0,0 +1,42 @@
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { isOutOfDate } from '../lib/useFileRevisions';
+
+interface OutOfDateBadgeProps {
+    haveRev?: string;
+    headRev?: string;
+    headAction?: string;
+    headChange?: string;
+    // Sync the file to its head revision, no button is shown without it
+    onSync?: () => void;
+    isSyncing?: boolean;
+}
+
+/**
+ * Label shown on files whose workspace revision is older than the depot head revision
+ */
+export default function OutOfDateBadge({ haveRev, headRev, headAction, headChange, onSync, isSyncing = false }: OutOfDateBadgeProps) {
+    if (!isOutOfDate({ haveRev, headRev })) {
+        return null;
+    }
+
+    const isDeletedAtHead = !!headAction && headAction.includes('delete');
+
+    return (
+        <span className="self-start inline-flex items-center mt-1 px-1.5 py-0.5 text-xs rounded bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100">
+            <span title={`You have #${haveRev}, the depot has #${headRev} (${headAction || 'edit'} in change ${headChange || '?'})`}>
+                {isDeletedAtHead ? 'Deleted at head' : 'Out of date'} #{haveRev}/#{headRev}
+            </span>
+            {onSync && (
+                <button
+                    onClick={onSync}
+                    disabled={isSyncing}
+                    className="ml-1 inline-flex items-center underline hover:no-underline disabled:opacity-50"
+                    title="Sync this file to the head revision"
+                >
+                    <ArrowPathIcon className={`w-3 h-3 mr-0.5 ${isSyncing ? 'animate-spin' : ''}`} />
+                    Sync
+                </button>
+            )}
+        </span>
+    );
+}
@@ -3,6 +3,8 @@ import { useState, FormEvent } from 'react';
 type P4ConnectionFormProps = {
   onConnect: (config: P4Config) => void;
   isLoading?: boolean;
+  // Values to start from, e.g. the selected connection profile
+  initialConfig?: Partial<P4Config>;
 };
 
 export interface P4Config {
@@ -10,15 +12,19 @@ export interface P4Config {
   user: string;
   password: string;
   client?: string;
+  // P4CHARSET for unicode servers, e.g. utf8
+  charset?: string;
   clientRoot?: string;
 }
 
-export default function P4ConnectionForm({ onConnect, isLoading = false }: P4ConnectionFormProps) {
+export default function P4ConnectionForm({ onConnect, isLoading = false, initialConfig }: P4ConnectionFormProps) {
   const [config, setConfig] = useState<P4Config>({
-    port: '',
-    user: '',
+    port: initialConfig?.port || '',
+    user: initialConfig?.user || '',
     password: '',
-    client: '',
+    client: initialConfig?.client || '',
+    charset: initialConfig?.charset || '',
+    clientRoot: initialConfig?.clientRoot,
   });
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -77,12 +83,12 @@ export default function P4ConnectionForm({ onConnect, isLoading = false }: P4Con
           id="password"
           name="password"
           type="password"
-          required
           value={config.password}
           onChange={handleChange}
           className="mt-1 block w-full border border-gray-300 dark:border-gray-700 rounded-md shadow-sm py-2 px-3 
                    bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-hidden 
                    focus:ring-primary-500 focus:border-primary-500"
+          placeholder="Leave empty to use an existing login ticket"
         />
       </div>
 
@@ -103,6 +109,23 @@ export default function P4ConnectionForm({ onConnect, isLoading = false }: P4Con
         />
       </div>
 
+      <div>
+        <label htmlFor="charset" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Character Set
+        </label>
+        <input
+          id="charset"
+          name="charset"
+          type="text"
+          value={config.charset}
+          onChange={handleChange}
+          className="mt-1 block w-full border border-gray-300 dark:border-gray-700 rounded-md shadow-sm py-2 px-3 
+                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-hidden 
+                   focus:ring-primary-500 focus:border-primary-500"
+          placeholder="Optional, e.g. utf8 for unicode servers"
+        />
+      </div>
+
       <button
         type="submit"
         disabled={isLoading}
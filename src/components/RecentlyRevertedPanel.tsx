@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ArrowUturnLeftIcon, ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { P4RevertBackup } from '@/types/p4';
+
+interface RecentlyRevertedPanelProps {
+    // Changes whenever files were reverted, so the list is reloaded
+    refreshKey: number;
+}
+
+// Get the file name from a path
+const getFileName = (path: string) => path.split(/[\\/]/).pop() || path;
+
+export default function RecentlyRevertedPanel({ refreshKey }: RecentlyRevertedPanelProps) {
+    const [backups, setBackups] = useState<P4RevertBackup[]>([]);
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadBackups();
+    }, [refreshKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const loadBackups = async () => {
+        try {
+            const response = await fetch('/api/p4/files/revert/backups');
+            const data = await response.json();
+
+            if (data.success) {
+                setBackups(data.backups || []);
+                setError(null);
+            } else {
+                setError(data.details || data.error || 'Failed to load reverted files');
+            }
+        } catch (error) {
+            console.error('Error loading reverted files:', error);
+            setError('Failed to load reverted files');
+        }
+    };
+
+    const handleRestore = async (backup: P4RevertBackup) => {
+        if (!confirm(`Restore the reverted content of ${backup.localFile}? The current local file will be overwritten.`)) {
+            return;
+        }
+
+        setRestoringId(backup.id);
+        setError(null);
+        setMessage(null);
+        try {
+            const response = await fetch('/api/p4/files/revert/backups', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: backup.id }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setError(data.details || data.error || 'Failed to restore file');
+                return;
+            }
+
+            setMessage(`${data.message}. Check the file out again to keep working on it.`);
+            loadBackups();
+        } catch (error) {
+            console.error('Error restoring file:', error);
+            setError('Failed to restore file');
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    if (backups.length === 0 && !error) {
+        return null;
+    }
+
+    return (
+        <div className="mt-6 border rounded-lg dark:border-gray-700">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="flex items-center w-full px-4 py-2 bg-gray-50 dark:bg-gray-800 rounded-t-lg text-left"
+            >
+                {isExpanded ? <ChevronDownIcon className="w-4 h-4 mr-2" /> : <ChevronRightIcon className="w-4 h-4 mr-2" />}
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Recently Reverted ({backups.length})</h3>
+            </button>
+
+            {isExpanded && (
+                <>
+                    {error && (
+                        <div className="px-4 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20">{error}</div>
+                    )}
+                    {message && (
+                        <div className="px-4 py-2 text-sm text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/20">{message}</div>
+                    )}
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {backups.map(backup => (
+                            <li key={backup.id} className="flex items-center px-4 py-2 text-sm">
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-medium truncate" title={backup.depotFile}>{getFileName(backup.localFile)}</div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={backup.localFile}>
+                                        was {backup.action} in {backup.change === 'default' ? 'default changelist' : `change ${backup.change}`}
+                                        {' · '}reverted {format(new Date(backup.revertedAt), 'MMM d, HH:mm')}
+                                        {backup.restoredAt && ` · restored ${format(new Date(backup.restoredAt), 'MMM d, HH:mm')}`}
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => handleRestore(backup)}
+                                    disabled={restoringId !== null}
+                                    className="inline-flex items-center ml-2 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                                    title="Copy the backed up content back to the local file"
+                                >
+                                    <ArrowUturnLeftIcon className="w-3.5 h-3.5 mr-1" />
+                                    {restoringId === backup.id ? 'Restoring...' : 'Restore'}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+}
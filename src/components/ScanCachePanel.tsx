@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { ScanCacheFolder } from '@/types/modifiedFiles';
+
+interface ScanCachePanelProps {
+    // Inclusion folders that aren't cached on their own can be invalidated too, e.g. inside a cached workspace
+    inclusionFolders: string[];
+}
+
+interface ScanCacheInfo {
+    strategy: 'index' | 'output';
+    server: string;
+    client: string;
+    clientRoot: string;
+    folders: ScanCacheFolder[];
+}
+
+const normalizeFolder = (folder: string) => folder.replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase();
+
+/**
+ * Lists the folders whose scan results the server keeps, and invalidates them one at a time
+ * An invalidated folder is scanned again on the next refresh, other folders keep using their results
+ * The server picks the client root like it does for scans, so the panel shows the cache they use
+ */
+export default function ScanCachePanel({ inclusionFolders }: ScanCachePanelProps) {
+    const [cacheInfo, setCacheInfo] = useState<ScanCacheInfo | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [invalidatingFolder, setInvalidatingFolder] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadCache = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/p4/files/modified/cache', { cache: 'no-store' });
+            const data = await response.json();
+            if (data.success) {
+                setCacheInfo(data);
+                setError(null);
+            } else {
+                setError(data.details || data.error || 'Failed to read the scan cache');
+            }
+        } catch (loadError) {
+            console.error('Error loading the scan cache:', loadError);
+            setError('Failed to read the scan cache');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadCache();
+    }, [loadCache]);
+
+    // Without a folder, the whole workspace's results are dropped
+    const handleInvalidate = async (folder?: string) => {
+        setInvalidatingFolder(folder || cacheInfo?.clientRoot || '');
+        try {
+            const response = await fetch(`/api/p4/files/modified/cache${folder ? `?folder=${encodeURIComponent(folder)}` : ''}`, { method: 'DELETE' });
+            const data = await response.json();
+            if (data.success) {
+                setCacheInfo(data);
+                setError(null);
+            } else {
+                setError(data.details || data.error || 'Failed to invalidate the scan cache');
+            }
+        } catch (invalidateError) {
+            console.error('Error invalidating the scan cache:', invalidateError);
+            setError('Failed to invalidate the scan cache');
+        } finally {
+            setInvalidatingFolder(null);
+        }
+    };
+
+    const cachedFolders = cacheInfo?.folders || [];
+    const uncachedInclusionFolders = inclusionFolders.filter(folder =>
+        !cachedFolders.some(cached => normalizeFolder(cached.folder) === normalizeFolder(folder))
+    );
+
+    const renderInvalidateButton = (folder: string) => (
+        <button
+            onClick={() => handleInvalidate(folder)}
+            disabled={invalidatingFolder !== null}
+            className="ml-2 px-2 py-0.5 text-xs whitespace-nowrap bg-gray-200 text-gray-800 rounded-sm hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500 disabled:opacity-50"
+            title="Scan this folder again on the next refresh"
+        >
+            {invalidatingFolder === folder ? 'Invalidating...' : 'Invalidate'}
+        </button>
+    );
+
+    return (
+        <div className="flex flex-col space-y-2 border p-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+            <div className="flex items-center justify-between">
+                <h3 className="text-md font-semibold text-gray-700 dark:text-gray-300">Scan Cache</h3>
+                <div className="flex items-center space-x-2">
+                    <button
+                        onClick={loadCache}
+                        disabled={isLoading}
+                        className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+                        title="Reload"
+                    >
+                        <ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                    </button>
+                    <button
+                        onClick={() => handleInvalidate()}
+                        disabled={invalidatingFolder !== null || cachedFolders.length === 0}
+                        className="px-3 py-1 text-sm bg-red-100 text-red-800 rounded-sm hover:bg-red-200 dark:bg-red-900/40 dark:text-red-200 dark:hover:bg-red-900/60 disabled:opacity-50"
+                    >
+                        Invalidate All
+                    </button>
+                </div>
+            </div>
+
+            {cacheInfo && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {cacheInfo.strategy === 'index'
+                        ? 'Indexed folders, invalidated folders have every file checked again on the next refresh.'
+                        : 'Reconcile results by folder, reused for an hour by any combination of inclusion folders.'}
+                    {' '}
+                    <span className="font-mono text-xs">{[cacheInfo.server, cacheInfo.client].filter(Boolean).join(' / ') || cacheInfo.clientRoot}</span>
+                </p>
+            )}
+
+            {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+            {cacheInfo && cachedFolders.length === 0 && (
+                <div className="text-sm text-gray-500 dark:text-gray-400">Nothing cached, the next refresh scans every folder.</div>
+            )}
+
+            {cachedFolders.map(cached => (
+                <div key={cached.folder} className="flex items-center justify-between p-2 bg-white dark:bg-gray-700 rounded-sm border text-sm">
+                    <div className="min-w-0">
+                        <div className="truncate font-mono" title={cached.folder}>{cached.folder}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                            Scanned {format(new Date(cached.scannedAt), 'MMM d, HH:mm:ss')}, {cached.fileCount} modified file{cached.fileCount !== 1 ? 's' : ''}
+                            {cached.isExpired && <span className="ml-1 text-yellow-600 dark:text-yellow-400">(expired)</span>}
+                            {cached.staleFolders.length > 0 && (
+                                <span className="ml-1 text-yellow-600 dark:text-yellow-400" title={cached.staleFolders.join('\n')}>
+                                    ({cached.staleFolders.length} subfolder{cached.staleFolders.length !== 1 ? 's' : ''} invalidated)
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                    {renderInvalidateButton(cached.folder)}
+                </div>
+            ))}
+
+            {cachedFolders.length > 0 && uncachedInclusionFolders.map(folder => (
+                <div key={folder} className="flex items-center justify-between p-2 bg-white dark:bg-gray-700 rounded-sm border text-sm">
+                    <div className="min-w-0">
+                        <div className="truncate font-mono" title={folder}>{folder}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">Inclusion folder</div>
+                    </div>
+                    {renderInvalidateButton(folder)}
+                </div>
+            ))}
+        </div>
+    );
+}
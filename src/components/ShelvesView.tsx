@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { P4Changelist } from '../types/p4';
+import { useLocalStorage } from '../lib/useLocalStorage';
+import ChangeDetailsView from './ChangeDetailsView';
+import DiffViewer, { DiffTarget } from './DiffViewer';
+
+// Constants for localStorage
+const SHELVES_FILTERS_KEY = 'perforceFriend_shelvesFilters';
+
+interface ShelvesFilters {
+    user: string;
+    path: string;
+    since: string;
+}
+
+// Get the first line of a change description for compact display
+const getDescriptionSummary = (description: string): string => {
+    const firstLine = description.split('\n')[0].trim();
+    return firstLine || '(no description)';
+};
+
+/**
+ * Shelved changes across the server, with the shelved files and their diffs
+ * Used by reviewers to look at work shelved by others
+ */
+export default function ShelvesView() {
+    const [filters, setFilters] = useLocalStorage<ShelvesFilters>(SHELVES_FILTERS_KEY, { user: '', path: '', since: '' });
+    const [shelves, setShelves] = useState<P4Changelist[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedChange, setSelectedChange] = useState<string | null>(null);
+    const [diffTarget, setDiffTarget] = useState<DiffTarget | null>(null);
+
+    // Load the shelved changes matching the filters
+    const loadShelves = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const params = new URLSearchParams();
+            if (filters.user.trim()) params.set('user', filters.user.trim());
+            if (filters.path.trim()) params.set('path', filters.path.trim());
+            if (filters.since) params.set('since', filters.since);
+
+            const response = await fetch(`/api/p4/shelves?${params.toString()}`);
+            const data = await response.json();
+
+            if (!response.ok) {
+                setError(data.details || data.error || 'Failed to load shelved changes');
+                return;
+            }
+
+            setShelves(data.shelves || []);
+        } catch (error) {
+            console.error('Error loading shelved changes:', error);
+            setError('Failed to load shelved changes');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Load with the saved filters when the tab opens
+    useEffect(() => {
+        loadShelves();
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const updateFilter = (key: keyof ShelvesFilters, value: string) => {
+        setFilters({ ...filters, [key]: value });
+    };
+
+    return (
+        <div className="w-full">
+            <form
+                className="flex flex-wrap items-end gap-3 mb-4"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    loadShelves();
+                }}
+            >
+                <div className="flex flex-col">
+                    <label htmlFor="shelvesUser" className="text-xs text-gray-600 dark:text-gray-400">User</label>
+                    <input
+                        id="shelvesUser"
+                        value={filters.user}
+                        onChange={(e) => updateFilter('user', e.target.value)}
+                        placeholder="Any user"
+                        className="px-2 py-1 text-sm border rounded-sm dark:bg-gray-800 dark:border-gray-700"
+                    />
+                </div>
+                <div className="flex flex-col flex-1 min-w-[16rem]">
+                    <label htmlFor="shelvesPath" className="text-xs text-gray-600 dark:text-gray-400">Depot path</label>
+                    <input
+                        id="shelvesPath"
+                        value={filters.path}
+                        onChange={(e) => updateFilter('path', e.target.value)}
+                        placeholder="//depot/main/..."
+                        className="px-2 py-1 text-sm border rounded-sm dark:bg-gray-800 dark:border-gray-700"
+                    />
+                </div>
+                <div className="flex flex-col">
+                    <label htmlFor="shelvesSince" className="text-xs text-gray-600 dark:text-gray-400">Since</label>
+                    <input
+                        id="shelvesSince"
+                        type="date"
+                        value={filters.since}
+                        onChange={(e) => updateFilter('since', e.target.value)}
+                        className="px-2 py-1 text-sm border rounded-sm dark:bg-gray-800 dark:border-gray-700"
+                    />
+                </div>
+                <button
+                    type="submit"
+                    disabled={isLoading}
+                    className="px-3 py-1 text-sm bg-blue-500 text-white rounded-sm hover:bg-blue-600 disabled:opacity-50"
+                >
+                    Search
+                </button>
+            </form>
+
+            {error && (
+                <div className="p-4 mb-4 text-center text-red-600 dark:text-red-400 border border-red-300 rounded bg-red-50 dark:bg-red-900/20 whitespace-pre-wrap">
+                    {error}
+                </div>
+            )}
+
+            <div className="flex gap-4">
+                <div className="flex-1 min-w-0 border rounded-lg dark:border-gray-700">
+                    {isLoading ? (
+                        <div className="p-4 text-center animate-pulse">Loading shelved changes...</div>
+                    ) : shelves.length === 0 ? (
+                        <div className="p-4 text-center text-gray-600 dark:text-gray-400">No shelved changes match the filters.</div>
+                    ) : (
+                        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {shelves.map(shelf => (
+                                <li
+                                    key={shelf.change}
+                                    onClick={() => setSelectedChange(shelf.change)}
+                                    className={`px-4 py-2 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 ${selectedChange === shelf.change ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                                >
+                                    <div className="flex items-baseline justify-between gap-2">
+                                        <span className="font-medium text-gray-900 dark:text-white">Change {shelf.change}</span>
+                                        <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                                            {shelf.date ? new Date(shelf.date).toLocaleString() : ''}
+                                        </span>
+                                    </div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">{shelf.user}@{shelf.client}</div>
+                                    <div className="text-gray-700 dark:text-gray-300 truncate" title={shelf.description}>
+                                        {getDescriptionSummary(shelf.description)}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {selectedChange && (
+                    <div className="w-1/2 shrink-0 border rounded-lg dark:border-gray-700 overflow-y-auto max-h-[75vh]">
+                        <ChangeDetailsView
+                            change={selectedChange}
+                            onBack={() => setSelectedChange(null)}
+                            backLabel="Close"
+                            shelved
+                            onDiffFile={(file) => setDiffTarget({ depotFile: file.depotFile, shelvedChange: selectedChange, rev: file.rev })}
+                        />
+                    </div>
+                )}
+            </div>
+
+            <DiffViewer target={diffTarget} onClose={() => setDiffTarget(null)} />
+        </div>
+    );
+}
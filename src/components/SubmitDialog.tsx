@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { P4Changelist, P4SubmitFile } from '../types/p4';
+
+interface SubmitDialogProps {
+    changelist: P4Changelist | null;
+    onClose: () => void;
+    onSubmitted: (submittedChange: string) => void;
+}
+
+export default function SubmitDialog({ changelist, onClose, onSubmitted }: SubmitDialogProps) {
+    const [description, setDescription] = useState('');
+    const [files, setFiles] = useState<P4SubmitFile[]>([]);
+    const [includedFiles, setIncludedFiles] = useState<Set<string>>(new Set());
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [errorDetails, setErrorDetails] = useState<string | null>(null);
+    const [submittedChange, setSubmittedChange] = useState<string | null>(null);
+
+    // Load the changelist files and their submit checks when the dialog opens
+    useEffect(() => {
+        if (!changelist) return;
+
+        setDescription(changelist.description);
+        setSubmittedChange(null);
+        setError(null);
+        setErrorDetails(null);
+        loadFiles(changelist.change);
+    }, [changelist]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const loadFiles = async (change: string) => {
+        setIsLoading(true);
+        try {
+            const response = await fetch(`/api/p4/changes/${change}/submit`);
+            const data = await response.json();
+
+            if (!response.ok) {
+                setError(data.error || 'Failed to check changelist');
+                setErrorDetails(data.details || null);
+                setFiles([]);
+                return;
+            }
+
+            setFiles(data.files || []);
+            setIncludedFiles(new Set((data.files || []).map((file: P4SubmitFile) => file.depotFile)));
+        } catch (error) {
+            console.error('Error checking changelist:', error);
+            setError('Failed to check changelist');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Toggle whether a file is submitted or left behind
+    const toggleFile = (depotFile: string) => {
+        setIncludedFiles(prevIncluded => {
+            const newIncluded = new Set(prevIncluded);
+            if (newIncluded.has(depotFile)) {
+                newIncluded.delete(depotFile);
+            } else {
+                newIncluded.add(depotFile);
+            }
+            return newIncluded;
+        });
+    };
+
+    const handleSubmit = async () => {
+        if (!changelist) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        setErrorDetails(null);
+        try {
+            const response = await fetch(`/api/p4/changes/${changelist.change}/submit`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ description, files: Array.from(includedFiles) }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                setError(data.error || 'Submit failed');
+                setErrorDetails(data.details || null);
+
+                // Refresh the file checks so the blocking files are flagged
+                if (data.files) {
+                    loadFiles(changelist.change);
+                }
+                return;
+            }
+
+            setSubmittedChange(data.change);
+            onSubmitted(data.change);
+        } catch (error) {
+            console.error('Error submitting changelist:', error);
+            setError('Submit failed');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (!changelist) {
+        return null;
+    }
+
+    const blockedFiles = files.filter(file => file.problem && includedFiles.has(file.depotFile));
+    const canSubmit = !isSubmitting && !isLoading && includedFiles.size > 0 && blockedFiles.length === 0 && description.trim() !== '';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-3/5 max-h-[90vh] max-w-4xl flex flex-col overflow-hidden">
+                <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Submit Changelist {changelist.change}</h2>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-gray-100"
+                    >
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-4">
+                    {submittedChange ? (
+                        <div className="p-4 text-green-800 border border-green-300 rounded bg-green-50 dark:bg-green-900/20 dark:text-green-200">
+                            Submitted as change {submittedChange}.
+                        </div>
+                    ) : (
+                        <>
+                            {error && (
+                                <div className="p-4 text-red-600 border border-red-300 rounded bg-red-50 dark:bg-red-900/20 dark:text-red-400">
+                                    <p className="font-semibold">{error}</p>
+                                    {errorDetails && <pre className="mt-2 text-xs whitespace-pre-wrap font-mono">{errorDetails}</pre>}
+                                </div>
+                            )}
+
+                            <div>
+                                <label htmlFor="submitDescription" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    Description
+                                </label>
+                                <textarea
+                                    id="submitDescription"
+                                    value={description}
+                                    onChange={(e) => setDescription(e.target.value)}
+                                    rows={5}
+                                    className="w-full px-3 py-2 text-sm border rounded-sm font-mono dark:bg-gray-900 dark:border-gray-700"
+                                />
+                            </div>
+
+                            <div>
+                                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    Files ({includedFiles.size} of {files.length} selected)
+                                </h3>
+                                {isLoading ? (
+                                    <div className="p-4 text-center text-sm animate-pulse border rounded-sm bg-gray-50 dark:bg-gray-900">
+                                        Checking files...
+                                    </div>
+                                ) : files.length === 0 ? (
+                                    <div className="p-4 text-center text-sm border rounded-sm text-gray-500 dark:text-gray-400">
+                                        This changelist has no files.
+                                    </div>
+                                ) : (
+                                    <ul className="border rounded-sm divide-y divide-gray-200 dark:border-gray-700 dark:divide-gray-700">
+                                        {files.map(file => (
+                                            <li key={file.depotFile} className="flex items-center px-3 py-2 text-sm">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={includedFiles.has(file.depotFile)}
+                                                    onChange={() => toggleFile(file.depotFile)}
+                                                    className="mr-3"
+                                                />
+                                                <span className="flex-1 truncate font-mono text-xs" title={file.depotFile}>{file.depotFile}</span>
+                                                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{file.action}</span>
+                                                {file.problem && (
+                                                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100">
+                                                        {file.problem}
+                                                    </span>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {blockedFiles.length > 0 && (
+                                    <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+                                        {blockedFiles.length} selected file(s) must be synced and resolved before submitting, or left behind.
+                                    </p>
+                                )}
+                                {includedFiles.size < files.length && (
+                                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                                        Unselected files will be moved to the default changelist.
+                                    </p>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex justify-end p-4 space-x-2 border-t border-gray-200 dark:border-gray-700">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                    >
+                        {submittedChange ? 'Close' : 'Cancel'}
+                    </button>
+                    {!submittedChange && (
+                        <button
+                            onClick={handleSubmit}
+                            disabled={!canSubmit}
+                            className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isSubmitting ? 'Submitting...' : 'Submit'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { P4SyncAction, P4SyncFile } from '../types/p4';
+
+interface SyncDialogProps {
+    // Local folder to sync, null for the whole workspace
+    path: string | null;
+    onClose: () => void;
+}
+
+type SyncSummary = Record<P4SyncAction, number>;
+
+// Labels and colors of sync actions, in the order they are listed
+const SYNC_ACTION_LABELS: { action: P4SyncAction; label: string; color: string }[] = [
+    { action: 'cantClobber', label: "Can't clobber (writable, not checked out)", color: 'text-red-700 dark:text-red-400' },
+    { action: 'needsResolve', label: 'Needs resolve', color: 'text-orange-700 dark:text-orange-400' },
+    { action: 'updated', label: 'Updated', color: 'text-blue-700 dark:text-blue-400' },
+    { action: 'added', label: 'Added', color: 'text-green-700 dark:text-green-400' },
+    { action: 'deleted', label: 'Deleted', color: 'text-red-700 dark:text-red-400' },
+    { action: 'refreshed', label: 'Refreshed', color: 'text-gray-700 dark:text-gray-300' },
+    { action: 'opened', label: 'Checked out, not changed', color: 'text-gray-700 dark:text-gray-300' },
+    { action: 'other', label: 'Other', color: 'text-gray-700 dark:text-gray-300' },
+];
+
+/**
+ * Preview and run 'p4 sync' for a folder or the whole workspace
+ * The preview lists what would change, the sync streams its progress file by file
+ */
+export default function SyncDialog({ path, onClose }: SyncDialogProps) {
+    const [previewFiles, setPreviewFiles] = useState<P4SyncFile[]>([]);
+    const [syncedFiles, setSyncedFiles] = useState<P4SyncFile[]>([]);
+    const [summary, setSummary] = useState<SyncSummary | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [stage, setStage] = useState<'previewing' | 'preview' | 'syncing' | 'done'>('previewing');
+
+    // Aborts the running sync when the dialog is closed
+    const abortRef = useRef<AbortController | null>(null);
+
+    const target = path ? `${path.replace(/[\\/]+$/, '')}/...` : 'the whole workspace';
+
+    // Preview the sync when the dialog opens
+    useEffect(() => {
+        const loadPreview = async () => {
+            setStage('previewing');
+            setErrors([]);
+            try {
+                const response = await fetch('/api/p4/sync', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ path, preview: true }),
+                });
+                const data = await response.json();
+
+                if (!response.ok) {
+                    setErrors([data.details || data.error || 'Failed to preview sync']);
+                    return;
+                }
+
+                setPreviewFiles(data.files || []);
+                setSummary(data.summary);
+                setErrors(data.errors || []);
+            } catch (error) {
+                console.error('Error previewing sync:', error);
+                setErrors(['Failed to preview sync']);
+            } finally {
+                setStage('preview');
+            }
+        };
+
+        loadPreview();
+    }, [path]);
+
+    // Stop a running sync if the dialog goes away
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleSync = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        setStage('syncing');
+        setSyncedFiles([]);
+        setSummary(null);
+        setErrors([]);
+
+        try {
+            const response = await fetch('/api/p4/sync', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ path, preview: false }),
+                signal: controller.signal,
+            });
+
+            if (!response.ok || !response.body) {
+                const data = await response.json().catch(() => ({}));
+                setErrors([data.details || data.error || 'Failed to sync']);
+                return;
+            }
+
+            // The sync streams one JSON event per line
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffered = '';
+            let finished = false;
+
+            const handleEvent = (line: string) => {
+                if (!line.trim()) return;
+                const event = JSON.parse(line);
+                if (event.type === 'file') {
+                    setSyncedFiles(files => [...files, event.file]);
+                } else if (event.type === 'error') {
+                    setErrors(errors => [...errors, event.message]);
+                } else if (event.type === 'done') {
+                    finished = true;
+                    setSummary(event.summary);
+                }
+            };
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffered += decoder.decode(value, { stream: true });
+                const lines = buffered.split('\n');
+                buffered = lines.pop() || '';
+                lines.forEach(handleEvent);
+            }
+            handleEvent(buffered);
+
+            // The stream ends early when the sync job is cancelled from the jobs tray
+            if (!finished) {
+                setErrors(errors => [...errors, 'The sync was cancelled before it finished']);
+            }
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            console.error('Error syncing:', error);
+            setErrors(errors => [...errors, 'Failed to sync']);
+        } finally {
+            abortRef.current = null;
+            setStage('done');
+        }
+    };
+
+    const files = stage === 'syncing' || stage === 'done' ? syncedFiles : previewFiles;
+    const progress = previewFiles.length > 0 ? Math.min(100, Math.round((syncedFiles.length / previewFiles.length) * 100)) : 0;
+    const currentFile = syncedFiles[syncedFiles.length - 1];
+
+    const renderFileGroups = () => (
+        <div className="space-y-3">
+            {SYNC_ACTION_LABELS.map(({ action, label, color }) => {
+                const groupFiles = files.filter(file => file.action === action);
+                if (groupFiles.length === 0) return null;
+                return (
+                    <div key={action}>
+                        <h3 className={`text-sm font-medium ${color}`}>{label} ({groupFiles.length})</h3>
+                        <ul className="mt-1 space-y-0.5 text-xs font-mono">
+                            {groupFiles.map((file, index) => (
+                                <li key={`${file.depotFile}-${index}`} className="truncate" title={file.message}>
+                                    {file.depotFile}{file.rev && `#${file.rev}`}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                );
+            })}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col text-gray-900 dark:text-gray-100">
+                <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold">Get Latest Revisions</h2>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={target}>{target}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-300 dark:hover:text-gray-100">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+                    {stage === 'previewing' && <div className="p-8 text-center animate-pulse">Checking what would change...</div>}
+
+                    {stage === 'syncing' && (
+                        <div>
+                            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                                <span className="truncate" title={currentFile?.depotFile}>{currentFile ? currentFile.depotFile : 'Starting sync...'}</span>
+                                <span className="whitespace-nowrap ml-2">{syncedFiles.length} / {previewFiles.length}</span>
+                            </div>
+                            <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded">
+                                <div className="h-2 bg-blue-500 rounded transition-all" style={{ width: `${progress}%` }} />
+                            </div>
+                        </div>
+                    )}
+
+                    {errors.length > 0 && (
+                        <div className="px-4 py-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 whitespace-pre-wrap">{errors.join('\n')}</div>
+                    )}
+
+                    {stage === 'done' && summary && (summary.cantClobber > 0 || summary.needsResolve > 0) && (
+                        <div className="px-4 py-2 text-sm text-orange-800 dark:text-orange-200 bg-orange-50 dark:bg-orange-900/20">
+                            {summary.cantClobber > 0 && (
+                                <p>{summary.cantClobber} writable file(s) were not replaced. Check them out or reconcile them from the Changed Files tab before syncing again.</p>
+                            )}
+                            {summary.needsResolve > 0 && (
+                                <p>{summary.needsResolve} checked out file(s) must be resolved before they can be submitted.</p>
+                            )}
+                        </div>
+                    )}
+
+                    {stage !== 'previewing' && summary && (
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                            {SYNC_ACTION_LABELS.filter(({ action }) => summary[action] > 0).map(({ action, label, color }) => (
+                                <span key={action} className={color}>{label}: {summary[action]}</span>
+                            ))}
+                        </div>
+                    )}
+
+                    {stage !== 'previewing' && files.length === 0 && errors.length === 0 && stage !== 'syncing' && (
+                        <div className="p-4 text-center text-gray-500 dark:text-gray-400">Everything is up to date.</div>
+                    )}
+
+                    {stage !== 'previewing' && renderFileGroups()}
+                </div>
+
+                <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm rounded bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600"
+                    >
+                        {stage === 'syncing' ? 'Cancel' : 'Close'}
+                    </button>
+                    {stage === 'preview' && previewFiles.length > 0 && (
+                        <button
+                            onClick={handleSync}
+                            className="px-4 py-2 text-sm rounded bg-green-600 hover:bg-green-700 text-white"
+                        >
+                            Sync now ({previewFiles.length} files)
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
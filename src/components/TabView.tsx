@@ -1,12 +1,16 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import ModifiedFilesList from './ModifiedFilesList';
 import CheckedOutFilesList from './CheckedOutFilesList';
-import { ModifiedFile } from '@/types/modifiedFiles';
-import { P4CheckedOutFile } from '@/types/p4';
+import ChangelistPanel from './ChangelistPanel';
+import RecentlyRevertedPanel from './RecentlyRevertedPanel';
+import ShelvesView from './ShelvesView';
+import { ModifiedFile, ReconcileScanProgress } from '@/types/modifiedFiles';
+import { P4Changelist, P4CheckedOutFile, P4PendingResolve, P4ResolveMode, P4RevertMode } from '@/types/p4';
+import { syncFilesToHead } from '@/lib/useFileRevisions';
 
 interface TabViewProps {
-    activeTab: 'checkedOut' | 'changed';
-    onTabChange: (tab: 'checkedOut' | 'changed') => void;
+    activeTab: 'checkedOut' | 'changed' | 'shelves';
+    onTabChange: (tab: 'checkedOut' | 'changed' | 'shelves') => void;
     inclusionFolders: string[];
     onInclusionFoldersChange: (folders: string[]) => void;
 }
@@ -24,6 +28,13 @@ export default function TabView({
     const [checkedOutError, setCheckedOutError] = useState<string | null>(null);
     const [modifiedError, setModifiedError] = useState<string | null>(null);
     const [lastChecked, setLastChecked] = useState<string | null>(null);
+    const [changelists, setChangelists] = useState<P4Changelist[]>([]);
+    const [isLoadingChangelists, setIsLoadingChangelists] = useState(false);
+    const [changelistsError, setChangelistsError] = useState<string | null>(null);
+    const [revertCount, setRevertCount] = useState(0);
+    const [pendingResolves, setPendingResolves] = useState<P4PendingResolve[]>([]);
+    const [scanProgress, setScanProgress] = useState<ReconcileScanProgress | null>(null);
+    const scanAbortRef = useRef<AbortController | null>(null);
 
     // Update any useEffects that might be automatically loading modified files
     useEffect(() => {
@@ -31,7 +42,11 @@ export default function TabView({
         // We'll rely on the explicit Scan button for this
         if (activeTab === 'checkedOut') {
             loadCheckedOutFiles();
+            loadPendingResolves();
         }
+
+        // Both tabs can open files in a pending changelist
+        loadChangelists();
         // We deliberately don't call loadModifiedFiles() here to avoid automatic scanning
     }, [activeTab]);
 
@@ -56,8 +71,295 @@ export default function TabView({
         }
     };
 
+    // Load opened files that need resolving, e.g. after a sync or unshelve
+    const loadPendingResolves = async () => {
+        try {
+            const response = await fetch('/api/p4/files/resolve');
+            const data = await response.json();
+
+            if (data.success) {
+                setPendingResolves(data.resolves || []);
+            } else {
+                console.error('Failed to load files to resolve:', data.details || data.error);
+            }
+        } catch (error) {
+            console.error('Error loading files to resolve:', error);
+        }
+    };
+
+    // Load pending changelists of the current workspace
+    const loadChangelists = async () => {
+        setIsLoadingChangelists(true);
+        try {
+            const response = await fetch('/api/p4/changes');
+            const data = await response.json();
+
+            if (data.success) {
+                setChangelists(data.changes || []);
+                setChangelistsError(null);
+            } else {
+                setChangelistsError(data.error || 'Failed to load changelists');
+            }
+        } catch (error) {
+            setChangelistsError('Error loading changelists');
+            console.error('Error loading changelists:', error);
+        } finally {
+            setIsLoadingChangelists(false);
+        }
+    };
+
+    // Reload both the changelists and the files they contain
+    const handleChangelistsChanged = () => {
+        loadChangelists();
+        loadCheckedOutFiles();
+        loadPendingResolves();
+    };
+
+    // Resolve files automatically, reporting files skipped because of conflicts
+    const handleResolveFiles = async (depotFiles: string[], mode: P4ResolveMode) => {
+        try {
+            const response = await fetch('/api/p4/files/resolve', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ files: depotFiles, mode }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setCheckedOutError(data.details || data.error || 'Failed to resolve files');
+                return;
+            }
+
+            setPendingResolves(data.resolves || []);
+            if (data.skipped && data.skipped.length > 0) {
+                alert(`${data.message}. Open them in the merge editor to resolve the conflicts.`);
+            }
+        } catch (error) {
+            setCheckedOutError('Error resolving files');
+            console.error('Error resolving files:', error);
+        }
+    };
+
+    // Move opened files to another changelist ('new' creates one with the given description)
+    const handleMoveFiles = async (depotFiles: string[], change: string, description?: string) => {
+        try {
+            const response = await fetch('/api/p4/files/reopen', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ files: depotFiles, change, description }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setCheckedOutError(data.details || data.error || 'Failed to move files');
+                return;
+            }
+
+            handleChangelistsChanged();
+        } catch (error) {
+            setCheckedOutError('Error moving files between changelists');
+            console.error('Error moving files between changelists:', error);
+        }
+    };
+
+    // Revert opened files, backing up local changes that would be discarded
+    const handleRevertFiles = async (depotFiles: string[], mode: P4RevertMode) => {
+        try {
+            const response = await fetch('/api/p4/files/revert', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ files: depotFiles, mode }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                setCheckedOutError(data.details || data.error || 'Failed to revert files');
+                return;
+            }
+
+            setRevertCount(count => count + 1);
+            handleChangelistsChanged();
+        } catch (error) {
+            setCheckedOutError('Error reverting files');
+            console.error('Error reverting files:', error);
+        }
+    };
+
+    // Shelve files in the changelists they are opened in, default changelist files can't be shelved as they are
+    const handleShelveFiles = async (depotFiles: string[]) => {
+        const filesByChange: Record<string, string[]> = {};
+        checkedOutFiles
+            .filter(file => depotFiles.includes(file.depotFile))
+            .forEach(file => {
+                filesByChange[file.change] = [...(filesByChange[file.change] || []), file.depotFile];
+            });
+
+        if (filesByChange.default) {
+            setCheckedOutError('Files in the default changelist must be moved to a numbered changelist before they can be shelved');
+            return;
+        }
+
+        try {
+            for (const [change, files] of Object.entries(filesByChange)) {
+                const response = await fetch(`/api/p4/changes/${change}/shelve`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ files }),
+                });
+
+                const data = await response.json();
+                if (!response.ok) {
+                    setCheckedOutError(data.details || data.error || `Failed to shelve files of changelist ${change}`);
+                    return;
+                }
+            }
+
+            loadChangelists();
+        } catch (error) {
+            setCheckedOutError('Error shelving files');
+            console.error('Error shelving files:', error);
+        }
+    };
+
+    // Sync out of date opened files to head, which schedules a resolve for each of them
+    const handleSyncFiles = async (depotFiles: string[]) => {
+        try {
+            const { errors } = await syncFilesToHead(depotFiles);
+            if (errors.length > 0) {
+                setCheckedOutError(errors.join('\n'));
+            }
+        } catch (error) {
+            setCheckedOutError(error instanceof Error ? error.message : 'Error syncing files');
+            console.error('Error syncing files:', error);
+        } finally {
+            handleChangelistsChanged();
+        }
+    };
+
+    // Drop files that were just opened from the modified files list, they are now checked out
+    const handleModifiedFilesOpened = (depotPaths: string[]) => {
+        const opened = new Set(depotPaths);
+        setModifiedFiles(prevFiles => prevFiles.filter(file => !file.depotPath || !opened.has(file.depotPath)));
+    };
+
+    // Scan for modified files, showing files and per-folder progress while reconcile is still running
+    // A full scan reconciles every file instead of only those changed since the last scan
+    const scanModifiedFiles = async (fullScan: boolean = false) => {
+        scanAbortRef.current?.abort();
+        const controller = new AbortController();
+        scanAbortRef.current = controller;
+
+        setIsLoadingModified(true);
+        setModifiedFiles([]);
+        setModifiedError(null);
+        setScanProgress({ folders: inclusionFolders, currentFolder: null, foldersDone: 0, fileCount: 0, startTime: Date.now(), folderErrors: [] });
+        try {
+            const url = new URL('/api/p4/files/modified/stream', window.location.origin);
+            url.searchParams.set('maxFiles', '1000');
+            if (inclusionFolders.length > 0) {
+                url.searchParams.set('inclusionFolders', inclusionFolders.join(','));
+            }
+            if (fullScan) {
+                url.searchParams.set('forceRefresh', 'true');
+            }
+
+            const response = await fetch(url.toString(), { cache: 'no-store', signal: controller.signal });
+            if (!response.ok || !response.body) {
+                const data = await response.json().catch(() => ({}));
+                setModifiedError(data.error || 'Failed to load modified files');
+                return;
+            }
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffered = '';
+            let finished = false;
+
+            // Each event is an 'event:' line and a 'data:' line followed by a blank line
+            const handleEvent = (message: string) => {
+                if (!message.trim()) return;
+                const type = message.match(/^event: (.*)$/m)?.[1];
+                const data = JSON.parse(message.match(/^data: (.*)$/m)?.[1] || '{}');
+
+                if (type === 'folder-start') {
+                    setScanProgress(progress => progress && { ...progress, currentFolder: data.folder });
+                } else if (type === 'files') {
+                    setModifiedFiles(prevFiles => [...prevFiles, ...data.files]);
+                    setScanProgress(progress => progress && { ...progress, fileCount: data.fileCount });
+                } else if (type === 'folder-done') {
+                    setScanProgress(progress => progress && {
+                        ...progress,
+                        currentFolder: null,
+                        foldersDone: progress.foldersDone + 1,
+                        folderErrors: data.error ? [...progress.folderErrors, { folder: data.folder || 'workspace', error: data.error }] : progress.folderErrors,
+                    });
+                } else if (type === 'done') {
+                    finished = true;
+                    setLastChecked(data.cacheTime || new Date().toISOString());
+                    if (data.limitApplied) {
+                        setModifiedError(`Note: Showing the first ${data.totalFiles} modified files, add inclusion folders to narrow the scan.`);
+                    }
+                } else if (type === 'error') {
+                    finished = true;
+                    setModifiedError(data.details || data.error || 'Failed to load modified files');
+                }
+            };
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffered += decoder.decode(value, { stream: true });
+                const messages = buffered.split('\n\n');
+                buffered = messages.pop() || '';
+                messages.forEach(handleEvent);
+            }
+            handleEvent(buffered);
+
+            // The stream ends early when the scan job is cancelled from the jobs tray
+            if (!finished) {
+                setModifiedError('Note: The scan was cancelled, the files found before it stopped are shown.');
+            }
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            setModifiedError('Error loading modified files');
+            console.error('Error loading modified files:', error);
+        } finally {
+            if (scanAbortRef.current === controller) {
+                scanAbortRef.current = null;
+                setScanProgress(null);
+                setIsLoadingModified(false);
+            }
+        }
+    };
+
+    // Stop a running scan, the files found so far are kept
+    const handleCancelScan = () => {
+        scanAbortRef.current?.abort();
+        scanAbortRef.current = null;
+        setScanProgress(null);
+        setIsLoadingModified(false);
+    };
+
+    // Stop the scan when leaving the page
+    useEffect(() => {
+        return () => scanAbortRef.current?.abort();
+    }, []);
+
+    // Add files the workspace watcher found saved without a checkout, files already listed are kept as they are
+    const handleFilesModified = (files: ModifiedFile[]) => {
+        setModifiedFiles(prevFiles => {
+            const listed = new Set(prevFiles.map(file => file.depotPath));
+            const newFiles = files.filter(file => !listed.has(file.depotPath));
+            return newFiles.length > 0 ? [...newFiles, ...prevFiles] : prevFiles;
+        });
+    };
+
     // Load modified files
     const loadModifiedFiles = async (skipScan: boolean = false) => {
+        if (!skipScan) {
+            return scanModifiedFiles();
+        }
+
         setIsLoadingModified(true);
         try {
             // Build URL with parameters
@@ -99,7 +401,7 @@ export default function TabView({
     // Handle refresh action
     const handleRefresh = () => {
         if (activeTab === 'checkedOut') {
-            loadCheckedOutFiles();
+            handleChangelistsChanged();
         } else {
             // When user explicitly requests refresh, run the scan (skipScan = false)
             loadModifiedFiles(false);
@@ -128,25 +430,61 @@ export default function TabView({
                 >
                     Checked Out Files
                 </button>
+                <button
+                    className={`px-4 py-2 text-sm font-medium ${activeTab === 'shelves'
+                        ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                        : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+                        }`}
+                    onClick={() => onTabChange('shelves')}
+                >
+                    Shelves
+                </button>
             </div>
 
             {/* Tab content */}
             <div className="flex-1 overflow-auto p-4">
                 {activeTab === 'checkedOut' ? (
-                    <CheckedOutFilesList
-                        files={checkedOutFiles}
-                        isLoading={isLoadingCheckedOut}
-                        error={checkedOutError || undefined}
-                    />
+                    <>
+                        <ChangelistPanel
+                            changelists={changelists}
+                            files={checkedOutFiles}
+                            isLoading={isLoadingChangelists}
+                            error={changelistsError || undefined}
+                            onChanged={handleChangelistsChanged}
+                            onDropFiles={handleMoveFiles}
+                        />
+                        <CheckedOutFilesList
+                            files={checkedOutFiles}
+                            isLoading={isLoadingCheckedOut}
+                            error={checkedOutError || undefined}
+                            changelists={changelists}
+                            onMoveFiles={handleMoveFiles}
+                            onRevertFiles={handleRevertFiles}
+                            pendingResolves={pendingResolves}
+                            onResolveFiles={handleResolveFiles}
+                            onMerged={loadPendingResolves}
+                            onShelveFiles={handleShelveFiles}
+                            onSyncFiles={handleSyncFiles}
+                        />
+                        <RecentlyRevertedPanel refreshKey={revertCount} />
+                    </>
+                ) : activeTab === 'shelves' ? (
+                    <ShelvesView />
                 ) : (
                     <ModifiedFilesList
                         files={modifiedFiles}
                         isLoading={isLoadingModified}
                         error={modifiedError}
-                        onRefresh={loadModifiedFiles}
+                        onRefresh={() => loadModifiedFiles(false)}
+                        onFullScan={() => scanModifiedFiles(true)}
                         lastChecked={lastChecked}
+                        scanProgress={scanProgress}
+                        onCancelScan={handleCancelScan}
                         inclusionFolders={inclusionFolders}
                         onInclusionFoldersChange={onInclusionFoldersChange}
+                        changelists={changelists}
+                        onFilesOpened={handleModifiedFilesOpened}
+                        onFilesModified={handleFilesModified}
                     />
                 )}
             </div>
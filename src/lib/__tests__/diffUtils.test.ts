@@ -0,0 +1,22 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { applyRcsDiff } from "../diffUtils";
+
+const BASE = "line1\nline2\nline3\nline4\nline5\n";
+
+describe("applyRcsDiff", () => {
+    it("applies the changes of 'p4 diff -dn' output to the base revision", () => {
+        const diff = fs.readFileSync(path.join(__dirname, "fixtures", "diff.txt"), { encoding: "utf8" });
+
+        expect(applyRcsDiff(BASE, diff)).toBe("line1\nline two\nline3\ninserted\nline5\n\nend\n");
+    });
+
+    it("returns the base when the file is unchanged", () => {
+        expect(applyRcsDiff(BASE, "==== //depot/main/notes.txt#3 - /home/alice/ws/notes.txt ====\n")).toBe(BASE);
+    });
+
+    it("handles a file whose lines were all deleted", () => {
+        expect(applyRcsDiff(BASE, "d1 5\n")).toBe("");
+    });
+});
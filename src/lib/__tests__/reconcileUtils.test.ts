@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { isCompleteReconcile } from "../reconcileUtils";
+
+describe("isCompleteReconcile", () => {
+    it("accepts a run that exited 0", () => {
+        expect(isCompleteReconcile({ exitCode: 0, stderr: "" })).toBe(true);
+    });
+
+    it("accepts a failed run that only reported single files", () => {
+        const stderr = "//depot/main/gone.txt - no such file(s).\n/ws/outside (1).txt - file(s) not in client view.\n";
+
+        expect(isCompleteReconcile({ exitCode: 1, stderr })).toBe(true);
+    });
+
+    it("rejects runs that timed out or were stopped, even after some output", () => {
+        expect(isCompleteReconcile({ exitCode: null, stderr: "", timedOut: true })).toBe(false);
+        expect(isCompleteReconcile({ exitCode: null, stderr: "", error: "Reconcile was stopped (SIGTERM)" })).toBe(false);
+        expect(isCompleteReconcile({ exitCode: 0, stderr: "", error: "Command was cancelled" })).toBe(false);
+    });
+
+    it("rejects a failed run with other errors", () => {
+        expect(isCompleteReconcile({ exitCode: 1, stderr: "Your session has expired, please login again.\n" })).toBe(false);
+        expect(isCompleteReconcile({ exitCode: 1, stderr: "//depot/a.txt - no such file(s).\nConnect to server failed\n" })).toBe(false);
+        expect(isCompleteReconcile({ exitCode: 1, stderr: "" })).toBe(false);
+    });
+});
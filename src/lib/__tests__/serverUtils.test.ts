@@ -0,0 +1,58 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { parseP4ChangesOutput, parseP4DescribeOutput } from "../serverUtils";
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, "fixtures", name), { encoding: "utf8" });
+
+describe("parseP4ChangesOutput", () => {
+    it("parses changes with multi-line descriptions", () => {
+        const changes = parseP4ChangesOutput(readFixture("changes.txt"));
+
+        expect(changes).toEqual([
+            {
+                change: "1240",
+                description: "Fix parsing of paths with spaces\n\nSecond paragraph of the description",
+                user: "alice",
+                client: "ws",
+                status: "pending",
+                date: new Date(1700000000 * 1000).toISOString(),
+                shelved: true,
+            },
+            {
+                change: "1238",
+                description: "One line",
+                user: "bob",
+                client: "ws2",
+                status: "pending",
+                date: new Date(1699990000 * 1000).toISOString(),
+                shelved: false,
+            },
+        ]);
+    });
+
+    it("returns no changes for empty output", () => {
+        expect(parseP4ChangesOutput("")).toEqual([]);
+    });
+});
+
+describe("parseP4DescribeOutput", () => {
+    it("parses the change and its indexed files", () => {
+        expect(parseP4DescribeOutput(readFixture("describe.txt"))).toEqual({
+            change: "1240",
+            user: "alice",
+            client: "ws",
+            date: new Date(1700000000 * 1000).toISOString(),
+            status: "pending",
+            description: "Fix parsing of paths with spaces\n\nSecond paragraph of the description",
+            files: [
+                { depotFile: "//depot/main/My Project/notes %231 (draft).txt", rev: "4", action: "edit" },
+                { depotFile: "//depot/main/assets/icon%402x.png", rev: "1", action: "add" },
+            ],
+        });
+    });
+
+    it("returns null without a change", () => {
+        expect(parseP4DescribeOutput("")).toBeNull();
+    });
+});
@@ -0,0 +1,193 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { parseP4AnnotateOutput, parseP4FilelogOutput, parseP4FstatDigests, parseP4InfoOutput, parseP4OpenedOutput, parseP4ReconcileOutput, parseP4WhereOutput, parseP4ZtagOutput } from "../ztagUtils";
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, "fixtures", name), { encoding: "utf8" });
+
+describe("parseP4ZtagOutput", () => {
+    it("splits records on blank lines", () => {
+        const records = parseP4ZtagOutput(readFixture("reconcile.txt"));
+
+        expect(records).toHaveLength(4);
+        expect(records.map((record) => record.action)).toEqual(["edit", "add", "delete", "edit"]);
+    });
+
+    it("keeps values with spaces, '#', '@' and parentheses whole", () => {
+        const [first, second] = parseP4ZtagOutput(readFixture("reconcile.txt"));
+
+        expect(first.clientFile).toBe("/home/alice/ws/My Project/notes #1 (draft).txt");
+        expect(second.clientFile).toBe("/home/alice/ws/My Project/user@host (old).cfg");
+    });
+
+    it("keeps '#' and '@' escaped in depot paths, as p4 commands expect them", () => {
+        const [first, second] = parseP4ZtagOutput(readFixture("reconcile.txt"));
+
+        expect(first.depotFile).toBe("//depot/main/My Project/notes %231 (draft).txt");
+        expect(second.depotFile).toBe("//depot/main/My Project/user%40host (old).cfg");
+    });
+
+    it("stores nested fields flat and empty fields as empty strings", () => {
+        const [record] = parseP4ZtagOutput("... depotFile //depot/a.txt\n... ... otherOpen0 bob@ws\n... isMapped \n");
+
+        expect(record).toEqual({ depotFile: "//depot/a.txt", otherOpen0: "bob@ws", isMapped: "" });
+    });
+
+    it("handles Windows line endings", () => {
+        const records = parseP4ZtagOutput("... depotFile //depot/a b.txt\r\n... action edit\r\n\r\n... depotFile //depot/c.txt\r\n... action add\r\n");
+
+        expect(records).toEqual([
+            { depotFile: "//depot/a b.txt", action: "edit" },
+            { depotFile: "//depot/c.txt", action: "add" },
+        ]);
+    });
+
+    it("joins continuation lines, including blank ones, to the previous field", () => {
+        const [record] = parseP4ZtagOutput(readFixture("changes.txt"));
+
+        expect(record.desc).toBe("Fix parsing of paths with spaces\n\nSecond paragraph of the description");
+        expect(record.shelved).toBe("");
+    });
+
+    it("returns no records for empty output", () => {
+        expect(parseP4ZtagOutput("")).toEqual([]);
+        expect(parseP4ZtagOutput("\n\n")).toEqual([]);
+    });
+});
+
+describe("parseP4InfoOutput", () => {
+    it("leaves out an unknown workspace", () => {
+        const info = parseP4InfoOutput("... userName alice\n... clientName *unknown*\n... clientRoot C:\\Work Space (main)\n");
+
+        expect(info.userName).toBe("alice");
+        expect(info.clientName).toBeUndefined();
+        expect(info.clientRoot).toBe("C:\\Work Space (main)");
+    });
+});
+
+describe("parseP4OpenedOutput", () => {
+    it("parses every opened file", () => {
+        const files = parseP4OpenedOutput(readFixture("opened.txt"));
+
+        expect(files).toEqual([
+            {
+                depotFile: "//depot/main/My Project/src/main (copy).cpp",
+                clientFile: "",
+                rev: "3",
+                action: "edit",
+                type: "text",
+                change: "1234",
+                user: "alice",
+                client: "ws",
+            },
+            {
+                depotFile: "//depot/main/assets/icon%402x.png",
+                clientFile: "",
+                rev: "1",
+                action: "add",
+                type: "binary+F",
+                change: "default",
+                user: "alice",
+                client: "ws",
+            },
+        ]);
+    });
+});
+
+describe("parseP4ReconcileOutput", () => {
+    it("uses local paths and leaves client syntax paths without one", () => {
+        const files = parseP4ReconcileOutput(readFixture("reconcile.txt"));
+
+        expect(files[0]).toEqual({
+            depotFile: "//depot/main/My Project/notes %231 (draft).txt",
+            clientFile: "/home/alice/ws/My Project/notes #1 (draft).txt",
+            localFile: "/home/alice/ws/My Project/notes #1 (draft).txt",
+            status: "edit",
+            type: "text",
+        });
+        expect(files[1]).toEqual({
+            depotFile: "//depot/main/My Project/user%40host (old).cfg",
+            clientFile: "/home/alice/ws/My Project/user@host (old).cfg",
+            localFile: "/home/alice/ws/My Project/user@host (old).cfg",
+            status: "add",
+            type: "text",
+        });
+        expect(files[3]).toEqual({ depotFile: "//depot/other/outside.txt", clientFile: "//ws/other/outside.txt", localFile: "", status: "edit", type: "text" });
+    });
+
+    it("skips messages and stops at maxFiles", () => {
+        const output = `... depotFile //depot/main/...\n... message no file(s) to reconcile\n\n${readFixture("reconcile.txt")}`;
+
+        expect(parseP4ReconcileOutput(output)).toHaveLength(4);
+        expect(parseP4ReconcileOutput(output, 2).map((file) => file.status)).toEqual(["edit", "add"]);
+    });
+});
+
+describe("parseP4WhereOutput", () => {
+    it("maps depot paths to local paths", () => {
+        const mappings = parseP4WhereOutput(readFixture("where.txt"));
+
+        expect(mappings["//depot/main/My Project/file (1).txt"]).toEqual({
+            depotFile: "//depot/main/My Project/file (1).txt",
+            clientFile: "//ws/My Project/file (1).txt",
+            path: "/home/alice/ws/My Project/file (1).txt",
+        });
+        expect(mappings["//depot/main/docs/a@b.md"].path).toBe("/home/alice/ws/docs/a@b.md");
+    });
+
+    it("skips unmap records", () => {
+        const mappings = parseP4WhereOutput(readFixture("where.txt"));
+
+        expect(Object.keys(mappings)).toHaveLength(2);
+        expect(mappings["//depot/main/build/out #2.obj"]).toBeUndefined();
+    });
+
+    it("keeps the mapping when a file is also matched by an unmap line", () => {
+        const output = "... depotFile //depot/a (1).txt\n... clientFile //ws/a (1).txt\n... path /ws/a (1).txt\n\n... depotFile //depot/a (1).txt\n... clientFile //ws/a (1).txt\n... path /ws/a (1).txt\n... unmap \n";
+
+        expect(parseP4WhereOutput(output)["//depot/a (1).txt"].path).toBe("/ws/a (1).txt");
+    });
+});
+
+describe("parseP4FstatDigests", () => {
+    it("gets digests by local path, skipping files without one", () => {
+        const output = [
+            "... depotFile //depot/main/a #1.txt\n... clientFile /ws/a #1.txt\n... digest 0CC175B9C0F1B6A831C399E269772661\n",
+            "... depotFile //depot/main/gone.txt\n... clientFile /ws/gone.txt\n... headAction delete\n",
+        ].join("\n");
+
+        expect(parseP4FstatDigests(output)).toEqual({ "/ws/a #1.txt": "0CC175B9C0F1B6A831C399E269772661" });
+    });
+});
+
+describe("parseP4FilelogOutput", () => {
+    it("parses indexed revisions with their descriptions and integrations", () => {
+        const revisions = parseP4FilelogOutput(readFixture("filelog.txt"));
+
+        expect(revisions).toHaveLength(3);
+        expect(revisions[0]).toEqual({
+            depotFile: "//depot/main/src/main (copy).cpp",
+            rev: "3",
+            change: "1250",
+            action: "integrate",
+            date: new Date(1700000000 * 1000).toISOString(),
+            user: "alice",
+            client: "ws",
+            type: "text",
+            description: "Merge fixes from dev\n\nSecond paragraph",
+            integrations: [{ how: "copy from", file: "//depot/dev/src/main (copy).cpp", startRev: "2", endRev: "3" }],
+        });
+        expect(revisions[1].integrations).toEqual([]);
+        expect(revisions[2].integrations).toEqual([{ how: "branch from", file: "//depot/dev/src/main (copy).cpp", startRev: undefined, endRev: "1" }]);
+    });
+});
+
+describe("parseP4AnnotateOutput", () => {
+    it("parses a record for every line, skipping the file record", () => {
+        expect(parseP4AnnotateOutput(readFixture("annotate.txt"))).toEqual([
+            { change: "1200", user: "bob", date: "2023/11/14", text: "#include <stdio.h>" },
+            { change: "1250", user: "alice", date: "2023/11/14", text: "" },
+            { change: "1250", user: "alice", date: "2023/11/14", text: "int main() { return 0; }" },
+        ]);
+    });
+});
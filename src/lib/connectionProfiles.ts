@@ -0,0 +1,202 @@
+// Named connection profiles kept in localStorage
+// Settings that only make sense for one server or workspace, like excluded folders, are saved with
+// the profile when switching away from it and restored when switching back
+
+import { P4ConnectionProfile } from "../types/p4";
+import { STORAGE_KEYS } from "./storageUtils";
+
+// Local storage key for the saved profiles
+const PROFILES_KEY = "perforceFriend_connectionProfiles";
+
+// Local storage key for the profile in use
+const ACTIVE_PROFILE_KEY = "perforceFriend_activeConnectionProfile";
+
+// Version written to exported files, checked on import
+const EXPORT_VERSION = 1;
+
+// localStorage keys saved and restored per profile
+export const PROFILE_SETTING_KEYS = [STORAGE_KEYS.EXCLUDED_FOLDERS, STORAGE_KEYS.INCLUSION_FOLDERS, STORAGE_KEYS.SELECTED_FOLDERS, STORAGE_KEYS.CLIENT_ROOT];
+
+/**
+ * Gets the saved profiles from localStorage
+ */
+export const getConnectionProfiles = (): P4ConnectionProfile[] => {
+    try {
+        if (typeof window !== "undefined") {
+            const profiles = localStorage.getItem(PROFILES_KEY);
+            if (profiles) {
+                return JSON.parse(profiles);
+            }
+        }
+        return [];
+    } catch (error) {
+        console.error("Error retrieving connection profiles from localStorage:", error);
+        return [];
+    }
+};
+
+/**
+ * Saves the profiles to localStorage
+ */
+export const saveConnectionProfiles = (profiles: P4ConnectionProfile[]): void => {
+    try {
+        if (typeof window !== "undefined") {
+            localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+        }
+    } catch (error) {
+        console.error("Error saving connection profiles to localStorage:", error);
+    }
+};
+
+/**
+ * Gets the ID of the profile in use, if any
+ */
+export const getActiveProfileId = (): string | null => {
+    try {
+        if (typeof window !== "undefined") {
+            return localStorage.getItem(ACTIVE_PROFILE_KEY);
+        }
+        return null;
+    } catch (error) {
+        console.error("Error retrieving active connection profile from localStorage:", error);
+        return null;
+    }
+};
+
+/**
+ * Adds a profile, or replaces the profile with the same ID
+ */
+export const saveConnectionProfile = (profile: P4ConnectionProfile): P4ConnectionProfile[] => {
+    const profiles = getConnectionProfiles();
+    const index = profiles.findIndex((existing) => existing.id === profile.id);
+
+    const updatedProfiles = index >= 0 ? profiles.map((existing, i) => (i === index ? profile : existing)) : [...profiles, profile];
+    saveConnectionProfiles(updatedProfiles);
+    return updatedProfiles;
+};
+
+/**
+ * Removes a profile
+ */
+export const deleteConnectionProfile = (id: string): P4ConnectionProfile[] => {
+    const updatedProfiles = getConnectionProfiles().filter((profile) => profile.id !== id);
+    saveConnectionProfiles(updatedProfiles);
+
+    if (getActiveProfileId() === id) {
+        localStorage.removeItem(ACTIVE_PROFILE_KEY);
+    }
+
+    return updatedProfiles;
+};
+
+/**
+ * Read the current values of the per-profile settings
+ */
+const readProfileSettings = (): Record<string, string> => {
+    const settings: Record<string, string> = {};
+    PROFILE_SETTING_KEYS.forEach((key) => {
+        const value = localStorage.getItem(key);
+        if (value !== null) {
+            settings[key] = value;
+        }
+    });
+    return settings;
+};
+
+/**
+ * Get the profiles with the active one's settings updated to their current values
+ */
+const getProfilesWithActiveSettings = (): P4ConnectionProfile[] => {
+    const activeId = getActiveProfileId();
+    return getConnectionProfiles().map((profile) => (profile.id === activeId ? { ...profile, settings: readProfileSettings() } : profile));
+};
+
+/**
+ * Make a profile the active one, swapping the per-profile settings in localStorage
+ * The current values are saved to the profile being left, so they come back when switching back
+ */
+export const activateConnectionProfile = (id: string): P4ConnectionProfile | null => {
+    const profiles = getProfilesWithActiveSettings();
+    const profile = profiles.find((candidate) => candidate.id === id);
+    if (!profile) {
+        return null;
+    }
+
+    if (getActiveProfileId() !== id) {
+        PROFILE_SETTING_KEYS.forEach((key) => {
+            if (profile.settings[key] !== undefined) {
+                localStorage.setItem(key, profile.settings[key]);
+            } else {
+                localStorage.removeItem(key);
+            }
+        });
+    }
+
+    saveConnectionProfiles(profiles);
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    return profile;
+};
+
+/**
+ * Export the profiles as JSON, including the active profile's current settings
+ */
+export const exportConnectionProfiles = (): string => {
+    return JSON.stringify({ version: EXPORT_VERSION, profiles: getProfilesWithActiveSettings() }, null, 2);
+};
+
+/**
+ * Import profiles exported by exportConnectionProfiles
+ * Profiles with the same name as a saved one replace it, the others are added
+ * Returns the number of profiles imported, throws when the JSON isn't an export
+ */
+export const importConnectionProfiles = (json: string): number => {
+    let data: { version?: number; profiles?: unknown };
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new Error("The file is not valid JSON");
+    }
+
+    if (data.version !== EXPORT_VERSION || !Array.isArray(data.profiles)) {
+        throw new Error("The file is not a connection profiles export");
+    }
+
+    const imported: P4ConnectionProfile[] = data.profiles.map((entry: Partial<P4ConnectionProfile>, index: number) => {
+        if (!entry.name || !entry.port || !entry.user) {
+            throw new Error(`Profile ${index + 1} is missing a name, server or user`);
+        }
+
+        return {
+            // IDs are only used in this browser, saved profiles with the same name keep theirs below
+            id: createProfileId(),
+            name: String(entry.name),
+            port: String(entry.port),
+            user: String(entry.user),
+            client: entry.client ? String(entry.client) : undefined,
+            charset: entry.charset ? String(entry.charset) : undefined,
+            clientRoot: entry.clientRoot ? String(entry.clientRoot) : undefined,
+            settings: entry.settings && typeof entry.settings === "object" ? entry.settings : {},
+        };
+    });
+
+    const profiles = getConnectionProfiles();
+    imported.forEach((profile) => {
+        const index = profiles.findIndex((existing) => existing.name === profile.name);
+        if (index >= 0) {
+            // Keep the saved ID so the active profile stays selected
+            profiles[index] = { ...profile, id: profiles[index].id };
+        } else {
+            profiles.push(profile);
+        }
+    });
+
+    saveConnectionProfiles(profiles);
+    return imported.length;
+};
+
+/**
+ * Create an ID for a new profile
+ */
+export const createProfileId = (): string => {
+    return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
@@ -0,0 +1,295 @@
+// Line and intraline diff helpers used by the diff viewer
+
+/**
+ * A single line of a computed diff
+ */
+export interface DiffLine {
+    type: "equal" | "insert" | "delete";
+    text: string;
+    oldNumber?: number;
+    newNumber?: number;
+}
+
+/**
+ * A row of a side-by-side diff, either side can be empty
+ */
+export interface DiffRow {
+    left?: DiffLine;
+    right?: DiffLine;
+}
+
+/**
+ * A group of diff lines shown together, with unchanged lines in between collapsed
+ */
+export interface DiffHunk {
+    lines: DiffLine[];
+    hiddenBefore: number;
+}
+
+// Beyond this many edits the diff falls back to replacing the whole changed region
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * Split text into lines, ignoring the final newline
+ */
+export function splitLines(text: string): string[] {
+    if (!text) return [];
+    const lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === "") {
+        lines.pop();
+    }
+    return lines;
+}
+
+/**
+ * Myers diff of two line arrays, returns null if the edit distance is too large
+ */
+function myersDiff(a: string[], b: string[]): DiffLine["type"][] | null {
+    const n = a.length;
+    const m = b.length;
+    const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = maxD + 1;
+    const v = new Int32Array(2 * maxD + 3);
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= maxD; d++) {
+        trace.push(v.slice());
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                return backtrack(trace, n, m, offset);
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Walk the Myers trace backwards to recover the edit script
+ */
+function backtrack(trace: Int32Array[], n: number, m: number, offset: number): DiffLine["type"][] {
+    const ops: DiffLine["type"][] = [];
+    let x = n;
+    let y = m;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const v = trace[d];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+        const prevX = v[offset + prevK];
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            ops.push("equal");
+            x--;
+            y--;
+        }
+
+        if (d > 0) {
+            ops.push(x === prevX ? "insert" : "delete");
+        }
+
+        x = prevX;
+        y = prevY;
+    }
+
+    return ops.reverse();
+}
+
+/**
+ * Compute a line-by-line diff between two texts
+ */
+export function computeLineDiff(oldText: string, newText: string): DiffLine[] {
+    const oldLines = splitLines(oldText);
+    const newLines = splitLines(newText);
+
+    // Trim the common prefix and suffix so the diff only works on the changed region
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+    // Fall back to delete-all/insert-all when the files are too different
+    const ops = myersDiff(oldMiddle, newMiddle) || [...oldMiddle.map(() => "delete" as const), ...newMiddle.map(() => "insert" as const)];
+
+    const result: DiffLine[] = [];
+    let oldIndex = 0;
+    let newIndex = 0;
+
+    const pushEqual = () => {
+        result.push({ type: "equal", text: newLines[newIndex], oldNumber: oldIndex + 1, newNumber: newIndex + 1 });
+        oldIndex++;
+        newIndex++;
+    };
+
+    for (let i = 0; i < prefix; i++) {
+        pushEqual();
+    }
+
+    for (const op of ops) {
+        if (op === "equal") {
+            pushEqual();
+        } else if (op === "delete") {
+            result.push({ type: "delete", text: oldLines[oldIndex], oldNumber: oldIndex + 1 });
+            oldIndex++;
+        } else {
+            result.push({ type: "insert", text: newLines[newIndex], newNumber: newIndex + 1 });
+            newIndex++;
+        }
+    }
+
+    for (let i = 0; i < suffix; i++) {
+        pushEqual();
+    }
+
+    return result;
+}
+
+/**
+ * Group diff lines into hunks with a few lines of unchanged context around each change
+ */
+export function getDiffHunks(lines: DiffLine[], context: number = 3): DiffHunk[] {
+    const visible = new Array(lines.length).fill(false);
+
+    lines.forEach((line, index) => {
+        if (line.type !== "equal") {
+            for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) {
+                visible[i] = true;
+            }
+        }
+    });
+
+    const hunks: DiffHunk[] = [];
+    let hidden = 0;
+    let current: DiffHunk | null = null;
+
+    lines.forEach((line, index) => {
+        if (!visible[index]) {
+            hidden++;
+            current = null;
+            return;
+        }
+
+        if (!current) {
+            current = { lines: [], hiddenBefore: hidden };
+            hunks.push(current);
+            hidden = 0;
+        }
+
+        current.lines.push(line);
+    });
+
+    return hunks;
+}
+
+/**
+ * Pair deleted and inserted lines of a hunk into side-by-side rows
+ */
+export function toSideBySideRows(lines: DiffLine[]): DiffRow[] {
+    const rows: DiffRow[] = [];
+    let deletes: DiffLine[] = [];
+    let inserts: DiffLine[] = [];
+
+    const flush = () => {
+        for (let i = 0; i < Math.max(deletes.length, inserts.length); i++) {
+            rows.push({ left: deletes[i], right: inserts[i] });
+        }
+        deletes = [];
+        inserts = [];
+    };
+
+    for (const line of lines) {
+        if (line.type === "delete") {
+            deletes.push(line);
+        } else if (line.type === "insert") {
+            inserts.push(line);
+        } else {
+            flush();
+            rows.push({ left: line, right: line });
+        }
+    }
+
+    flush();
+
+    return rows;
+}
+
+/**
+ * Find the changed part of a modified line, as [start, end) character ranges in each version
+ */
+export function getIntralineRanges(oldLine: string, newLine: string): { oldRange: [number, number]; newRange: [number, number] } {
+    let prefix = 0;
+    while (prefix < oldLine.length && prefix < newLine.length && oldLine[prefix] === newLine[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (suffix < oldLine.length - prefix && suffix < newLine.length - prefix && oldLine[oldLine.length - 1 - suffix] === newLine[newLine.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    return {
+        oldRange: [prefix, oldLine.length - suffix],
+        newRange: [prefix, newLine.length - suffix],
+    };
+}
+
+/**
+ * Apply the output of 'p4 diff -dn' (RCS format) to the text it was computed from, giving the other version
+ * 'dL N' deletes N lines from line L, 'aL N' adds the N lines that follow it after line L, both numbered in the
+ * original text; the '==== file ====' header is skipped
+ */
+export function applyRcsDiff(baseText: string, rcsDiff: string): string {
+    const baseLines = splitLines(baseText);
+    const diffLines = rcsDiff.split(/\r?\n/);
+    const lines: string[] = [];
+    // Base lines copied or deleted so far
+    let baseIndex = 0;
+
+    for (let i = 0; i < diffLines.length; i++) {
+        const command = /^([ad])(\d+) (\d+)$/.exec(diffLines[i]);
+        if (!command) {
+            continue;
+        }
+
+        const line = parseInt(command[2], 10);
+        const count = parseInt(command[3], 10);
+
+        if (command[1] === "d") {
+            lines.push(...baseLines.slice(baseIndex, line - 1));
+            baseIndex = line - 1 + count;
+        } else {
+            lines.push(...baseLines.slice(baseIndex, line));
+            baseIndex = Math.max(baseIndex, line);
+            lines.push(...diffLines.slice(i + 1, i + 1 + count));
+            i += count;
+        }
+    }
+
+    lines.push(...baseLines.slice(baseIndex));
+
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
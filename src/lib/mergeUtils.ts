@@ -0,0 +1,158 @@
+// Three-way merge helpers used by the merge editor
+
+import { computeLineDiff, splitLines } from "./diffUtils";
+
+/**
+ * A region of a three-way merge
+ * - stable: no side changed it
+ * - theirs / yours: only one side changed it, that side wins
+ * - both: both sides made the same change
+ * - conflict: both sides changed it differently
+ */
+export interface MergeChunk {
+    type: "stable" | "theirs" | "yours" | "both" | "conflict";
+    base: string[];
+    theirs: string[];
+    yours: string[];
+}
+
+/**
+ * A change of one side against the base: lines [baseStart, baseEnd) of the base replaced by lines
+ */
+interface EditHunk {
+    side: "theirs" | "yours";
+    baseStart: number;
+    baseEnd: number;
+    lines: string[];
+}
+
+/**
+ * Collect the changed regions of a diff from the base to another version
+ */
+function getEditHunks(base: string, other: string, side: EditHunk["side"]): EditHunk[] {
+    const hunks: EditHunk[] = [];
+    let current: EditHunk | null = null;
+    let baseIndex = 0;
+
+    for (const line of computeLineDiff(base, other)) {
+        if (line.type === "equal") {
+            if (current) {
+                hunks.push(current);
+                current = null;
+            }
+            baseIndex++;
+            continue;
+        }
+
+        if (!current) {
+            current = { side, baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+        }
+
+        if (line.type === "delete") {
+            baseIndex++;
+            current.baseEnd = baseIndex;
+        } else {
+            current.lines.push(line.text);
+        }
+    }
+
+    if (current) {
+        hunks.push(current);
+    }
+
+    return hunks;
+}
+
+/**
+ * Apply the hunks of one side to the base lines [start, end)
+ */
+function applyHunks(baseLines: string[], start: number, end: number, hunks: EditHunk[]): string[] {
+    const result: string[] = [];
+    let position = start;
+
+    for (const hunk of hunks) {
+        result.push(...baseLines.slice(position, hunk.baseStart), ...hunk.lines);
+        position = hunk.baseEnd;
+    }
+
+    result.push(...baseLines.slice(position, end));
+    return result;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Merge the changes of theirs and yours since base, diff3 style
+ * Changes of both sides that overlap or touch are grouped into a single chunk
+ */
+export function computeThreeWayMerge(base: string, theirs: string, yours: string): MergeChunk[] {
+    const baseLines = splitLines(base);
+    const hunks = [...getEditHunks(base, theirs, "theirs"), ...getEditHunks(base, yours, "yours")].sort(
+        (a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd,
+    );
+
+    const chunks: MergeChunk[] = [];
+    let position = 0;
+
+    const pushStable = (end: number) => {
+        if (end > position) {
+            const lines = baseLines.slice(position, end);
+            chunks.push({ type: "stable", base: lines, theirs: lines, yours: lines });
+        }
+    };
+
+    let index = 0;
+    while (index < hunks.length) {
+        const start = hunks[index].baseStart;
+        let end = hunks[index].baseEnd;
+        const group = [hunks[index++]];
+
+        while (index < hunks.length && hunks[index].baseStart <= end) {
+            end = Math.max(end, hunks[index].baseEnd);
+            group.push(hunks[index++]);
+        }
+
+        pushStable(start);
+
+        const theirsHunks = group.filter((hunk) => hunk.side === "theirs");
+        const yoursHunks = group.filter((hunk) => hunk.side === "yours");
+        const chunk: MergeChunk = {
+            type: "conflict",
+            base: baseLines.slice(start, end),
+            theirs: applyHunks(baseLines, start, end, theirsHunks),
+            yours: applyHunks(baseLines, start, end, yoursHunks),
+        };
+
+        if (yoursHunks.length === 0) {
+            chunk.type = "theirs";
+        } else if (theirsHunks.length === 0) {
+            chunk.type = "yours";
+        } else if (sameLines(chunk.theirs, chunk.yours)) {
+            chunk.type = "both";
+        }
+
+        chunks.push(chunk);
+        position = end;
+    }
+
+    pushStable(baseLines.length);
+
+    return chunks;
+}
+
+/**
+ * Lines of a chunk in the merged result, conflicts use the given resolution
+ */
+export function getMergedLines(chunk: MergeChunk, resolution?: string[]): string[] {
+    switch (chunk.type) {
+        case "theirs":
+            return chunk.theirs;
+        case "yours":
+        case "both":
+            return chunk.yours;
+        case "conflict":
+            return resolution || [];
+        default:
+            return chunk.base;
+    }
+}
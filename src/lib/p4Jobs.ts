@@ -0,0 +1,142 @@
+// Server-side registry of long-running p4 operations (reconcile, sync, bulk checkout)
+// A job belongs to the session that started it, which can poll its progress and cancel it;
+// cancelling aborts the job's signal, which stops the p4 processes spawned with it
+
+import { randomUUID } from "crypto";
+import { P4Job, P4JobType } from "../types/p4";
+import { getCurrentP4Session } from "./p4Session";
+
+// Response header with the ID of the job a request started
+export const P4_JOB_HEADER = "x-perforce-job";
+
+// Finished jobs are listed for this long
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+// Most finished jobs kept per session, older ones are dropped first
+const MAX_FINISHED_JOBS = 20;
+
+type P4JobEntry = {
+    job: P4Job;
+    // Session that started the job, null for requests without one
+    sessionId: string | null;
+    controller: AbortController;
+};
+
+/**
+ * Used by the code running a job to report on it
+ */
+export type P4JobHandle = {
+    id: string;
+    // Aborted when the job is cancelled, pass it to spawnP4 or runP4Async
+    signal: AbortSignal;
+    setProgress: (progress: string) => void;
+    // Stop the job from the code running it, e.g. when its response stream is closed
+    cancel: () => void;
+    // Record the outcome, a job whose signal was aborted is reported as cancelled
+    finish: (message: string, failed?: boolean) => void;
+};
+
+// Kept on globalThis so running jobs survive module reloads in development
+const globalRegistry = globalThis as typeof globalThis & { p4Jobs?: Map<string, P4JobEntry> };
+const jobs = (globalRegistry.p4Jobs ??= new Map<string, P4JobEntry>());
+
+/**
+ * Drop finished jobs that are too old, or beyond the number kept for their session
+ */
+function pruneFinishedJobs(): void {
+    const now = Date.now();
+    const finishedCount = new Map<string | null, number>();
+
+    Array.from(jobs.values())
+        .filter((entry) => entry.job.status !== "running")
+        .sort((a, b) => (b.job.finishedAt || 0) - (a.job.finishedAt || 0))
+        .forEach((entry) => {
+            const count = (finishedCount.get(entry.sessionId) || 0) + 1;
+            finishedCount.set(entry.sessionId, count);
+
+            if (count > MAX_FINISHED_JOBS || now - (entry.job.finishedAt || 0) > FINISHED_JOB_TTL_MS) {
+                jobs.delete(entry.job.id);
+            }
+        });
+}
+
+/**
+ * Register a job for the current session
+ * When a request signal is given, the job is cancelled if the request goes away (e.g. the tab is closed)
+ */
+export function startP4Job(type: P4JobType, label: string, requestSignal?: AbortSignal): P4JobHandle {
+    pruneFinishedJobs();
+
+    const controller = new AbortController();
+    const entry: P4JobEntry = {
+        job: { id: randomUUID(), type, label, status: "running", startedAt: Date.now() },
+        sessionId: getCurrentP4Session()?.id ?? null,
+        controller,
+    };
+    jobs.set(entry.job.id, entry);
+
+    requestSignal?.addEventListener("abort", () => controller.abort());
+
+    return {
+        id: entry.job.id,
+        signal: controller.signal,
+        setProgress: (progress) => {
+            entry.job.progress = progress;
+        },
+        cancel: () => controller.abort(),
+        finish: (message, failed = false) => {
+            if (entry.job.status !== "running") return;
+
+            entry.job.status = controller.signal.aborted ? "cancelled" : failed ? "failed" : "succeeded";
+            entry.job.message = controller.signal.aborted ? `Cancelled: ${message}` : message;
+            entry.job.finishedAt = Date.now();
+        },
+    };
+}
+
+/**
+ * Get the current session's jobs, newest first
+ */
+export function getP4Jobs(): P4Job[] {
+    const sessionId = getCurrentP4Session()?.id ?? null;
+    return Array.from(jobs.values())
+        .filter((entry) => entry.sessionId === sessionId)
+        .map((entry) => entry.job)
+        .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Get one of the current session's jobs
+ */
+export function getP4Job(id: string): P4Job | null {
+    const entry = jobs.get(id);
+    return entry && entry.sessionId === (getCurrentP4Session()?.id ?? null) ? entry.job : null;
+}
+
+/**
+ * Cancel one of the current session's running jobs
+ * Returns false when there is no such job, a finished job is left as it is
+ */
+export function cancelP4Job(id: string): boolean {
+    const entry = jobs.get(id);
+    if (!entry || entry.sessionId !== (getCurrentP4Session()?.id ?? null)) {
+        return false;
+    }
+
+    if (entry.job.status === "running") {
+        entry.controller.abort();
+    }
+    return true;
+}
+
+/**
+ * Remove the current session's finished jobs from the list
+ */
+export function clearFinishedP4Jobs(): void {
+    const sessionId = getCurrentP4Session()?.id ?? null;
+    jobs.forEach((entry, id) => {
+        if (entry.sessionId === sessionId && entry.job.status !== "running") {
+            jobs.delete(id);
+        }
+    });
+}
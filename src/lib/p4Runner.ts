@@ -0,0 +1,286 @@
+// Runs p4 commands on the server
+// Commands are spawned with an argument array and no shell, so paths from requests are never
+// interpreted by a shell, and every run reports the same structured result
+
+import { ChildProcess, ChildProcessWithoutNullStreams, spawn, spawnSync } from "child_process";
+import { P4ConnectionSettings } from "../types/p4";
+import { getCurrentP4Session, getP4ConnectionArgs, isP4LoginRequiredError, markP4LoginRequired, P4Session } from "./p4Session";
+
+// Longest a command may run unless the caller asks for more
+export const P4_DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Most output read from a command before it is stopped
+export const P4_DEFAULT_MAX_OUTPUT_BYTES = 100 * 1024 * 1024;
+
+export type P4RunOptions = {
+    // Directory to run in, p4 finds P4CONFIG files and resolves relative paths from it
+    cwd?: string;
+    // Variables added to the server's environment (e.g. P4PASSWD)
+    env?: Record<string, string | undefined>;
+    // Connection to use instead of the current request's session, see p4Session
+    connection?: P4ConnectionSettings;
+    // Text piped to stdin, e.g. a spec for 'p4 change -i'
+    input?: string;
+    // 0 for no timeout
+    timeoutMs?: number;
+    maxOutputBytes?: number;
+};
+
+export type P4RunResult = {
+    // The command as it would be typed, for logs and error messages
+    command: string;
+    // null when the command didn't run or was stopped
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    durationMs: number;
+    timedOut: boolean;
+    // The output went over maxOutputBytes and is cut off
+    truncated: boolean;
+    // Why the command couldn't be run or was stopped (e.g. p4 not installed)
+    error?: string;
+};
+
+/**
+ * Format p4 arguments as a command line, quoting arguments with spaces
+ * Only used for display, commands are never run through a shell
+ */
+export function formatP4Command(args: string[]): string {
+    return ["p4", ...args].map((arg) => (/[\s"]/.test(arg) ? `"${arg.replace(/"/g, '\\"')}"` : arg)).join(" ");
+}
+
+type P4Invocation = {
+    args: string[];
+    env: NodeJS.ProcessEnv;
+    // Session whose connection is used, checked for an expired ticket after the command
+    session: P4Session | null;
+};
+
+/**
+ * Add the options selecting the connection to use, when there is one
+ * The session's ticket is passed in the environment so it doesn't show in process lists
+ */
+function withConnection(args: string[], options: Pick<P4RunOptions, "env" | "connection">): P4Invocation {
+    if (options.connection) {
+        return { args: [...getP4ConnectionArgs(options.connection), ...args], env: { ...process.env, ...options.env }, session: null };
+    }
+
+    const session = getCurrentP4Session();
+    if (!session) {
+        return { args, env: { ...process.env, ...options.env }, session: null };
+    }
+
+    return {
+        args: [...getP4ConnectionArgs(session.settings), ...args],
+        env: { ...process.env, ...(session.ticket ? { P4PASSWD: session.ticket } : {}), ...options.env },
+        session,
+    };
+}
+
+/**
+ * Run a p4 command and wait for it to finish
+ * Never throws: failures are reported in the result, see getP4Failure
+ */
+export function runP4(args: string[], options: P4RunOptions = {}): P4RunResult {
+    const command = formatP4Command(args);
+    const startTime = Date.now();
+    const invocation = withConnection(args, options);
+
+    // The command is shown without the connection options, which are the same for every command of a session
+    const child = spawnSync("p4", invocation.args, {
+        cwd: options.cwd,
+        env: invocation.env,
+        input: options.input,
+        encoding: "utf8",
+        shell: false,
+        windowsHide: true,
+        timeout: options.timeoutMs ?? P4_DEFAULT_TIMEOUT_MS,
+        maxBuffer: options.maxOutputBytes ?? P4_DEFAULT_MAX_OUTPUT_BYTES,
+    });
+
+    const errorCode = (child.error as NodeJS.ErrnoException | undefined)?.code;
+    const timedOut = errorCode === "ETIMEDOUT";
+    const truncated = errorCode === "ENOBUFS";
+
+    let error: string | undefined;
+    if (errorCode === "ENOENT") {
+        error = "Perforce command-line client (p4) is not installed or not in PATH";
+    } else if (timedOut) {
+        error = `Command timed out after ${Math.round((options.timeoutMs ?? P4_DEFAULT_TIMEOUT_MS) / 1000)}s (ETIMEDOUT)`;
+    } else if (truncated) {
+        error = `Command output exceeded ${options.maxOutputBytes ?? P4_DEFAULT_MAX_OUTPUT_BYTES} bytes (ENOBUFS)`;
+    } else if (child.error) {
+        error = child.error.message;
+    }
+
+    if (invocation.session && child.status !== 0 && isP4LoginRequiredError(child.stderr || "")) {
+        markP4LoginRequired(invocation.session);
+    }
+
+    return {
+        command,
+        exitCode: child.status,
+        stdout: child.stdout || "",
+        stderr: child.stderr || "",
+        durationMs: Date.now() - startTime,
+        timedOut,
+        truncated,
+        error,
+    };
+}
+
+/**
+ * Describe why a command failed, or null when it succeeded
+ */
+export function getP4Failure(result: P4RunResult): string | null {
+    if (result.error) {
+        return `P4 command failed: ${result.command}: ${result.error}`;
+    }
+
+    if (result.exitCode !== 0) {
+        return `P4 command failed: ${result.command}: ${result.stderr.trim() || result.stdout.trim() || `exit code ${result.exitCode}`}`;
+    }
+
+    return null;
+}
+
+export type P4SpawnOptions = Pick<P4RunOptions, "cwd" | "env" | "connection"> & {
+    // Stops the process and the processes it started when aborted, e.g. when a job is cancelled
+    signal?: AbortSignal;
+};
+
+/**
+ * Stop a p4 process along with any process it started
+ * On Windows killing the process alone leaves its children running, so the whole tree is ended with taskkill
+ */
+export function killP4Process(child: ChildProcess): void {
+    if (child.exitCode !== null || child.signalCode !== null || !child.pid) {
+        return;
+    }
+
+    if (process.platform === "win32") {
+        const result = spawnSync("taskkill", ["/pid", String(child.pid), "/T", "/F"], { windowsHide: true });
+        if (result.status === 0) {
+            return;
+        }
+    }
+
+    child.kill();
+}
+
+/**
+ * Start a p4 command whose output is read as it arrives (e.g. a long sync)
+ * The caller handles the streams and the exit of the process
+ */
+export function spawnP4(args: string[], options: P4SpawnOptions = {}): ChildProcessWithoutNullStreams {
+    const invocation = withConnection(args, options);
+    const child = spawn("p4", invocation.args, {
+        cwd: options.cwd,
+        env: invocation.env,
+        shell: false,
+        windowsHide: true,
+    });
+
+    const session = invocation.session;
+    if (session) {
+        child.stderr.on("data", (chunk: Buffer) => {
+            if (isP4LoginRequiredError(chunk.toString())) {
+                markP4LoginRequired(session);
+            }
+        });
+    }
+
+    const signal = options.signal;
+    if (signal) {
+        const abort = () => killP4Process(child);
+        if (signal.aborted) {
+            abort();
+        } else {
+            signal.addEventListener("abort", abort);
+            child.on("close", () => signal.removeEventListener("abort", abort));
+        }
+    }
+
+    return child;
+}
+
+/**
+ * Run a p4 command without blocking the server, so other requests (e.g. cancelling it) are handled meanwhile
+ * Never throws, like runP4, a command stopped through the signal reports an error
+ */
+export function runP4Async(args: string[], options: P4RunOptions & Pick<P4SpawnOptions, "signal"> = {}): Promise<P4RunResult> {
+    const command = formatP4Command(args);
+    const startTime = Date.now();
+    const timeoutMs = options.timeoutMs ?? P4_DEFAULT_TIMEOUT_MS;
+    const maxOutputBytes = options.maxOutputBytes ?? P4_DEFAULT_MAX_OUTPUT_BYTES;
+
+    return new Promise((resolve) => {
+        const child = spawnP4(args, options);
+        let stdout = "";
+        let stderr = "";
+        let timedOut = false;
+        let truncated = false;
+        let settled = false;
+
+        const timeoutId =
+            timeoutMs > 0
+                ? setTimeout(() => {
+                      timedOut = true;
+                      killP4Process(child);
+                  }, timeoutMs)
+                : undefined;
+
+        const finish = (exitCode: number | null, spawnError?: NodeJS.ErrnoException) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timeoutId);
+
+            let error: string | undefined;
+            if (spawnError?.code === "ENOENT") {
+                error = "Perforce command-line client (p4) is not installed or not in PATH";
+            } else if (spawnError) {
+                error = spawnError.message;
+            } else if (timedOut) {
+                error = `Command timed out after ${Math.round(timeoutMs / 1000)}s (ETIMEDOUT)`;
+            } else if (truncated) {
+                error = `Command output exceeded ${maxOutputBytes} bytes (ENOBUFS)`;
+            } else if (options.signal?.aborted) {
+                error = "Command was cancelled";
+            }
+
+            resolve({
+                command,
+                exitCode: error ? null : exitCode,
+                stdout,
+                stderr,
+                durationMs: Date.now() - startTime,
+                timedOut,
+                truncated,
+                error,
+            });
+        };
+
+        const collect = (data: Buffer, stream: "stdout" | "stderr") => {
+            if (stream === "stdout") {
+                stdout += data.toString("utf8");
+            } else {
+                stderr += data.toString("utf8");
+            }
+
+            if (!truncated && stdout.length + stderr.length > maxOutputBytes) {
+                truncated = true;
+                killP4Process(child);
+            }
+        };
+
+        child.stdout.on("data", (data: Buffer) => collect(data, "stdout"));
+        child.stderr.on("data", (data: Buffer) => collect(data, "stderr"));
+        child.on("error", (spawnError: NodeJS.ErrnoException) => finish(null, spawnError));
+        child.on("close", (code) => finish(code));
+
+        child.stdin.on("error", () => {
+            // The process exited before reading its input, its exit is reported instead
+        });
+        child.stdin.end(options.input);
+    });
+}
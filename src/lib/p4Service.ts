@@ -4,9 +4,15 @@ import { P4CheckedOutFile, P4ModifiedFile, P4CommandLog } from "../types/p4";
 // Local storage key for Perforce connection
 const P4_CONNECTION_KEY = "perforce_connection";
 
-// Session storage key for Perforce credentials (not persisted after browser closes)
+// Session storage key older versions kept credentials under, including the password
 const P4_CREDENTIALS_KEY = "perforce_credentials";
 
+// Session storage key for this tab's server-side session ID
+const P4_SESSION_ID_KEY = "perforce_session_id";
+
+// Header naming the tab's session, must match P4_SESSION_HEADER in p4Session
+export const P4_SESSION_HEADER = "x-perforce-session";
+
 // Local storage key for P4 command logs
 const P4_COMMAND_LOGS_KEY = "perforce_command_logs";
 
@@ -32,6 +38,8 @@ export class P4Service {
     private constructor() {
         // Try to restore connection from localStorage on initialization
         this.restoreConnectionFromStorage();
+        // Passwords are no longer kept in the browser, only the server keeps a ticket
+        this.clearStoredCredentials();
     }
 
     /**
@@ -46,6 +54,7 @@ export class P4Service {
 
     /**
      * Connect to Perforce server
+     * The password is only sent to log in, the server keeps the ticket in this tab's session
      */
     public async connect(config: P4Config): Promise<{ success: boolean; message: string; clientRoot?: string }> {
         try {
@@ -54,6 +63,7 @@ export class P4Service {
                 method: "POST",
                 headers: {
                     "Content-Type": "application/json",
+                    ...this.getSessionHeaders(),
                 },
                 body: JSON.stringify(config),
             });
@@ -70,17 +80,22 @@ export class P4Service {
                 port: config.port,
                 user: config.user,
                 client: config.client || data.client,
+                charset: config.charset,
+                // A profile's root override, kept so logging in again uses the same root
+                clientRoot: config.clientRoot,
             };
 
-            // Store the client root if received from API
-            if (data.clientRoot) {
-                this.clientRoot = data.clientRoot;
-                console.log("[P4Service] Client root set from API:", this.clientRoot);
+            // The new connection's root replaces the previous one's, which may be another workspace
+            this.clientRoot = data.clientRoot || "";
+            console.log("[P4Service] Client root set from API:", this.clientRoot);
+
+            // Keep the session so this tab's requests use this connection
+            if (data.sessionId) {
+                this.saveSessionId(data.sessionId);
             }
 
-            // Save connection details to localStorage and credentials to sessionStorage
+            // Save connection details to localStorage
             this.saveConnectionToStorage();
-            this.saveCredentialsToSession(config);
 
             return {
                 success: true,
@@ -98,19 +113,46 @@ export class P4Service {
     }
 
     /**
-     * Try to reconnect using stored credentials
+     * Restore the connection from this tab's server-side session
+     * loginRequired is set when the session's ticket expired, or the server no longer has the session
      */
-    public async reconnect(): Promise<{ success: boolean; message: string }> {
+    public async reconnect(): Promise<{ success: boolean; message: string; loginRequired?: boolean }> {
         try {
-            const credentials = this.getStoredCredentials();
-            if (!credentials) {
+            const response = await fetch("/api/p4/connect", { headers: this.getSessionHeaders() });
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to get Perforce session");
+            }
+
+            if (!data.connected) {
                 return {
                     success: false,
-                    message: "No stored credentials found",
+                    message: "No Perforce session found",
+                    // A connection made before, e.g. before the server restarted, only needs the password again
+                    loginRequired: !!(this.connectionDetails.port && this.connectionDetails.user),
                 };
             }
 
-            return await this.connect(credentials);
+            this.isConnected = true;
+            this.connectionDetails = {
+                port: data.port,
+                user: data.user,
+                client: data.client,
+                charset: data.charset,
+                clientRoot: this.connectionDetails.clientRoot,
+            };
+            if (data.clientRoot) {
+                this.clientRoot = data.clientRoot;
+            }
+            this.saveSessionId(data.sessionId);
+            this.saveConnectionToStorage();
+
+            return {
+                success: true,
+                message: "Connected to Perforce server",
+                loginRequired: data.loginRequired,
+            };
         } catch (error) {
             console.error("Error reconnecting to Perforce:", error);
             return {
@@ -120,15 +162,92 @@ export class P4Service {
         }
     }
 
+    /**
+     * Log in again with the current connection details, e.g. after the ticket expired
+     */
+    public async login(password: string): Promise<{ success: boolean; message: string }> {
+        const { port, user, client, charset, clientRoot } = this.connectionDetails;
+        if (!port || !user) {
+            return {
+                success: false,
+                message: "Not connected to Perforce server",
+            };
+        }
+
+        const result = await this.connect({ port, user, client, charset, clientRoot, password });
+
+        // A wrong password keeps the connection so the user can try again
+        if (!result.success) {
+            this.isConnected = true;
+            this.connectionDetails = { port, user, client, charset, clientRoot };
+        }
+
+        return result;
+    }
+
+    /**
+     * Check whether this tab's session needs a new login
+     */
+    public async checkLogin(): Promise<{ loginRequired: boolean; expiresIn?: number }> {
+        try {
+            const response = await fetch("/api/p4/login", { headers: this.getSessionHeaders() });
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.details || data.error || "Failed to check Perforce login");
+            }
+
+            return {
+                loginRequired: !!data.loginRequired,
+                expiresIn: data.expiresIn,
+            };
+        } catch (error) {
+            // The server may be unreachable, which a login wouldn't fix
+            console.error("Error checking Perforce login:", error);
+            return { loginRequired: false };
+        }
+    }
+
     /**
      * Disconnect from Perforce server
      */
     public disconnect(): void {
+        // Remove the server-side session, the request isn't awaited as the local state is cleared either way
+        if (typeof window !== "undefined" && this.getSessionId()) {
+            fetch("/api/p4/connect", { method: "DELETE", headers: this.getSessionHeaders() }).catch((error) => {
+                console.error("Error removing Perforce session:", error);
+            });
+        }
+
         this.isConnected = false;
         this.connectionDetails = {};
         // Clear stored connection data
         this.clearStoredConnection();
         this.clearStoredCredentials();
+        this.clearSessionId();
+    }
+
+    /**
+     * Get this tab's server-side session ID, if it has connected
+     */
+    public getSessionId(): string | null {
+        try {
+            if (typeof window !== "undefined") {
+                return sessionStorage.getItem(P4_SESSION_ID_KEY);
+            }
+            return null;
+        } catch (error) {
+            console.error("Failed to get session ID from sessionStorage:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Headers selecting this tab's session in API requests
+     */
+    public getSessionHeaders(): Record<string, string> {
+        const sessionId = this.getSessionId();
+        return sessionId ? { [P4_SESSION_HEADER]: sessionId } : {};
     }
 
     /**
@@ -327,46 +446,41 @@ export class P4Service {
     }
 
     /**
-     * Save credentials to sessionStorage (includes password, cleared when browser closes)
+     * Clear stored credentials from sessionStorage
      */
-    private saveCredentialsToSession(config: P4Config): void {
+    private clearStoredCredentials(): void {
         try {
             if (typeof window !== "undefined") {
-                sessionStorage.setItem(P4_CREDENTIALS_KEY, JSON.stringify(config));
+                sessionStorage.removeItem(P4_CREDENTIALS_KEY);
             }
         } catch (error) {
-            console.error("Failed to save credentials to sessionStorage:", error);
+            console.error("Failed to clear credentials from sessionStorage:", error);
         }
     }
 
     /**
-     * Get stored credentials from sessionStorage
+     * Save this tab's session ID to sessionStorage, which isn't shared with other tabs
      */
-    private getStoredCredentials(): P4Config | null {
+    private saveSessionId(sessionId: string): void {
         try {
             if (typeof window !== "undefined") {
-                const storedData = sessionStorage.getItem(P4_CREDENTIALS_KEY);
-                if (storedData) {
-                    return JSON.parse(storedData) as P4Config;
-                }
+                sessionStorage.setItem(P4_SESSION_ID_KEY, sessionId);
             }
-            return null;
         } catch (error) {
-            console.error("Failed to get credentials from sessionStorage:", error);
-            return null;
+            console.error("Failed to save session ID to sessionStorage:", error);
         }
     }
 
     /**
-     * Clear stored credentials from sessionStorage
+     * Clear this tab's session ID from sessionStorage
      */
-    private clearStoredCredentials(): void {
+    private clearSessionId(): void {
         try {
             if (typeof window !== "undefined") {
-                sessionStorage.removeItem(P4_CREDENTIALS_KEY);
+                sessionStorage.removeItem(P4_SESSION_ID_KEY);
             }
         } catch (error) {
-            console.error("Failed to clear credentials from sessionStorage:", error);
+            console.error("Failed to clear session ID from sessionStorage:", error);
         }
     }
 
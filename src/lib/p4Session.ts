@@ -0,0 +1,157 @@
+// Server-side registry of Perforce connections
+// Each browser session is identified by a cookie, or by a header sent by a single tab, and its
+// connection settings are passed to every p4 command run while handling its requests
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { cookies } from "next/headers";
+import { P4ConnectionSettings } from "../types/p4";
+
+// Cookie holding the browser's most recent session
+export const P4_SESSION_COOKIE = "perforce_session";
+
+// Header a tab sends to use its own session instead of the cookie's
+export const P4_SESSION_HEADER = "x-perforce-session";
+
+// Response header telling the browser the session's ticket expired and it should log in again
+export const P4_LOGIN_REQUIRED_HEADER = "x-perforce-login-required";
+
+// p4 errors meaning the user isn't logged in, or the ticket expired or was logged out
+const LOGIN_REQUIRED_PATTERN = /session has expired|P4PASSWD\) invalid or unset|please login again|ticket.*(?:expired|invalid)/i;
+
+// Sessions unused for this long are removed
+const SESSION_IDLE_TIMEOUT_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type P4Session = {
+    id: string;
+    settings: P4ConnectionSettings;
+    // From 'p4 info' when the session connected
+    clientRoot: string;
+    // From 'p4 login -p', missing when the server doesn't need a login or uses the server's own tickets
+    ticket?: string;
+    // A command failed because the ticket expired, set until the user logs in again
+    loginRequired: boolean;
+    createdAt: number;
+    lastUsed: number;
+};
+
+// Kept on globalThis so sessions survive module reloads in development
+const globalRegistry = globalThis as typeof globalThis & { p4Sessions?: Map<string, P4Session> };
+const sessions = (globalRegistry.p4Sessions ??= new Map<string, P4Session>());
+
+// Session of the request being handled
+const currentSession = new AsyncLocalStorage<P4Session | null>();
+
+/**
+ * Look up the session a request belongs to, preferring the tab's header over the cookie
+ */
+async function resolveP4Session(req: Request): Promise<P4Session | null> {
+    const headerId = req.headers.get(P4_SESSION_HEADER);
+    const sessionId = headerId || (await cookies()).get(P4_SESSION_COOKIE)?.value;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (!session) {
+        return null;
+    }
+
+    session.lastUsed = Date.now();
+    return session;
+}
+
+/**
+ * Wrap a route handler so p4 commands it runs use the connection of the request's session
+ * Requests without a session run p4 with the server's own environment
+ */
+export function withP4Session<Req extends Request, Context extends unknown[]>(
+    handler: (req: Req, ...context: Context) => Promise<Response>,
+): (req: Req, ...context: Context) => Promise<Response> {
+    return async (req: Req, ...context: Context) => {
+        const session = await resolveP4Session(req);
+        const response = await currentSession.run(session, () => handler(req, ...context));
+
+        if (session?.loginRequired) {
+            try {
+                response.headers.set(P4_LOGIN_REQUIRED_HEADER, "1");
+            } catch (error) {
+                // Some responses have immutable headers, the next request reports it instead
+                console.error("Error flagging login required on response:", error);
+            }
+        }
+
+        return response;
+    };
+}
+
+/**
+ * Get the session of the request being handled, if it has one
+ */
+export function getCurrentP4Session(): P4Session | null {
+    return currentSession.getStore() ?? null;
+}
+
+/**
+ * Run code with the given session as the current one
+ * For callbacks that run after the request that started them was handled, e.g. of a file watcher
+ */
+export function runWithP4Session<T>(session: P4Session | null, callback: () => T): T {
+    return currentSession.run(session, callback);
+}
+
+/**
+ * Create a session, or update an existing one when its ID is given
+ */
+export function saveP4Session(settings: P4ConnectionSettings, clientRoot: string, ticket: string | undefined, sessionId?: string | null): P4Session {
+    const now = Date.now();
+
+    sessions.forEach((session, id) => {
+        if (now - session.lastUsed > SESSION_IDLE_TIMEOUT_MS) {
+            sessions.delete(id);
+        }
+    });
+
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    const session: P4Session = existing
+        ? { ...existing, settings, clientRoot, ticket, loginRequired: false, lastUsed: now }
+        : { id: randomUUID(), settings, clientRoot, ticket, loginRequired: false, createdAt: now, lastUsed: now };
+
+    sessions.set(session.id, session);
+    return session;
+}
+
+/**
+ * Check whether a p4 error means the user has to log in
+ */
+export function isP4LoginRequiredError(message: string): boolean {
+    return LOGIN_REQUIRED_PATTERN.test(message);
+}
+
+/**
+ * Flag a session whose ticket stopped working, its responses then ask the browser to log in again
+ */
+export function markP4LoginRequired(session: P4Session): void {
+    session.loginRequired = true;
+}
+
+/**
+ * Remove a session, its requests fall back to the server's own environment
+ */
+export function removeP4Session(sessionId: string): void {
+    sessions.delete(sessionId);
+}
+
+/**
+ * Global p4 options that select a connection's server, user, workspace and charset
+ * Options on the command line take precedence over P4CONFIG files and the environment
+ */
+export function getP4ConnectionArgs(settings: P4ConnectionSettings): string[] {
+    const args = ["-p", settings.port, "-u", settings.user];
+
+    if (settings.client) {
+        args.push("-c", settings.client);
+    }
+    if (settings.charset) {
+        args.push("-C", settings.charset);
+    }
+
+    return args;
+}
@@ -0,0 +1,56 @@
+"use client";
+
+// Sends this tab's session ID with every API request, so each tab can use its own Perforce connection
+// Requests without the header use the browser's session cookie, i.e. the most recent connection
+// Responses flagged by the server because the session's ticket expired raise P4_LOGIN_REQUIRED_EVENT
+import { P4Service } from "./p4Service";
+
+// Response header set by the server when the session needs a new login, must match P4_LOGIN_REQUIRED_HEADER in p4Session
+const P4_LOGIN_REQUIRED_HEADER = "x-perforce-login-required";
+
+// Window event raised when a response says the session needs a new login
+export const P4_LOGIN_REQUIRED_EVENT = "perforce-login-required";
+
+/**
+ * Raise P4_LOGIN_REQUIRED_EVENT when the server flagged the response
+ */
+function checkLoginRequired(response: Response): Response {
+    if (response.headers.get(P4_LOGIN_REQUIRED_HEADER)) {
+        window.dispatchEvent(new Event(P4_LOGIN_REQUIRED_EVENT));
+    }
+    return response;
+}
+
+// Initialize the session header
+export function initP4SessionHeader() {
+    const originalFetch = window.fetch;
+
+    window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+        const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url, window.location.href);
+        const isApiRequest = url.origin === window.location.origin && url.pathname.startsWith("/api/");
+        const sessionHeaders = P4Service.getInstance().getSessionHeaders();
+
+        if (!isApiRequest) {
+            return originalFetch(input, init);
+        }
+
+        if (Object.keys(sessionHeaders).length === 0) {
+            return originalFetch(input, init).then(checkLoginRequired);
+        }
+
+        // Headers of a Request object are used when init has none
+        const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+        Object.entries(sessionHeaders).forEach(([name, value]) => {
+            if (!headers.has(name)) {
+                headers.set(name, value);
+            }
+        });
+
+        return originalFetch(input, { ...init, headers }).then(checkLoginRequired);
+    };
+
+    // Return cleanup function
+    return () => {
+        window.fetch = originalFetch;
+    };
+}
@@ -0,0 +1,203 @@
+// Structured cache of reconcile results, with one entry for each folder that was reconciled
+// Entries keep the parsed records and the time their folder was scanned, so any combination of inclusion folders
+// is served from the entries of its folders (or of a folder containing them), and a folder that expired or was
+// invalidated is reconciled on its own while the others are reused
+
+import fs from "fs";
+import { ScanCacheFolder } from "../types/modifiedFiles";
+import { P4ModifiedFile } from "../types/p4";
+import { getWorkspaceCacheFile, getWorkspaceIdentity, isInFolder, toPathKey } from "./reconcileUtils";
+
+// Caches written in another format are dropped
+const CACHE_VERSION = 1;
+
+// A folder's results are used for this long after it was scanned (60 minutes)
+export const CACHE_EXPIRY_MS = 60 * 60 * 1000;
+
+type ReconcileCacheEntry = {
+    folder: string;
+    scannedAt: string;
+    files: P4ModifiedFile[];
+    // Subfolders invalidated since the folder was scanned, their files aren't used until they're reconciled again
+    staleFolders: string[];
+};
+
+type ReconcileCache = {
+    version: number;
+    server: string;
+    client: string;
+    clientRoot: string;
+    // By path key of the folder, the client root for the whole workspace
+    folders: Record<string, ReconcileCacheEntry>;
+};
+
+export type CachedReconcileResults = {
+    // Cached modified files of the folders
+    files: P4ModifiedFile[];
+    // Folders, or subfolders of them, without usable results, they need to be reconciled
+    missingFolders: string[];
+    // When the oldest of the used results was scanned, null when none were used
+    cachedAt: string | null;
+};
+
+function isExpired(entry: ReconcileCacheEntry): boolean {
+    return Date.now() - new Date(entry.scannedAt).getTime() >= CACHE_EXPIRY_MS;
+}
+
+/**
+ * Read the cache of the current session's workspace, a cache of another server or workspace is ignored
+ */
+function readCache(cacheFile: string, clientRoot: string): ReconcileCache {
+    const identity = getWorkspaceIdentity(clientRoot);
+    const emptyCache: ReconcileCache = { version: CACHE_VERSION, ...identity, folders: {} };
+
+    if (!fs.existsSync(cacheFile)) {
+        return emptyCache;
+    }
+
+    try {
+        const cache: ReconcileCache = JSON.parse(fs.readFileSync(cacheFile, { encoding: "utf8" }));
+        const isSameWorkspace = cache.server === identity.server && cache.client === identity.client && toPathKey(cache.clientRoot) === toPathKey(clientRoot);
+        return cache.version === CACHE_VERSION && isSameWorkspace ? cache : emptyCache;
+    } catch (error) {
+        console.error("[DEBUG] Error reading reconcile cache:", error);
+        return emptyCache;
+    }
+}
+
+function writeCache(cacheFile: string, cache: ReconcileCache): void {
+    fs.writeFileSync(cacheFile, JSON.stringify(cache), { encoding: "utf8" });
+}
+
+/**
+ * Get cached results for folders, none for the whole workspace
+ * A folder uses the most specific unexpired entry for it or a folder containing it, subfolders invalidated
+ * since that entry was written are left out and returned as missing
+ */
+export function getCachedReconcileResults(clientRoot: string, folders: string[]): CachedReconcileResults {
+    const roots = folders.length > 0 ? folders : [clientRoot];
+    const cache = readCache(getWorkspaceCacheFile("p4reconcile", clientRoot), clientRoot);
+    const entries = Object.values(cache.folders).filter((entry) => !isExpired(entry));
+
+    const filesByDepotPath = new Map<string, P4ModifiedFile>();
+    const missingFolders: string[] = [];
+    let cachedAt: string | null = null;
+
+    roots.forEach((root) => {
+        const entry = entries.filter((candidate) => isInFolder(root, candidate.folder)).sort((a, b) => b.folder.length - a.folder.length)[0];
+        if (!entry || entry.staleFolders.some((staleFolder) => isInFolder(root, staleFolder))) {
+            missingFolders.push(root);
+            return;
+        }
+
+        const staleFolders = entry.staleFolders.filter((staleFolder) => isInFolder(staleFolder, root));
+        entry.files
+            // Files without a local path (outside the client root) can only be matched to the folder that found them
+            .filter((file) => (file.localFile ? isInFolder(file.localFile, root) && !staleFolders.some((staleFolder) => isInFolder(file.localFile, staleFolder)) : toPathKey(entry.folder) === toPathKey(root)))
+            .forEach((file) => filesByDepotPath.set(file.depotFile, file));
+
+        missingFolders.push(...staleFolders);
+        if (!cachedAt || entry.scannedAt < cachedAt) {
+            cachedAt = entry.scannedAt;
+        }
+    });
+
+    console.log(`[DEBUG] Reconcile cache has ${filesByDepotPath.size} file(s) for ${roots.length - missingFolders.length} of ${roots.length} folder(s), missing:`, missingFolders);
+    return { files: Array.from(filesByDepotPath.values()), missingFolders, cachedAt };
+}
+
+/**
+ * Save the results of a complete reconcile of a folder, the client root for the whole workspace
+ * Replaces the entries of its subfolders, and its part of the entries of folders containing it
+ */
+export function saveReconcileResults(clientRoot: string, folder: string, files: P4ModifiedFile[]): void {
+    try {
+        const cacheFile = getWorkspaceCacheFile("p4reconcile", clientRoot);
+        const cache = readCache(cacheFile, clientRoot);
+
+        Object.entries(cache.folders).forEach(([key, entry]) => {
+            if (isExpired(entry) || isInFolder(entry.folder, folder)) {
+                delete cache.folders[key];
+            } else if (isInFolder(folder, entry.folder)) {
+                entry.files = [...entry.files.filter((file) => !file.localFile || !isInFolder(file.localFile, folder)), ...files];
+                entry.staleFolders = entry.staleFolders.filter((staleFolder) => !isInFolder(staleFolder, folder));
+            }
+        });
+
+        cache.folders[toPathKey(folder)] = { folder, scannedAt: new Date().toISOString(), files, staleFolders: [] };
+        writeCache(cacheFile, cache);
+        console.log(`[DEBUG] Cached ${files.length} reconciled file(s) for folder:`, folder);
+    } catch (error) {
+        console.error("[DEBUG] Error saving to reconcile cache:", error);
+    }
+}
+
+/**
+ * Save the results of a complete scan of several folders at once, e.g. an incremental scan of the workspace index
+ * Each folder gets the files found in it
+ */
+export function saveScanResults(clientRoot: string, folders: string[], files: P4ModifiedFile[]): void {
+    folders.forEach((folder) => saveReconcileResults(clientRoot, folder, files.filter((file) => file.localFile && isInFolder(file.localFile, folder))));
+}
+
+/**
+ * Add files found modified after their folder was scanned (e.g. by the workspace watcher) to the cached results,
+ * so a refresh that uses them still lists the files
+ */
+export function addToReconcileCache(clientRoot: string, files: P4ModifiedFile[]): void {
+    try {
+        const cacheFile = getWorkspaceCacheFile("p4reconcile", clientRoot);
+        const cache = readCache(cacheFile, clientRoot);
+
+        Object.values(cache.folders).forEach((entry) => {
+            const added = files.filter((file) => file.localFile && isInFolder(file.localFile, entry.folder));
+            if (added.length > 0) {
+                const addedPaths = new Set(added.map((file) => file.depotFile));
+                entry.files = [...entry.files.filter((file) => !addedPaths.has(file.depotFile)), ...added];
+            }
+        });
+        writeCache(cacheFile, cache);
+    } catch (error) {
+        console.error("[DEBUG] Error adding to reconcile cache:", error);
+    }
+}
+
+/**
+ * Drop cached results so they're reconciled again, of one folder or of the whole workspace
+ * A folder's entry and those of its subfolders are removed, folders containing it keep their other results
+ */
+export function invalidateReconcileCache(clientRoot: string, folder?: string): void {
+    const cacheFile = getWorkspaceCacheFile("p4reconcile", clientRoot);
+    if (!folder) {
+        if (fs.existsSync(cacheFile)) {
+            fs.unlinkSync(cacheFile);
+        }
+        return;
+    }
+
+    const cache = readCache(cacheFile, clientRoot);
+    Object.entries(cache.folders).forEach(([key, entry]) => {
+        if (isInFolder(entry.folder, folder)) {
+            delete cache.folders[key];
+        } else if (isInFolder(folder, entry.folder)) {
+            entry.staleFolders = [...entry.staleFolders.filter((staleFolder) => !isInFolder(staleFolder, folder)), folder];
+        }
+    });
+    writeCache(cacheFile, cache);
+}
+
+/**
+ * List the folders with cached results, for inspecting the cache
+ */
+export function getReconcileCacheFolders(clientRoot: string): ScanCacheFolder[] {
+    const cache = readCache(getWorkspaceCacheFile("p4reconcile", clientRoot), clientRoot);
+    return Object.values(cache.folders)
+        .map((entry) => ({
+            folder: entry.folder,
+            scannedAt: entry.scannedAt,
+            fileCount: entry.files.length,
+            staleFolders: entry.staleFolders,
+            isExpired: isExpired(entry),
+        }))
+        .sort((a, b) => a.folder.localeCompare(b.folder));
+}
@@ -0,0 +1,113 @@
+// Helpers shared by the modified files routes: cache settings and path handling
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ModifiedFile } from "../types/modifiedFiles";
+import { P4ModifiedFile } from "../types/p4";
+import { getCurrentP4Session } from "./p4Session";
+
+// Reconciling a large workspace can take a long time
+export const RECONCILE_TIMEOUT_MS = 60 * 60 * 1000;
+
+// Each folder's last scan results are cached and reused until they expire (see reconcileCache), how folders without
+// fresh results are scanned is chosen with the P4_RECONCILE_CACHE environment variable:
+// - index (default): with the workspace file index, later scans only check files changed since the last one (see workspaceIndex)
+// - output: with a full reconcile
+export const RECONCILE_CACHE_STRATEGY: "index" | "output" = process.env.P4_RECONCILE_CACHE === "output" ? "output" : "index";
+
+// Errors about single files, such as files that aren't in the depot, a command reporting only these still checked the other files
+export const FILE_MESSAGE_PATTERN = /no such file|not in client view|not under client's root|not on client|no file\(s\) to reconcile/i;
+
+/**
+ * Check whether a reconcile ran to the end, so the files it didn't report are unchanged
+ * A run that timed out, was stopped, or failed with more than messages about single files only covered part of its folder
+ */
+export function isCompleteReconcile(result: { exitCode: number | null; stderr: string; timedOut?: boolean; error?: string }): boolean {
+    if (result.timedOut || result.error || result.exitCode === null) {
+        return false;
+    }
+    if (result.exitCode === 0) {
+        return true;
+    }
+
+    const messages = result.stderr
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line);
+    return messages.length > 0 && messages.every((line) => FILE_MESSAGE_PATTERN.test(line));
+}
+
+/**
+ * Compare paths the way the local file system does, Windows paths are case-insensitive
+ */
+export function toPathKey(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    return process.platform === "win32" ? resolved.toLowerCase() : resolved;
+}
+
+/**
+ * Check whether a path is a folder or inside it
+ */
+export function isInFolder(filePath: string, folder: string): boolean {
+    const fileKey = toPathKey(filePath);
+    const folderKey = toPathKey(folder);
+    return fileKey === folderKey || fileKey.startsWith(folderKey.endsWith(path.sep) ? folderKey : folderKey + path.sep);
+}
+
+/**
+ * Get the server and workspace of the current session, scans cached for one aren't used for another
+ */
+export function getWorkspaceIdentity(clientRoot: string): { server: string; client: string; clientRoot: string } {
+    const settings = getCurrentP4Session()?.settings;
+    return { server: settings?.port || "", client: settings?.client || "", clientRoot };
+}
+
+/**
+ * Get a file in the server's cache folder for the current session's workspace
+ * The server and workspace name are part of the name, so workspaces sharing a root don't share a file
+ */
+export function getWorkspaceCacheFile(prefix: string, clientRoot: string): string {
+    const { server, client } = getWorkspaceIdentity(clientRoot);
+    const identity = [server, client, clientRoot].filter(Boolean).join("_");
+    const safeName = identity.replace(/[^a-zA-Z0-9_.-]/g, "_");
+
+    const cacheDir = path.join(os.tmpdir(), "perforce-friend-cache");
+    if (!fs.existsSync(cacheDir)) {
+        fs.mkdirSync(cacheDir, { recursive: true });
+    }
+    return path.join(cacheDir, `${prefix}_${safeName}.json`);
+}
+
+// Function to sanitize paths for use in p4 commands
+export function sanitizePathForP4Command(folderPath: string): string {
+    // First ensure there are no query parameters
+    const queryParamIndex = folderPath.indexOf("?");
+    if (queryParamIndex > 0) {
+        folderPath = folderPath.substring(0, queryParamIndex);
+    }
+
+    // Remove any trailing slashes
+    folderPath = folderPath.replace(/[\/\\]$/, "");
+
+    // Ensure Windows paths use backslashes consistently
+    // This is important for Perforce which prefers native path separators
+    if (folderPath.includes(":\\")) {
+        folderPath = folderPath.replace(/\//g, "\\");
+    }
+
+    return folderPath;
+}
+
+/**
+ * Convert a reconciled file to the format the modified files list uses
+ */
+export function toModifiedFile(file: P4ModifiedFile): ModifiedFile {
+    return {
+        localPath: file.localFile, // Use localFile as localPath
+        localFile: file.localFile, // Keep original property
+        depotPath: file.depotFile,
+        status: file.status,
+        action: file.type || "reconcile", // Use type as action or default to 'reconcile'
+    };
+}
@@ -0,0 +1,121 @@
+// Server-side backups of local files taken before a revert discards their changes
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { P4RevertBackup } from "../types/p4";
+
+// Oldest backups beyond this count are deleted
+const MAX_BACKUPS = 100;
+
+// Name of the index file listing the backups of a workspace
+const INDEX_FILE = "backups.json";
+
+/**
+ * Get the backup directory of a client workspace, creating it if needed
+ */
+function getBackupDir(clientName: string): string {
+    const safeName = clientName.replace(/[^a-zA-Z0-9_.-]/g, "_");
+    const backupDir = path.join(os.tmpdir(), "perforce-friend-backups", safeName);
+    if (!fs.existsSync(backupDir)) {
+        fs.mkdirSync(backupDir, { recursive: true });
+    }
+    return backupDir;
+}
+
+function readIndex(backupDir: string): P4RevertBackup[] {
+    const indexFile = path.join(backupDir, INDEX_FILE);
+    if (!fs.existsSync(indexFile)) {
+        return [];
+    }
+
+    try {
+        return JSON.parse(fs.readFileSync(indexFile, { encoding: "utf8" }));
+    } catch (error) {
+        console.error("[DEBUG] Error reading backup index, starting a new one:", error);
+        return [];
+    }
+}
+
+function writeIndex(backupDir: string, backups: P4RevertBackup[]) {
+    fs.writeFileSync(path.join(backupDir, INDEX_FILE), JSON.stringify(backups, null, 2), { encoding: "utf8" });
+}
+
+/**
+ * Copy local files into the backup area of a workspace before they are reverted
+ * Files that don't exist locally (e.g. opened for delete) are skipped
+ */
+export function backupFiles(clientName: string, files: Omit<P4RevertBackup, "id" | "revertedAt" | "size">[]): P4RevertBackup[] {
+    const backupDir = getBackupDir(clientName);
+    const backups = readIndex(backupDir);
+    const created: P4RevertBackup[] = [];
+    const revertedAt = new Date().toISOString();
+
+    files.forEach((file) => {
+        if (!file.localFile || !fs.existsSync(file.localFile)) {
+            return;
+        }
+
+        // Unique even for reverts in the same millisecond, which would otherwise overwrite each other's backups
+        const id = `${Date.now()}_${randomUUID()}`;
+        const fileDir = path.join(backupDir, id);
+        fs.mkdirSync(fileDir, { recursive: true });
+        fs.copyFileSync(file.localFile, path.join(fileDir, path.basename(file.localFile)));
+
+        created.push({
+            ...file,
+            id,
+            revertedAt,
+            size: fs.statSync(file.localFile).size,
+        });
+    });
+
+    // Newest first, dropping the oldest backups over the limit
+    const allBackups = [...created, ...backups];
+    allBackups.slice(MAX_BACKUPS).forEach((backup) => {
+        fs.rmSync(path.join(backupDir, backup.id), { recursive: true, force: true });
+    });
+    writeIndex(backupDir, allBackups.slice(0, MAX_BACKUPS));
+
+    return created;
+}
+
+/**
+ * List the backups of a workspace, newest first
+ */
+export function listBackups(clientName: string): P4RevertBackup[] {
+    return readIndex(getBackupDir(clientName));
+}
+
+/**
+ * Copy a backup back to its local path
+ * The restored file is writable but not opened, so it shows up as a modified file
+ */
+export function restoreBackup(clientName: string, id: string): P4RevertBackup {
+    const backupDir = getBackupDir(clientName);
+    const backups = readIndex(backupDir);
+    const backup = backups.find((b) => b.id === id);
+
+    if (!backup) {
+        throw new Error(`Backup not found: ${id}`);
+    }
+
+    const backupFile = path.join(backupDir, backup.id, path.basename(backup.localFile));
+    if (!fs.existsSync(backupFile)) {
+        throw new Error(`Backup file is missing: ${backupFile}`);
+    }
+
+    // Reverted files are read-only, make them writable before overwriting
+    if (fs.existsSync(backup.localFile)) {
+        fs.chmodSync(backup.localFile, fs.statSync(backup.localFile).mode | 0o200);
+    } else {
+        fs.mkdirSync(path.dirname(backup.localFile), { recursive: true });
+    }
+    fs.copyFileSync(backupFile, backup.localFile);
+
+    backup.restoredAt = new Date().toISOString();
+    writeIndex(backupDir, backups);
+
+    return backup;
+}
@@ -1,20 +1,223 @@
 // Server-side utilities for Perforce commands
 
-import { execSync } from "child_process";
+import { P4ChangeDetails, P4ChangeFile, P4Changelist, P4ConnectionSettings, P4PendingResolve } from "../types/p4";
+import { getP4Failure, runP4 } from "./p4Runner";
+import { getCurrentP4Session } from "./p4Session";
+import { parseP4InfoOutput, parseP4ZtagOutput } from "./ztagUtils";
 
 /**
- * Execute a p4 command and return the output
- * This function will execute the command and log it to the client
+ * Execute a p4 command and return its output, throwing when it fails
+ * Arguments are passed to p4 as they are, without a shell, so paths need no quoting
+ * An optional input string is piped to the command's stdin (e.g. for 'p4 change -i')
  */
-export function executeP4Command(command: string): string {
+export function executeP4Command(args: string[], input?: string): string {
+    const result = runP4(args, { input });
+
+    const failure = getP4Failure(result);
+    if (failure) {
+        throw new Error(failure);
+    }
+
+    return result.stdout;
+}
+
+/**
+ * Get the name of the current client workspace from 'p4 info'
+ */
+export function getP4ClientName(): string {
+    const { clientName } = parseP4InfoOutput(executeP4Command(["-ztag", "info"]));
+
+    if (!clientName) {
+        throw new Error("No Perforce client workspace is set");
+    }
+
+    return clientName;
+}
+
+/**
+ * Get the client root a request works in: the requested one, the session's (which a connection profile may override),
+ * or the one 'p4 info' reports; empty when there is none
+ * The modified files routes all find the root this way, so their scans and cache files are for the same root
+ */
+export function getP4ClientRoot(requestedRoot?: string | null): string {
+    const clientRoot = requestedRoot || getCurrentP4Session()?.clientRoot || "";
+    if (clientRoot) {
+        return clientRoot;
+    }
+
     try {
-        // Execute the command
-        const output = execSync(command, { encoding: "utf8" });
+        return parseP4InfoOutput(executeP4Command(["-ztag", "info"])).clientRoot || "";
+    } catch (infoError) {
+        console.error("[DEBUG] Error getting p4 info:", infoError);
+        return "";
+    }
+}
+
+/**
+ * Log in with a password and return the ticket, which 'p4 login -p' prints instead of saving to the server's ticket file
+ * Returns undefined when the server doesn't require a login for the user
+ */
+export function getP4LoginTicket(settings: P4ConnectionSettings, password: string): string | undefined {
+    const result = runP4(["login", "-p"], { connection: settings, input: `${password}\n` });
+
+    const failure = getP4Failure(result);
+    if (failure) {
+        throw new Error(failure);
+    }
+
+    if (/not necessary/i.test(result.stdout)) {
+        return undefined;
+    }
+
+    // The ticket is the last word, after the password prompt
+    const ticket = result.stdout.trim().split(/\s+/).pop();
+    if (!ticket) {
+        throw new Error("p4 login didn't return a ticket");
+    }
+
+    return ticket;
+}
+
+/**
+ * Replace the Description field of a changelist spec (output of 'p4 change -o')
+ * Optionally drops the Files field so a new changelist is created empty
+ */
+export function setChangeSpecDescription(spec: string, description: string, removeFiles: boolean = false): string {
+    const lines = spec.split(/\r?\n/);
+    const result: string[] = [];
+    let skipping = false;
+
+    for (const line of lines) {
+        // Spec fields start at the beginning of the line, their values are indented with tabs
+        const fieldMatch = line.match(/^(\w+):/);
 
-        // Return the output
-        return output;
+        if (fieldMatch) {
+            skipping = false;
+
+            if (fieldMatch[1] === "Description") {
+                result.push("Description:");
+                description.split(/\r?\n/).forEach((descLine) => result.push(`\t${descLine}`));
+                result.push("");
+                skipping = true;
+                continue;
+            }
+
+            if (removeFiles && fieldMatch[1] === "Files") {
+                skipping = true;
+                continue;
+            }
+        }
+
+        if (!skipping) {
+            result.push(line);
+        }
+    }
+
+    return result.join("\n");
+}
+
+/**
+ * Create a new, empty pending changelist and return its number
+ */
+export function createP4Changelist(description: string): string {
+    // Start from the default spec, but drop its Files so opened files stay in the default changelist
+    const spec = executeP4Command(["change", "-o"]);
+    const newSpec = setChangeSpecDescription(spec, description, true);
+    const output = executeP4Command(["change", "-i"], newSpec);
+
+    const changeMatch = output.match(/Change (\d+) created/);
+    if (!changeMatch) {
+        throw new Error(`Unexpected output from p4 change: ${output}`);
+    }
+
+    return changeMatch[1];
+}
+
+/**
+ * Parse the output of 'p4 -ztag changes -l' into structured data
+ * Description lines after the first one are printed without the '... ' prefix
+ */
+export function parseP4ChangesOutput(output: string): P4Changelist[] {
+    return parseP4ZtagOutput(output)
+        .filter((record) => record.change)
+        .map((record) => ({
+            change: record.change,
+            description: (record.desc || "").trim(),
+            user: record.user,
+            client: record.client,
+            status: record.status,
+            date: record.time ? new Date(parseInt(record.time, 10) * 1000).toISOString() : undefined,
+            // 'p4 changes' only prints a 'shelved' field for changes with shelved files
+            shelved: record.shelved !== undefined,
+        }));
+}
+
+/**
+ * Parse the output of 'p4 -ztag describe -s' into structured data
+ * The files of the change (its shelved files with '-S') are indexed fields: depotFile0, rev0, action0, ...
+ */
+export function parseP4DescribeOutput(output: string): P4ChangeDetails | null {
+    const record = parseP4ZtagOutput(output).find((candidate) => candidate.change);
+    if (!record) {
+        return null;
+    }
+
+    const files: P4ChangeFile[] = [];
+    for (let index = 0; record[`depotFile${index}`] !== undefined; index++) {
+        files.push({ depotFile: record[`depotFile${index}`], rev: record[`rev${index}`] || "", action: record[`action${index}`] || "" });
+    }
+
+    return {
+        change: record.change,
+        user: record.user || "",
+        client: record.client || "",
+        date: record.time ? new Date(parseInt(record.time, 10) * 1000).toISOString() : "",
+        status: record.status || "submitted",
+        description: (record.desc || "").trim(),
+        files,
+    };
+}
+
+// Number of files passed to a single 'p4 fstat' when looking up depot paths
+const FSTAT_BATCH_SIZE = 50;
+
+/**
+ * List opened files that need resolving with 'p4 resolve -n -o', optionally limited to some files
+ * '-o' adds the base file and revision that a three-way merge uses
+ */
+export function getP4PendingResolves(files: string[] = []): P4PendingResolve[] {
+    let records: Record<string, string>[];
+    try {
+        records = parseP4ZtagOutput(executeP4Command(["-ztag", "resolve", "-n", "-o", ...files])).filter((record) => record.clientFile && record.fromFile);
     } catch (error: any) {
-        // If there's an error, throw it
-        throw new Error(`P4 command failed: ${error.message}`);
+        // p4 reports an error when there is nothing to resolve
+        if (error.message && error.message.includes("no file(s) to resolve")) {
+            return [];
+        }
+        throw error;
+    }
+
+    // Resolve records only have the local path, look up the depot path of each file
+    const depotFiles: Record<string, string> = {};
+    const localFiles = Array.from(new Set(records.map((record) => record.clientFile)));
+    for (let i = 0; i < localFiles.length; i += FSTAT_BATCH_SIZE) {
+        const batch = localFiles.slice(i, i + FSTAT_BATCH_SIZE);
+        parseP4ZtagOutput(executeP4Command(["-ztag", "fstat", "-T", "depotFile,clientFile", ...batch])).forEach((record) => {
+            if (record.clientFile) {
+                depotFiles[record.clientFile.toLowerCase()] = record.depotFile;
+            }
+        });
     }
+
+    return records.map((record) => ({
+        depotFile: depotFiles[record.clientFile.toLowerCase()] || record.fromFile,
+        localFile: record.clientFile,
+        fromFile: record.fromFile,
+        startFromRev: record.startFromRev && record.startFromRev !== "none" ? record.startFromRev : undefined,
+        endFromRev: record.endFromRev,
+        baseFile: record.baseFile,
+        baseRev: record.baseRev,
+        resolveType: record.resolveType || "content",
+        contentResolveType: record.contentResolveType,
+    }));
 }
@@ -4,6 +4,7 @@
 export const STORAGE_KEYS = {
     CLIENT_ROOT: "perforce_friend_client_root",
     EXCLUDED_FOLDERS: "perforceFriend_excludedFolders",
+    INCLUSION_FOLDERS: "perforceFriend_inclusionFolders",
     SELECTED_FOLDERS: "perforce_friend_selected_folders",
 };
 
@@ -0,0 +1,52 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+
+/**
+ * A hook that looks up server-side details of the shown files, e.g. who else has them open
+ * Only files not looked up yet are fetched, so pass the files of the current page rather than
+ * the whole list. The cache is dropped when refreshKey changes (e.g. when the list is reloaded).
+ *
+ * @param fetchDetails Fetches the details of a list of depot files, by depot path
+ * @param depotFiles Depot paths of the files shown
+ * @param refreshKey Any value that changes when the cached results should be discarded
+ * @returns Results by depot path
+ */
+export function useFileLookup<T>(
+    fetchDetails: (depotFiles: string[]) => Promise<Record<string, T>>,
+    depotFiles: string[],
+    refreshKey?: unknown,
+) {
+    const [results, setResults] = useState<Record<string, T>>({});
+    const [checked, setChecked] = useState<Set<string>>(new Set());
+    // Changes on every reload, lookups started before it are discarded when they finish
+    const generationRef = useRef(0);
+
+    // Forget everything when the file list is reloaded
+    useEffect(() => {
+        generationRef.current++;
+        setResults({});
+        setChecked(new Set());
+    }, [refreshKey]);
+
+    const filesKey = depotFiles.join("\n");
+
+    useEffect(() => {
+        const missing = depotFiles.filter((depotFile) => !checked.has(depotFile));
+        if (missing.length === 0) return;
+
+        const generation = generationRef.current;
+        setChecked((prevChecked) => new Set([...Array.from(prevChecked), ...missing]));
+        fetchDetails(missing)
+            .then((found) => {
+                if (generation === generationRef.current) {
+                    setResults((prevResults) => ({ ...prevResults, ...found }));
+                }
+            })
+            .catch((error) => console.error("Error looking up file details:", error));
+    }, [filesKey, checked]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    return results;
+}
+
+export default useFileLookup;
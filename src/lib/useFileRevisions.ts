@@ -0,0 +1,83 @@
+"use client";
+
+import { P4FileRevisionState, P4SyncFile } from "../types/p4";
+import { useFileLookup } from "./useFileLookup";
+
+/**
+ * Check if the depot has a newer revision of a file than the workspace
+ */
+export function isOutOfDate(state?: { haveRev?: string; headRev?: string }): boolean {
+    if (!state) return false;
+
+    const haveRev = parseInt(state.haveRev || "0", 10);
+    const headRev = parseInt(state.headRev || "0", 10);
+    return haveRev > 0 && headRev > haveRev;
+}
+
+/**
+ * Ask the server for the have and head revisions of the given depot files
+ */
+export async function fetchFileRevisions(depotFiles: string[]): Promise<Record<string, P4FileRevisionState>> {
+    if (depotFiles.length === 0) return {};
+
+    const response = await fetch("/api/p4/files/revisions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ files: depotFiles }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to get file revisions");
+    }
+
+    return data.files || {};
+}
+
+/**
+ * Sync files to their head revision and wait for the sync to finish
+ * Opened files get a resolve scheduled instead of being overwritten
+ */
+export async function syncFilesToHead(depotFiles: string[]): Promise<{ files: P4SyncFile[]; errors: string[] }> {
+    const response = await fetch("/api/p4/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ files: depotFiles }),
+    });
+
+    if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || "Failed to sync files");
+    }
+
+    // The sync streams one JSON event per line
+    const files: P4SyncFile[] = [];
+    const errors: string[] = [];
+    (await response.text()).split("\n").forEach((line) => {
+        if (!line.trim()) return;
+        const event = JSON.parse(line);
+        if (event.type === "file") {
+            files.push(event.file);
+        } else if (event.type === "error") {
+            errors.push(event.message);
+        }
+    });
+
+    // Writable files that aren't opened are left alone by p4
+    files.filter((file) => file.action === "cantClobber").forEach((file) => errors.push(file.message));
+
+    return { files, errors };
+}
+
+/**
+ * A hook that looks up the have and head revisions of the shown files
+ *
+ * @param depotFiles Depot paths of the files shown, usually the current page
+ * @param refreshKey Any value that changes when the cached results should be discarded
+ * @returns Results by depot path
+ */
+export function useFileRevisions(depotFiles: string[], refreshKey?: unknown) {
+    return useFileLookup(fetchFileRevisions, depotFiles, refreshKey);
+}
+
+export default useFileRevisions;
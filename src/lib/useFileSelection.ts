@@ -0,0 +1,71 @@
+"use client";
+
+import { useState, useMemo, useRef } from "react";
+
+/**
+ * A hook that tracks the selected rows of a file table
+ * Supports shift-click range selection and selecting every file matching the current filter,
+ * not just the current page. Only keys present in orderedKeys count as selected, so files
+ * hidden by a filter are never acted on.
+ *
+ * @param orderedKeys Keys of all files matching the current filter, in display order
+ * @returns The selection and functions to change it
+ */
+export function useFileSelection(orderedKeys: string[]) {
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    // Last clicked key, the anchor of shift-click ranges
+    const anchorRef = useRef<string | null>(null);
+
+    // Selected keys that are still visible, in display order
+    const selectedKeys = useMemo(() => orderedKeys.filter((key) => selected.has(key)), [orderedKeys, selected]);
+
+    const isSelected = (key: string) => selected.has(key);
+
+    // Select or deselect a list of keys
+    const setMany = (keys: string[], select: boolean) => {
+        setSelected((prevSelected) => {
+            const newSelected = new Set(prevSelected);
+            keys.forEach((key) => (select ? newSelected.add(key) : newSelected.delete(key)));
+            return newSelected;
+        });
+    };
+
+    // Toggle a key; with shift held, apply the same state to every key between the anchor and it
+    const toggle = (key: string, shiftKey: boolean = false) => {
+        const select = !selected.has(key);
+        const anchorIndex = anchorRef.current ? orderedKeys.indexOf(anchorRef.current) : -1;
+        const keyIndex = orderedKeys.indexOf(key);
+
+        if (shiftKey && anchorIndex !== -1 && keyIndex !== -1) {
+            const start = Math.min(anchorIndex, keyIndex);
+            const end = Math.max(anchorIndex, keyIndex);
+            setMany(orderedKeys.slice(start, end + 1), select);
+        } else {
+            setMany([key], select);
+        }
+
+        anchorRef.current = key;
+    };
+
+    // Select every file matching the current filter, across all pages
+    const selectAll = () => setMany(orderedKeys, true);
+
+    // Deselect keys that are no longer in a list, e.g. files gone from a reloaded list
+    const retain = (keys: string[]) => {
+        const keySet = new Set(keys);
+        setSelected((prevSelected) => {
+            const kept = Array.from(prevSelected).filter((key) => keySet.has(key));
+            return kept.length === prevSelected.size ? prevSelected : new Set(kept);
+        });
+    };
+
+    const clear = () => {
+        setSelected(new Set());
+        anchorRef.current = null;
+    };
+
+    return { selectedKeys, isSelected, toggle, setMany, selectAll, retain, clear };
+}
+
+export default useFileSelection;
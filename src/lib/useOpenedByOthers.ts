@@ -0,0 +1,38 @@
+"use client";
+
+import { P4FileOpenedByOthers } from "../types/p4";
+import { useFileLookup } from "./useFileLookup";
+
+/**
+ * Ask the server who else has the given depot files open
+ * Files unknown to the server (e.g. new files) are missing from the result
+ */
+export async function fetchOpenedByOthers(depotFiles: string[]): Promise<Record<string, P4FileOpenedByOthers>> {
+    if (depotFiles.length === 0) return {};
+
+    const response = await fetch("/api/p4/files/opened/others", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ files: depotFiles }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to find files opened by others");
+    }
+
+    return data.files || {};
+}
+
+/**
+ * A hook that looks up who else has the shown files open
+ *
+ * @param depotFiles Depot paths of the files shown, usually the current page
+ * @param refreshKey Any value that changes when the cached results should be discarded
+ * @returns Results by depot path
+ */
+export function useOpenedByOthers(depotFiles: string[], refreshKey?: unknown) {
+    return useFileLookup(fetchOpenedByOthers, depotFiles, refreshKey);
+}
+
+export default useOpenedByOthers;
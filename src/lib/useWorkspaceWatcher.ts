@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ModifiedFile } from "../types/modifiedFiles";
+
+// Wait before reconnecting when the watch connection drops, e.g. when the server restarts
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * A hook that keeps a connection to the server's workspace watcher open while enabled
+ * and reports files saved without being checked out as they are found
+ *
+ * @param enabled Whether to watch
+ * @param inclusionFolders Only files in these folders are reported, all when empty
+ * @param excludedFolders Files in these folders are ignored
+ * @param onFiles Called with newly modified files
+ * @returns Whether the watcher is running, and its last error
+ */
+export function useWorkspaceWatcher(enabled: boolean, inclusionFolders: string[], excludedFolders: string[], onFiles: (files: ModifiedFile[]) => void) {
+    const [isWatching, setIsWatching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // The latest callback is used without reconnecting when it changes
+    const onFilesRef = useRef(onFiles);
+    onFilesRef.current = onFiles;
+
+    const params = new URLSearchParams();
+    if (inclusionFolders.length > 0) params.set("inclusionFolders", inclusionFolders.join(","));
+    if (excludedFolders.length > 0) params.set("excludedFolders", excludedFolders.join(","));
+    const watchUrl = `/api/p4/files/modified/watch?${params.toString()}`;
+
+    useEffect(() => {
+        if (!enabled) {
+            setIsWatching(false);
+            setError(null);
+            return;
+        }
+
+        const controller = new AbortController();
+        let reconnectId: ReturnType<typeof setTimeout> | undefined;
+
+        // Each event is an 'event:' line and a 'data:' line followed by a blank line, keep-alive comments are skipped
+        const handleEvent = (message: string) => {
+            const type = message.match(/^event: (.*)$/m)?.[1];
+            const data = message.match(/^data: (.*)$/m)?.[1];
+            if (!type || !data) return;
+
+            const event = JSON.parse(data);
+            if (type === "ready") {
+                setIsWatching(true);
+                setError(null);
+            } else if (type === "files") {
+                onFilesRef.current(event.files || []);
+            } else if (type === "error") {
+                setError(event.details || event.error);
+            }
+        };
+
+        const connect = async () => {
+            try {
+                const response = await fetch(watchUrl, { cache: "no-store", signal: controller.signal });
+                if (!response.ok || !response.body) {
+                    const data = await response.json().catch(() => ({}));
+                    setError(data.error || "Failed to watch the workspace");
+                    return;
+                }
+
+                const reader = response.body.getReader();
+                const decoder = new TextDecoder();
+                let buffered = "";
+
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffered += decoder.decode(value, { stream: true });
+                    const messages = buffered.split("\n\n");
+                    buffered = messages.pop() || "";
+                    messages.forEach(handleEvent);
+                }
+            } catch (watchError) {
+                if (controller.signal.aborted) return;
+                console.error("Error watching the workspace:", watchError);
+            }
+
+            // The connection dropped, try again in a moment
+            if (!controller.signal.aborted) {
+                setIsWatching(false);
+                reconnectId = setTimeout(connect, RECONNECT_DELAY_MS);
+            }
+        };
+
+        connect();
+
+        return () => {
+            controller.abort();
+            clearTimeout(reconnectId);
+            setIsWatching(false);
+        };
+    }, [enabled, watchUrl]);
+
+    return { isWatching, error };
+}
+
+export default useWorkspaceWatcher;
@@ -0,0 +1,375 @@
+// Persisted index of a workspace's local files, used to find modified files without reconciling every file
+// Each file's size and modification time are kept with the digest of its have revision ('p4 fstat -Ol'),
+// so a later scan only checks files whose size or time changed, and files that were modified last time
+
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ScanCacheFolder } from "../types/modifiedFiles";
+import { P4ModifiedFile } from "../types/p4";
+import { getP4Failure, runP4Async } from "./p4Runner";
+import { CACHE_EXPIRY_MS } from "./reconcileCache";
+import { FILE_MESSAGE_PATTERN, getWorkspaceCacheFile, isInFolder, toPathKey } from "./reconcileUtils";
+import { parseP4FstatDigests, parseP4ReconcileOutput } from "./ztagUtils";
+
+// Indexes written in another format are rebuilt
+const INDEX_VERSION = 1;
+
+// fstat of a whole workspace lists every file, which is more output than other commands produce
+const INDEX_MAX_OUTPUT_BYTES = 1024 * 1024 * 1024;
+
+// Same limit as a full reconcile, see RECONCILE_TIMEOUT_MS
+const INDEX_TIMEOUT_MS = 60 * 60 * 1000;
+
+type IndexedFile = {
+    // -1 for files that only exist in the depot, e.g. deleted locally
+    size: number;
+    mtimeMs: number;
+    // Digest of the have revision, missing for files that aren't in the depot
+    digest?: string;
+    // What reconcile reported at the last check, missing when the file was unchanged
+    modified?: P4ModifiedFile;
+};
+
+type WorkspaceIndex = {
+    version: number;
+    clientRoot: string;
+    // Folders whose files are all in the index, the client root once the whole workspace was scanned
+    folders: string[];
+    // Folders invalidated since they were indexed, their files are all checked again by the next scan
+    staleFolders?: string[];
+    // When each folder was last scanned, by path key of the folder; indexes written before fall back to updatedAt
+    scannedAt?: Record<string, string>;
+    updatedAt: string;
+    // By local path
+    files: Record<string, IndexedFile>;
+};
+
+export type IncrementalScanResult = {
+    // Modified files in the scanned folders
+    files: P4ModifiedFile[];
+    // Files checked again because they changed, are new or were modified
+    checkedFiles: number;
+    indexedFiles: number;
+};
+
+function getScannedAt(index: WorkspaceIndex, folder: string): string {
+    return index.scannedAt?.[toPathKey(folder)] || index.updatedAt;
+}
+
+/**
+ * Record the scan time of the indexed folders the scanned roots cover
+ */
+function markScanned(index: WorkspaceIndex, roots: string[]): void {
+    const now = new Date().toISOString();
+    index.scannedAt = Object.fromEntries(index.folders.map((folder) => [toPathKey(folder), roots.some((root) => isInFolder(folder, root)) ? now : getScannedAt(index, folder)]));
+    index.updatedAt = now;
+}
+
+function readIndex(indexFile: string, clientRoot: string): WorkspaceIndex | null {
+    if (!fs.existsSync(indexFile)) {
+        return null;
+    }
+
+    try {
+        const index: WorkspaceIndex = JSON.parse(fs.readFileSync(indexFile, { encoding: "utf8" }));
+        return index.version === INDEX_VERSION && toPathKey(index.clientRoot) === toPathKey(clientRoot) ? index : null;
+    } catch (error) {
+        console.error("[DEBUG] Error reading workspace index, it will be rebuilt:", error);
+        return null;
+    }
+}
+
+function writeIndex(indexFile: string, index: WorkspaceIndex): void {
+    fs.writeFileSync(indexFile, JSON.stringify(index), { encoding: "utf8" });
+}
+
+/**
+ * Get the size and modification time of every file in a folder and its subfolders
+ * Reads one folder at a time so other requests, such as cancelling the scan, are handled meanwhile
+ */
+async function walkFiles(root: string, signal: AbortSignal): Promise<Map<string, { size: number; mtimeMs: number }>> {
+    const files = new Map<string, { size: number; mtimeMs: number }>();
+    const folders = [root];
+
+    while (folders.length > 0 && !signal.aborted) {
+        const folder = folders.pop()!;
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(folder, { withFileTypes: true });
+        } catch (error) {
+            console.error("[DEBUG] Error reading folder for the workspace index:", folder, error);
+            continue;
+        }
+
+        await Promise.all(
+            entries.map(async (entry) => {
+                const entryPath = path.join(folder, entry.name);
+                if (entry.isDirectory()) {
+                    folders.push(entryPath);
+                } else if (entry.isFile()) {
+                    try {
+                        const stats = await fs.promises.stat(entryPath);
+                        files.set(entryPath, { size: stats.size, mtimeMs: stats.mtimeMs });
+                    } catch {
+                        // Removed while scanning
+                    }
+                }
+            }),
+        );
+    }
+
+    return files;
+}
+
+/**
+ * Compute the digest of a local file the way the server does for binary files (MD5, upper-case hex)
+ * Text files on Windows have different line endings than the server's copy, their digests don't match
+ * and they are left to reconcile
+ */
+function getLocalDigest(filePath: string): Promise<string | null> {
+    return new Promise((resolve) => {
+        const hash = crypto.createHash("md5");
+        fs.createReadStream(filePath)
+            .on("data", (chunk) => hash.update(chunk))
+            .on("error", () => resolve(null))
+            .on("end", () => resolve(hash.digest("hex").toUpperCase()));
+    });
+}
+
+/**
+ * Run a p4 command on a list of files passed with -x, so long lists don't hit command line limits
+ */
+async function runP4OnFiles(args: string[], files: string[], signal: AbortSignal): Promise<string> {
+    if (files.length === 0) {
+        return "";
+    }
+
+    const listFile = path.join(os.tmpdir(), `p4index_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.txt`);
+    try {
+        fs.writeFileSync(listFile, files.join("\n"), { encoding: "utf8" });
+        const result = await runP4Async(["-x", listFile, ...args], { signal, timeoutMs: INDEX_TIMEOUT_MS, maxOutputBytes: INDEX_MAX_OUTPUT_BYTES });
+
+        // Files outside the depot or the client view are reported on stderr, the others are still on stdout
+        // Anything else, like an expired ticket, would make every file look unchanged
+        const failure = getP4Failure(result);
+        if (failure && (result.error || (!result.stdout.trim() && !FILE_MESSAGE_PATTERN.test(result.stderr)))) {
+            throw new Error(failure);
+        }
+        return result.stdout;
+    } finally {
+        try {
+            fs.unlinkSync(listFile);
+        } catch {
+            // Not created
+        }
+    }
+}
+
+/**
+ * Get the have revision digests of files, by path key
+ */
+async function getHaveDigests(paths: string[], signal: AbortSignal): Promise<Map<string, string>> {
+    const output = await runP4OnFiles(["-ztag", "fstat", "-Ol", "-T", "clientFile,digest"], paths, signal);
+    const digests = new Map<string, string>();
+    Object.entries(parseP4FstatDigests(output)).forEach(([filePath, digest]) => digests.set(toPathKey(filePath), digest));
+    return digests;
+}
+
+/**
+ * Record the files of a full reconcile in the workspace index, so the next scan of these folders is incremental
+ * Folders are the inclusion folders that were scanned, none for the whole workspace
+ */
+export async function updateWorkspaceIndex(clientRoot: string, folders: string[], modifiedFiles: P4ModifiedFile[], signal: AbortSignal): Promise<void> {
+    const roots = folders.length > 0 ? folders : [clientRoot];
+    const indexFile = getWorkspaceCacheFile("p4index", clientRoot);
+    const startTime = Date.now();
+
+    const digests = await getHaveDigests(
+        roots.map((root) => `${path.join(root, "...")}#have`),
+        signal,
+    );
+
+    const index = readIndex(indexFile, clientRoot) || { version: INDEX_VERSION, clientRoot, folders: [], updatedAt: "", files: {} };
+
+    // Files of the scanned folders are replaced by what was found now
+    Object.keys(index.files).forEach((filePath) => {
+        if (roots.some((root) => isInFolder(filePath, root))) {
+            delete index.files[filePath];
+        }
+    });
+
+    const modifiedByPath = new Map(modifiedFiles.filter((file) => file.localFile).map((file) => [toPathKey(file.localFile), file]));
+    for (const root of roots) {
+        const localFiles = await walkFiles(root, signal);
+        localFiles.forEach((stats, filePath) => {
+            const key = toPathKey(filePath);
+            index.files[filePath] = { ...stats, digest: digests.get(key), modified: modifiedByPath.get(key) };
+            modifiedByPath.delete(key);
+        });
+    }
+
+    // Files deleted locally only exist in the reconcile results
+    modifiedByPath.forEach((file) => {
+        index.files[file.localFile] = { size: -1, mtimeMs: 0, modified: file };
+    });
+
+    if (signal.aborted) {
+        return;
+    }
+
+    // Folders inside another indexed folder don't need to be listed
+    index.folders = [...index.folders, ...roots].reduce<string[]>(
+        (kept, folder) => (kept.some((other) => isInFolder(folder, other)) ? kept : [...kept.filter((other) => !isInFolder(other, folder)), folder]),
+        [],
+    );
+    index.staleFolders = index.staleFolders?.filter((staleFolder) => !roots.some((root) => isInFolder(staleFolder, root)));
+    markScanned(index, roots);
+    writeIndex(indexFile, index);
+
+    console.log(`[DEBUG] Workspace index updated with ${Object.keys(index.files).length} files in ${Date.now() - startTime}ms:`, indexFile);
+}
+
+/**
+ * Find modified files using the workspace index, only checking files changed since the last scan
+ * Returns null when the folders aren't indexed yet, they need a full reconcile first (see updateWorkspaceIndex)
+ */
+export async function scanWithWorkspaceIndex(
+    clientRoot: string,
+    folders: string[],
+    signal: AbortSignal,
+    onProgress: (progress: string) => void = () => {},
+): Promise<IncrementalScanResult | null> {
+    const roots = folders.length > 0 ? folders : [clientRoot];
+    const indexFile = getWorkspaceCacheFile("p4index", clientRoot);
+    const index = readIndex(indexFile, clientRoot);
+
+    if (!index || !roots.every((root) => index.folders.some((folder) => isInFolder(root, folder)))) {
+        return null;
+    }
+
+    onProgress("Looking for changed files");
+    const localFiles = new Map<string, { size: number; mtimeMs: number }>();
+    for (const root of roots) {
+        (await walkFiles(root, signal)).forEach((stats, filePath) => localFiles.set(filePath, stats));
+    }
+    if (signal.aborted) {
+        return null;
+    }
+
+    // Indexed files of the scanned folders by path key, to match the paths p4 reports
+    const indexedByKey = new Map<string, string>();
+    Object.keys(index.files).forEach((filePath) => {
+        if (roots.some((root) => isInFolder(filePath, root))) {
+            indexedByKey.set(toPathKey(filePath), filePath);
+        }
+    });
+
+    // New, changed and previously modified files are checked, like files that disappeared
+    const changedFiles: string[] = [];
+    localFiles.forEach((stats, filePath) => {
+        const indexedPath = indexedByKey.get(toPathKey(filePath));
+        const indexed = indexedPath ? index.files[indexedPath] : undefined;
+        indexedByKey.delete(toPathKey(filePath));
+
+        if (!indexed || indexed.size !== stats.size || indexed.mtimeMs !== stats.mtimeMs || indexed.modified) {
+            if (indexedPath && indexedPath !== filePath) {
+                delete index.files[indexedPath];
+            }
+            changedFiles.push(filePath);
+        }
+    });
+    const missingFiles = Array.from(indexedByKey.values());
+
+    // Files whose content still matches the have revision only had their time changed (e.g. touched or saved unchanged)
+    onProgress(`Checking ${changedFiles.length + missingFiles.length} changed file(s)`);
+    const digests = await getHaveDigests(
+        changedFiles.map((filePath) => `${filePath}#have`),
+        signal,
+    );
+    const reconcileFiles = [...missingFiles];
+    for (const filePath of changedFiles) {
+        const digest = digests.get(toPathKey(filePath));
+        index.files[filePath] = { ...localFiles.get(filePath)!, digest };
+
+        if (!digest || (await getLocalDigest(filePath)) !== digest) {
+            reconcileFiles.push(filePath);
+        }
+    }
+
+    onProgress(`Reconciling ${reconcileFiles.length} file(s)`);
+    const reconciled = parseP4ReconcileOutput(await runP4OnFiles(["-ztag", "reconcile", "-n"], reconcileFiles, signal));
+    if (signal.aborted) {
+        return null;
+    }
+
+    const reconciledByKey = new Map(reconciled.filter((file) => file.localFile).map((file) => [toPathKey(file.localFile), file]));
+    reconcileFiles.forEach((filePath) => {
+        const modified = reconciledByKey.get(toPathKey(filePath));
+        if (localFiles.has(filePath)) {
+            index.files[filePath].modified = modified;
+        } else if (modified) {
+            index.files[filePath] = { size: -1, mtimeMs: 0, modified };
+        } else {
+            delete index.files[filePath];
+        }
+    });
+
+    index.staleFolders = index.staleFolders?.filter((staleFolder) => !roots.some((root) => isInFolder(staleFolder, root)));
+    markScanned(index, roots);
+    writeIndex(indexFile, index);
+
+    const files = Object.entries(index.files)
+        .filter(([filePath, file]) => file.modified && roots.some((root) => isInFolder(filePath, root)))
+        .map(([, file]) => file.modified!);
+
+    return { files, checkedFiles: changedFiles.length + missingFiles.length, indexedFiles: localFiles.size };
+}
+
+/**
+ * Make the next scan check every file of a folder again, or drop the whole index when no folder is given
+ * The files keep their digests, so unchanged ones still don't need a reconcile
+ */
+export function invalidateWorkspaceIndex(clientRoot: string, folder?: string): void {
+    const indexFile = getWorkspaceCacheFile("p4index", clientRoot);
+    if (!folder) {
+        if (fs.existsSync(indexFile)) {
+            fs.unlinkSync(indexFile);
+        }
+        return;
+    }
+
+    const index = readIndex(indexFile, clientRoot);
+    if (!index || !index.folders.some((indexedFolder) => isInFolder(folder, indexedFolder) || isInFolder(indexedFolder, folder))) {
+        return;
+    }
+
+    Object.entries(index.files).forEach(([filePath, file]) => {
+        if (isInFolder(filePath, folder) && file.size >= 0) {
+            file.mtimeMs = -1;
+        }
+    });
+    index.staleFolders = [...(index.staleFolders || []).filter((staleFolder) => !isInFolder(staleFolder, folder)), folder];
+    writeIndex(indexFile, index);
+}
+
+/**
+ * List the indexed folders, for inspecting the index
+ */
+export function getWorkspaceIndexFolders(clientRoot: string): ScanCacheFolder[] {
+    const index = readIndex(getWorkspaceCacheFile("p4index", clientRoot), clientRoot);
+    if (!index) {
+        return [];
+    }
+
+    const modifiedPaths = Object.keys(index.files).filter((filePath) => index.files[filePath].modified);
+    return index.folders.map((folder) => ({
+        folder,
+        scannedAt: getScannedAt(index, folder),
+        fileCount: modifiedPaths.filter((filePath) => isInFolder(filePath, folder)).length,
+        staleFolders: (index.staleFolders || []).filter((staleFolder) => isInFolder(staleFolder, folder) || isInFolder(folder, staleFolder)),
+        // Results cached for the folder expire too, so it's scanned again by the next refresh
+        isExpired: Date.now() - new Date(getScannedAt(index, folder)).getTime() >= CACHE_EXPIRY_MS,
+    }));
+}
@@ -0,0 +1,158 @@
+// Watches a workspace's files for saves made outside of p4, e.g. in an external editor
+// Files p4 manages stay read-only until they are opened, so a changed file that became writable was
+// edited without being checked out; such files are checked with 'p4 reconcile -n -e', which only reports
+// files that differ from their have revision and aren't opened
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { P4ModifiedFile } from "../types/p4";
+import { getP4Failure, runP4Async } from "./p4Runner";
+import { getCurrentP4Session, runWithP4Session } from "./p4Session";
+import { parseP4ReconcileOutput } from "./ztagUtils";
+
+// Changes are collected for this long before checking them, editors often write a file several times
+const WATCH_DEBOUNCE_MS = 1000;
+
+// Longest a check of changed files may take
+const WATCH_CHECK_TIMEOUT_MS = 60 * 1000;
+
+export type WorkspaceWatchOptions = {
+    clientRoot: string;
+    // Only files in these folders are reported, the whole client root when empty
+    folders: string[];
+    // Folder names or paths whose files are ignored, matched like the exclusion filter of the modified files list
+    excludedFolders: string[];
+    onFiles: (files: P4ModifiedFile[]) => void;
+    onError: (error: string) => void;
+    // Stops watching when aborted
+    signal: AbortSignal;
+};
+
+/**
+ * Check whether a path is in one of the excluded folders
+ * Like the modified files list, a folder matches at the start of the path or as a whole folder name anywhere in it
+ */
+function isInExcludedFolder(filePath: string, excludedFolders: string[]): boolean {
+    const normalizedPath = filePath.replace(/\\/g, "/").toLowerCase();
+
+    return excludedFolders.some((folder) => {
+        const folderPath = folder.replace(/\\/g, "/").replace(/\/+$/, "").trim().toLowerCase();
+        if (!folderPath) return false;
+
+        return normalizedPath === folderPath || normalizedPath.startsWith(`${folderPath}/`) || normalizedPath.includes(`/${folderPath}/`) || normalizedPath.endsWith(`/${folderPath}`);
+    });
+}
+
+/**
+ * Check whether a path is in one of the folders, or any path when there are none
+ */
+function isInFolders(filePath: string, folders: string[]): boolean {
+    const normalizedPath = filePath.replace(/\\/g, "/").toLowerCase();
+    return folders.length === 0 || folders.some((folder) => normalizedPath.startsWith(`${folder.replace(/\\/g, "/").replace(/\/+$/, "").toLowerCase()}/`));
+}
+
+/**
+ * Check whether a changed path is a file that can be written, read-only files weren't edited outside p4
+ */
+function isWritableFile(filePath: string): boolean {
+    try {
+        if (!fs.statSync(filePath).isFile()) return false;
+        fs.accessSync(filePath, fs.constants.W_OK);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Find which of the changed files are edited without being opened
+ */
+async function checkChangedFiles(filePaths: string[], signal: AbortSignal): Promise<P4ModifiedFile[]> {
+    const listFile = path.join(os.tmpdir(), `p4watch_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.txt`);
+    try {
+        fs.writeFileSync(listFile, filePaths.join("\n"), { encoding: "utf8" });
+        const result = await runP4Async(["-x", listFile, "-ztag", "reconcile", "-n", "-e"], { signal, timeoutMs: WATCH_CHECK_TIMEOUT_MS });
+
+        // Files that aren't in the depot or are unchanged are reported on stderr
+        if (result.error) {
+            throw new Error(getP4Failure(result) || result.error);
+        }
+        return parseP4ReconcileOutput(result.stdout);
+    } finally {
+        try {
+            fs.unlinkSync(listFile);
+        } catch {
+            // Not created
+        }
+    }
+}
+
+/**
+ * Watch the client root until the signal is aborted, reporting files edited without being checked out
+ * Uses the session of the request that started watching for the p4 commands it runs
+ */
+export function watchWorkspace({ clientRoot, folders, excludedFolders, onFiles, onError, signal }: WorkspaceWatchOptions): void {
+    const session = getCurrentP4Session();
+    const pendingPaths = new Set<string>();
+    let timeoutId: NodeJS.Timeout | undefined;
+    let isChecking = false;
+
+    const checkPendingFiles = async () => {
+        timeoutId = undefined;
+        if (isChecking || signal.aborted) return;
+
+        const filePaths = Array.from(pendingPaths).filter(isWritableFile);
+        pendingPaths.clear();
+        if (filePaths.length === 0) return;
+
+        isChecking = true;
+        try {
+            const files = await runWithP4Session(session, () => checkChangedFiles(filePaths, signal));
+            if (files.length > 0 && !signal.aborted) {
+                onFiles(files);
+            }
+        } catch (error) {
+            if (!signal.aborted) {
+                onError(error instanceof Error ? error.message : "Failed to check changed files");
+            }
+        } finally {
+            isChecking = false;
+            // Files changed while checking
+            if (pendingPaths.size > 0 && !signal.aborted) {
+                timeoutId = setTimeout(checkPendingFiles, WATCH_DEBOUNCE_MS);
+            }
+        }
+    };
+
+    let watcher: fs.FSWatcher;
+    try {
+        // Recursive watching needs Windows, macOS, or Node 20 on Linux
+        watcher = fs.watch(clientRoot, { recursive: true }, (eventType, fileName) => {
+            if (!fileName) return;
+
+            const filePath = path.join(clientRoot, fileName.toString());
+            if (!isInFolders(filePath, folders) || isInExcludedFolder(filePath, excludedFolders)) {
+                return;
+            }
+
+            pendingPaths.add(filePath);
+            if (!timeoutId && !isChecking) {
+                timeoutId = setTimeout(checkPendingFiles, WATCH_DEBOUNCE_MS);
+            }
+        });
+    } catch (error) {
+        onError(error instanceof Error ? error.message : "Failed to watch the workspace");
+        return;
+    }
+
+    watcher.on("error", (error) => {
+        onError(error.message);
+        watcher.close();
+    });
+
+    signal.addEventListener("abort", () => {
+        clearTimeout(timeoutId);
+        watcher.close();
+    });
+}
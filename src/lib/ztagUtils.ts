@@ -0,0 +1,205 @@
+// Parsers for the tagged output of 'p4 -ztag' commands
+// Tagged output is one '... field value' line per field, so paths with spaces, '#' or
+// parentheses and messages of localized servers can't confuse the parsing
+
+import { P4AnnotatedLine, P4CheckedOutFile, P4FileRevision, P4Integration, P4ModifiedFile, P4ServerInfo, P4WhereMapping } from "../types/p4";
+
+/**
+ * Parse the output of a 'p4 -ztag' command into a list of records
+ * - records are separated by blank lines, each field line looks like '... key value'
+ * - nested fields (e.g. otherOpen0 of fstat) are printed as '... ... key value' and stored flat, keys of doubly
+ *   indexed fields keep their comma (e.g. how0,1 of filelog)
+ * - lines without the '... ' prefix continue the value of the previous field (e.g. multi-line descriptions),
+ *   including blank lines inside the value, so a record only ends at a blank line followed by a field line
+ */
+export function parseP4ZtagOutput(output: string): Record<string, string>[] {
+    const records: Record<string, string>[] = [];
+    let current: Record<string, string> = {};
+    let lastKey = "";
+    let blankLines = 0;
+
+    for (const line of output.split(/\r?\n/)) {
+        const fieldMatch = line.match(/^(?:\.\.\. )+([\w,]+) ?(.*)$/);
+
+        if (fieldMatch) {
+            if (blankLines > 0 && Object.keys(current).length > 0) {
+                records.push(current);
+                current = {};
+            }
+            current[fieldMatch[1]] = fieldMatch[2];
+            lastKey = fieldMatch[1];
+            blankLines = 0;
+        } else if (line.trim() === "") {
+            blankLines++;
+        } else if (lastKey) {
+            current[lastKey] += "\n".repeat(blankLines + 1) + line;
+            blankLines = 0;
+        }
+    }
+
+    if (Object.keys(current).length > 0) {
+        records.push(current);
+    }
+
+    return records;
+}
+
+/**
+ * Parse the output of 'p4 -ztag info'
+ * A missing workspace is reported as '*unknown*', which is left out
+ */
+export function parseP4InfoOutput(output: string): P4ServerInfo {
+    const record = parseP4ZtagOutput(output)[0] || {};
+    const known = (value?: string) => (value && value !== "*unknown*" ? value : undefined);
+
+    return {
+        userName: known(record.userName),
+        clientName: known(record.clientName),
+        clientRoot: known(record.clientRoot),
+        clientHost: known(record.clientHost),
+        serverAddress: known(record.serverAddress),
+        serverVersion: known(record.serverVersion),
+    };
+}
+
+/**
+ * Parse the output of 'p4 -ztag opened'
+ * The clientFile of opened is in client syntax, so the local path is left empty to be filled from fstat
+ */
+export function parseP4OpenedOutput(output: string): P4CheckedOutFile[] {
+    return parseP4ZtagOutput(output)
+        .filter((record) => record.depotFile && record.action)
+        .map((record) => ({
+            depotFile: record.depotFile,
+            clientFile: "",
+            rev: record.rev || "",
+            action: record.action,
+            type: record.type || "",
+            change: record.change || "default",
+            user: record.user,
+            client: record.client,
+        }));
+}
+
+/**
+ * Parse the output of 'p4 -ztag reconcile -n'
+ * Only records with an action are files, messages such as 'no file(s) to reconcile' are skipped
+ *
+ * @param maxFiles Stop after this many files, 0 for no limit
+ */
+export function parseP4ReconcileOutput(output: string, maxFiles: number = 0): P4ModifiedFile[] {
+    const files = parseP4ZtagOutput(output)
+        .filter((record) => record.depotFile && record.action)
+        .map((record) => ({
+            depotFile: record.depotFile,
+            // Reconcile reports the local path, it's only in client syntax for files outside the client root
+            clientFile: record.clientFile || "",
+            localFile: record.clientFile && !record.clientFile.startsWith("//") ? record.clientFile : "",
+            status: record.action,
+            type: record.type || "text",
+        }));
+
+    return maxFiles > 0 ? files.slice(0, maxFiles) : files;
+}
+
+/**
+ * Parse the output of 'p4 -ztag where' into mappings by depot path
+ * Exclusion lines of the client view ('unmap' records) don't map a file and are skipped
+ */
+export function parseP4WhereOutput(output: string): Record<string, P4WhereMapping> {
+    const mappings: Record<string, P4WhereMapping> = {};
+
+    parseP4ZtagOutput(output)
+        .filter((record) => record.depotFile && record.path && record.unmap === undefined)
+        .forEach((record) => {
+            mappings[record.depotFile] = {
+                depotFile: record.depotFile,
+                clientFile: record.clientFile || "",
+                path: record.path,
+            };
+        });
+
+    return mappings;
+}
+
+/**
+ * Parse the output of 'p4 -ztag fstat -Ol' into have revision digests by local path
+ * Files without a digest (e.g. deleted at the revision) are left out
+ */
+export function parseP4FstatDigests(output: string): Record<string, string> {
+    const digests: Record<string, string> = {};
+
+    parseP4ZtagOutput(output)
+        .filter((record) => record.clientFile && record.digest && !record.clientFile.startsWith("//"))
+        .forEach((record) => {
+            digests[record.clientFile] = record.digest;
+        });
+
+    return digests;
+}
+
+/**
+ * Turn the revision range of a filelog integration into the one 'p4 filelog' prints
+ * srev is the revision before the first one integrated ('#none' for all of them), erev the last one
+ */
+function toIntegration(how: string, file: string, srev: string = "", erev: string = ""): P4Integration {
+    const endRev = erev.replace(/^#/, "") || undefined;
+    const previousRev = parseInt(srev.replace(/^#/, ""), 10);
+    const startRev = srev === "#none" ? "1" : isNaN(previousRev) ? undefined : String(previousRev + 1);
+
+    return { how, file, startRev: startRev !== endRev ? startRev : undefined, endRev };
+}
+
+/**
+ * Parse the output of 'p4 -ztag filelog -l' into revisions, newest first
+ * Each file is one record with its revisions as indexed fields (rev0, change0, desc0, ...) and their
+ * integrations as doubly indexed ones (how0,0, file0,0, srev0,0, erev0,0)
+ */
+export function parseP4FilelogOutput(output: string): P4FileRevision[] {
+    const revisions: P4FileRevision[] = [];
+
+    parseP4ZtagOutput(output)
+        .filter((record) => record.depotFile)
+        .forEach((record) => {
+            for (let index = 0; record[`rev${index}`] !== undefined; index++) {
+                const integrations: P4Integration[] = [];
+                for (let integration = 0; record[`how${index},${integration}`] !== undefined; integration++) {
+                    const key = `${index},${integration}`;
+                    integrations.push(toIntegration(record[`how${key}`], record[`file${key}`] || "", record[`srev${key}`], record[`erev${key}`]));
+                }
+
+                const time = record[`time${index}`];
+                revisions.push({
+                    depotFile: record.depotFile,
+                    rev: record[`rev${index}`],
+                    change: record[`change${index}`] || "",
+                    action: record[`action${index}`] || "",
+                    date: time ? new Date(parseInt(time, 10) * 1000).toISOString() : "",
+                    user: record[`user${index}`] || "",
+                    client: record[`client${index}`] || "",
+                    type: record[`type${index}`] || "",
+                    description: (record[`desc${index}`] || "").trim(),
+                    integrations,
+                });
+            }
+        });
+
+    return revisions;
+}
+
+/**
+ * Parse the output of 'p4 -ztag annotate -u -c' into the lines of the file
+ * Each line is a record with the change that added it (lower), its user and date, and the text (data);
+ * the record describing the file itself has no text and is skipped
+ */
+export function parseP4AnnotateOutput(output: string): P4AnnotatedLine[] {
+    return parseP4ZtagOutput(output)
+        .filter((record) => record.data !== undefined)
+        .map((record) => ({
+            change: record.lower || "",
+            user: record.user || "",
+            // Dates are printed as YYYY/MM/DD, like in the untagged output
+            date: /^\d+$/.test(record.time || "") ? new Date(parseInt(record.time, 10) * 1000).toISOString().slice(0, 10).replace(/-/g, "/") : record.time || "",
+            text: record.data,
+        }));
+}
@@ -27,3 +27,68 @@ export interface ModifiedFile {
      */
     action?: string;
 }
+
+/**
+ * Progress of a streaming scan for modified files, from /api/p4/files/modified/stream
+ */
+export interface ReconcileScanProgress {
+    /**
+     * Folders being scanned, empty when the whole workspace is scanned
+     */
+    folders: string[];
+
+    /**
+     * Folder being scanned now, null for the whole workspace or when no folder is running
+     */
+    currentFolder: string | null;
+
+    /**
+     * Number of folders finished, including skipped and failed ones
+     */
+    foldersDone: number;
+
+    /**
+     * Modified files found so far
+     */
+    fileCount: number;
+
+    /**
+     * When the scan started (ms since epoch)
+     */
+    startTime: number;
+
+    /**
+     * Folders that couldn't be scanned, with the reason
+     */
+    folderErrors: { folder: string; error: string }[];
+}
+
+/**
+ * A folder whose scan results are cached, from /api/p4/files/modified/cache
+ */
+export interface ScanCacheFolder {
+    /**
+     * Local path of the folder, the client root for the whole workspace
+     */
+    folder: string;
+
+    /**
+     * When the folder was last scanned
+     */
+    scannedAt: string;
+
+    /**
+     * Modified files cached for the folder
+     */
+    fileCount: number;
+
+    /**
+     * Subfolders invalidated since the scan, they are scanned again on the next refresh
+     */
+    staleFolders: string[];
+
+    /**
+     * Whether the results are too old to be used
+     */
+    isExpired: boolean;
+}
@@ -41,6 +41,26 @@ export type P4CheckedOutFile = {
      * Workspace that has the file checked out
      */
     client?: string;
+
+    /**
+     * Revision in the workspace, from 'p4 fstat'
+     */
+    haveRev?: string;
+
+    /**
+     * Latest revision in the depot, newer than haveRev when the file is out of date
+     */
+    headRev?: string;
+
+    /**
+     * Action of the latest revision in the depot
+     */
+    headAction?: string;
+
+    /**
+     * Change that submitted the latest revision
+     */
+    headChange?: string;
 };
 
 /**
@@ -87,3 +107,605 @@ export type P4CommandLog = {
      */
     timestamp: string;
 };
+
+/**
+ * Represents a pending changelist in a Perforce workspace
+ */
+export type P4Changelist = {
+    /**
+     * Changelist number ("default" for the default changelist)
+     */
+    change: string;
+
+    /**
+     * Description of the changelist
+     */
+    description: string;
+
+    /**
+     * User that owns the changelist
+     */
+    user?: string;
+
+    /**
+     * Workspace the changelist belongs to
+     */
+    client?: string;
+
+    /**
+     * Status of the changelist (pending, shelved, submitted)
+     */
+    status?: string;
+
+    /**
+     * Date the changelist was last updated (ISO string)
+     */
+    date?: string;
+
+    /**
+     * Whether the changelist has shelved files
+     */
+    shelved?: boolean;
+};
+
+/**
+ * Represents a file of a pending changelist as checked before submitting
+ */
+export type P4SubmitFile = {
+    /**
+     * Depot path of the file
+     */
+    depotFile: string;
+
+    /**
+     * Action being performed on file (edit, add, delete, etc.)
+     */
+    action: string;
+
+    /**
+     * Revision the workspace has
+     */
+    haveRev?: string;
+
+    /**
+     * Latest revision in the depot
+     */
+    headRev?: string;
+
+    /**
+     * Reason the file can't be submitted (needs resolve, out of date), if any
+     */
+    problem?: string;
+};
+
+/**
+ * Contents of both versions of a file, as returned by the diff API
+ */
+export type P4FileDiff = {
+    /**
+     * Depot path of the file
+     */
+    depotFile: string;
+
+    /**
+     * Local path of the file
+     */
+    localFile: string;
+
+    /**
+     * Perforce file type (text, binary, etc.)
+     */
+    type: string;
+
+    /**
+     * Revision the workspace has, compared against the local file
+     */
+    haveRev?: string;
+
+    /**
+     * Whether the file is binary, in which case no content is returned
+     */
+    isBinary: boolean;
+
+    /**
+     * Whether the file is too large to diff in the browser
+     */
+    isTooLarge: boolean;
+
+    /**
+     * Content of the have revision (empty for new files)
+     */
+    baseContent: string;
+
+    /**
+     * Content of the local file (empty for deleted files)
+     */
+    localContent: string;
+};
+
+/**
+ * How opened files are reverted: discarding changes, only unchanged files, or keeping local content
+ */
+export type P4RevertMode = 'all' | 'unchanged' | 'keep';
+
+/**
+ * Backup of a local file taken before a revert discarded its changes
+ */
+export type P4RevertBackup = {
+    /**
+     * Identifier of the backup, used to restore it
+     */
+    id: string;
+
+    /**
+     * Depot path of the reverted file
+     */
+    depotFile: string;
+
+    /**
+     * Local path the file is restored to
+     */
+    localFile: string;
+
+    /**
+     * Action the file was opened for when it was reverted
+     */
+    action: string;
+
+    /**
+     * Changelist the file was opened in
+     */
+    change: string;
+
+    /**
+     * Time of the revert (ISO string)
+     */
+    revertedAt: string;
+
+    /**
+     * Size of the backed up file in bytes
+     */
+    size: number;
+
+    /**
+     * Time the backup was last restored (ISO string)
+     */
+    restoredAt?: string;
+};
+
+/**
+ * An integration record of a file revision (e.g. 'copy from //depot/main/file.txt#3')
+ */
+export type P4Integration = {
+    /**
+     * How the revision was integrated (e.g. 'copy from', 'branch into', 'edit from')
+     */
+    how: string;
+
+    /**
+     * Depot path of the other file
+     */
+    file: string;
+
+    /**
+     * First revision of the other file, if given
+     */
+    startRev?: string;
+
+    /**
+     * Last revision of the other file, if given
+     */
+    endRev?: string;
+};
+
+/**
+ * A revision of a file, as listed by 'p4 filelog'
+ */
+export type P4FileRevision = {
+    /**
+     * Depot path of the file at this revision
+     */
+    depotFile: string;
+
+    /**
+     * Revision number
+     */
+    rev: string;
+
+    /**
+     * Change that submitted the revision
+     */
+    change: string;
+
+    /**
+     * Action of the revision (edit, add, delete, integrate, etc.)
+     */
+    action: string;
+
+    /**
+     * Submit date, ISO 8601
+     */
+    date: string;
+
+    /**
+     * User who submitted the revision
+     */
+    user: string;
+
+    /**
+     * Client workspace the revision was submitted from
+     */
+    client: string;
+
+    /**
+     * Perforce file type of the revision
+     */
+    type: string;
+
+    /**
+     * Full changelist description
+     */
+    description: string;
+
+    /**
+     * Integration records of the revision
+     */
+    integrations: P4Integration[];
+};
+
+/**
+ * A file affected by a changelist, as listed by 'p4 describe'
+ */
+export type P4ChangeFile = {
+    /**
+     * Depot path of the file
+     */
+    depotFile: string;
+
+    /**
+     * Revision of the file in the change
+     */
+    rev: string;
+
+    /**
+     * Action of the file in the change
+     */
+    action: string;
+};
+
+/**
+ * Full details of a changelist from 'p4 describe'
+ */
+export type P4ChangeDetails = {
+    /**
+     * Changelist number
+     */
+    change: string;
+
+    /**
+     * User who owns the change
+     */
+    user: string;
+
+    /**
+     * Client workspace of the change
+     */
+    client: string;
+
+    /**
+     * Date the change was last updated or submitted, ISO 8601
+     */
+    date: string;
+
+    /**
+     * Status of the change (submitted, pending or shelved)
+     */
+    status: string;
+
+    /**
+     * Full changelist description
+     */
+    description: string;
+
+    /**
+     * Files affected by the change
+     */
+    files: P4ChangeFile[];
+};
+
+/**
+ * A line of an annotated file, as listed by 'p4 annotate -u -c'
+ */
+export type P4AnnotatedLine = {
+    /**
+     * Change that last modified the line
+     */
+    change: string;
+
+    /**
+     * User who submitted that change
+     */
+    user: string;
+
+    /**
+     * Date of that change
+     */
+    date: string;
+
+    /**
+     * Text of the line
+     */
+    text: string;
+};
+
+/**
+ * What 'p4 sync' does (or would do) to a file
+ */
+export type P4SyncAction = 'added' | 'updated' | 'deleted' | 'refreshed' | 'opened' | 'cantClobber' | 'needsResolve' | 'other';
+
+/**
+ * A file reported by 'p4 sync' or 'p4 sync -n'
+ */
+export type P4SyncFile = {
+    /**
+     * Depot path of the file (local path for can't clobber errors)
+     */
+    depotFile: string;
+
+    /**
+     * Revision being synced to, if reported
+     */
+    rev?: string;
+
+    /**
+     * Local path of the file, if reported
+     */
+    localFile?: string;
+
+    /**
+     * What happens to the file
+     */
+    action: P4SyncAction;
+
+    /**
+     * The line printed by p4 for this file
+     */
+    message: string;
+};
+
+/**
+ * How 'p4 resolve' picks the result automatically (-am, -at, -ay)
+ */
+export type P4ResolveMode = 'merge' | 'theirs' | 'yours';
+
+/**
+ * A file opened in the workspace that must be resolved before it can be submitted
+ */
+export type P4PendingResolve = {
+    /**
+     * Depot path of the opened file
+     */
+    depotFile: string;
+
+    /**
+     * Local path of the opened file ("yours")
+     */
+    localFile: string;
+
+    /**
+     * Depot file being merged in ("theirs")
+     */
+    fromFile: string;
+
+    /**
+     * First revision of the file being merged in, if a range is merged
+     */
+    startFromRev?: string;
+
+    /**
+     * Last revision of the file being merged in
+     */
+    endFromRev: string;
+
+    /**
+     * Common ancestor used as the base of a three-way merge
+     */
+    baseFile?: string;
+
+    /**
+     * Revision of the base file
+     */
+    baseRev?: string;
+
+    /**
+     * What is being resolved (content, filetype, move, delete, ...)
+     */
+    resolveType: string;
+
+    /**
+     * Kind of content merge (e.g. 3waytext, 2wayraw), binary files can't be merged in the editor
+     */
+    contentResolveType?: string;
+};
+
+/**
+ * The three versions of a file needed to merge it
+ */
+export type P4MergeFiles = {
+    /**
+     * The pending resolve being merged
+     */
+    resolve: P4PendingResolve;
+
+    /**
+     * Content of the common ancestor, empty when there is none
+     */
+    base: string;
+
+    /**
+     * Content of the revision being merged in
+     */
+    theirs: string;
+
+    /**
+     * Content of the workspace file
+     */
+    yours: string;
+};
+
+/**
+ * Another workspace that has a file open
+ */
+export type P4OtherOpen = {
+    /**
+     * User that has the file open
+     */
+    user: string;
+
+    /**
+     * Workspace the file is open in
+     */
+    client: string;
+
+    /**
+     * Action the file is open for (edit, delete, ...)
+     */
+    action: string;
+
+    /**
+     * Pending changelist the file is open in
+     */
+    change: string;
+};
+
+/**
+ * Who else has a file open, from 'p4 fstat'
+ */
+export type P4FileOpenedByOthers = {
+    /**
+     * Depot path of the file
+     */
+    depotFile: string;
+
+    /**
+     * Perforce file type of the head revision
+     */
+    type: string;
+
+    /**
+     * Whether the file type has the +l modifier, so only one workspace can open it at a time
+     */
+    isExclusive: boolean;
+
+    /**
+     * Other workspaces that have the file open
+     */
+    openedBy: P4OtherOpen[];
+
+    /**
+     * user@workspace holding the lock on the file, if it is locked
+     */
+    lockedBy?: string;
+};
+
+/**
+ * Workspace and depot revisions of a file, used to find stale copies
+ */
+export type P4FileRevisionState = {
+    /**
+     * Depot path of the file
+     */
+    depotFile: string;
+
+    /**
+     * Revision in the workspace (missing or "0" if the workspace doesn't have the file)
+     */
+    haveRev?: string;
+
+    /**
+     * Latest revision in the depot
+     */
+    headRev?: string;
+
+    /**
+     * Action of the latest revision (edit, delete, ...)
+     */
+    headAction?: string;
+
+    /**
+     * Change that submitted the latest revision
+     */
+    headChange?: string;
+};
+
+/**
+ * Server and workspace details from 'p4 -ztag info'
+ */
+export type P4ServerInfo = {
+    userName?: string;
+    // Missing when no workspace is set
+    clientName?: string;
+    clientRoot?: string;
+    clientHost?: string;
+    serverAddress?: string;
+    serverVersion?: string;
+};
+
+/**
+ * Where a depot file is mapped in the workspace, from 'p4 -ztag where'
+ */
+export type P4WhereMapping = {
+    depotFile: string;
+    // Path in client syntax, e.g. //workspace/src/app.js
+    clientFile: string;
+    // Local path on disk
+    path: string;
+};
+
+/**
+ * Server and workspace a connection uses, passed to every p4 command of a session
+ */
+export type P4ConnectionSettings = {
+    port: string;
+    user: string;
+    // Ambient P4CLIENT when not set
+    client?: string;
+    // P4CHARSET for unicode servers, e.g. utf8
+    charset?: string;
+};
+
+/**
+ * Named connection saved in the browser, with the settings that differ between servers and workspaces
+ */
+export type P4ConnectionProfile = P4ConnectionSettings & {
+    id: string;
+    name: string;
+    // Used instead of the root from 'p4 info', e.g. when the workspace is on a mapped drive
+    clientRoot?: string;
+    // Stored values of the settings kept per profile, such as excluded folders, by localStorage key
+    settings: Record<string, string>;
+};
+
+/**
+ * Long-running p4 operations tracked as jobs
+ */
+export type P4JobType = "reconcile" | "sync" | "checkout";
+
+export type P4JobStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * Long-running p4 operation of a session, listed in the jobs tray while it runs and for a while after
+ */
+export type P4Job = {
+    id: string;
+    type: P4JobType;
+    // What the job works on, e.g. the folders scanned
+    label: string;
+    status: P4JobStatus;
+    // Latest progress while running, e.g. '120 file(s) synced'
+    progress?: string;
+    // Outcome once finished
+    message?: string;
+    startedAt: number;
+    finishedAt?: number;
+};